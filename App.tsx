@@ -1,31 +1,129 @@
-
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import Header from './components/Header';
 import ChatInterface from './components/ChatInterface';
 import WelcomeScreen from './components/WelcomeScreen';
 import TalkInterface from './components/TalkInterface';
+import TranscribeInterface from './components/TranscribeInterface';
+import NotFound from './components/NotFound';
+import SignInScreen from './components/SignInScreen';
+import { useAgents } from './hooks/useAgents';
+import type { AgentDirectory } from './hooks/useAgents';
+import { useRoute } from './hooks/useRoute';
+import { useAgeGate } from './hooks/useAgeGate';
+import { useAuth } from './hooks/useAuth';
+import { useLanguage } from './hooks/useLanguage';
+import { routeForMode } from './services/router';
 import type { AppMode } from './types';
 
 
 const App: React.FC = () => {
-  const [mode, setMode] = useState<AppMode>('Welcome');
+  const { route, navigate } = useRoute();
+  const agents = useAgents();
+  const ageGate = useAgeGate();
+  const auth = useAuth();
+  const { t } = useLanguage();
+  const agentRoute = route.mode === 'Chat' || route.mode === 'Talk' ? route : null;
+  const routeAgentName = agentRoute?.agentName;
+  const unknownAgent = routeAgentName !== undefined && !agents.loading && !agents.error
+    && !agents.agents.some(agent => agent.name === routeAgentName);
+
+  useEffect(() => {
+    if (agents.selected) document.title = agents.selected.displayName;
+  }, [agents.selected]);
+
+  // Follow the agent named in the URL
+  useEffect(() => {
+    if (!routeAgentName || agents.selected?.name === routeAgentName) return;
+    const agent = agents.agents.find(candidate => candidate.name === routeAgentName);
+    if (agent) agents.select(agent);
+  }, [routeAgentName, agents.agents]);
+
+  // Fill in the agent for bare /chat and /talk links once one is selected
+  useEffect(() => {
+    if (agentRoute && !agentRoute.agentName && agents.selected) {
+      navigate({ mode: agentRoute.mode, agentName: agents.selected.name }, { replace: true });
+    }
+  }, [agentRoute?.mode, routeAgentName, agents.selected]);
+
+  const setMode = (mode: AppMode) => navigate(routeForMode(mode, agents.selected?.name));
+
+  // Picking an agent inside Chat or Talk moves the URL to that agent
+  const directory: AgentDirectory = {
+    ...agents,
+    select: agent => {
+      agents.select(agent);
+      if (agentRoute && agentRoute.agentName !== agent.name) navigate({ mode: agentRoute.mode, agentName: agent.name });
+    },
+  };
+
+  // Keeps the open conversation in the URL; moving between two conversations is a history entry
+  const handleConversationChange = (agentName: string, conversationId?: string) => {
+    if (agentRoute?.agentName !== agentName || agentRoute.conversationId === conversationId) return;
+    navigate({ ...agentRoute, conversationId }, { replace: !agentRoute.conversationId });
+  };
 
   const renderContent = () => {
-    switch (mode) {
+    // Deep links into a companion still have to pass the age check first
+    if (agentRoute && ageGate.status !== 'confirmed') {
+      return <WelcomeScreen agent={agents.selected} setMode={setMode} ageGate={ageGate} />;
+    }
+    // ...and to sign in; the route is kept, so they land where the link pointed.
+    // Transcription is metered as call time, so it needs an account too.
+    if ((agentRoute || route.mode === 'Transcribe') && !auth.account) {
+      return <SignInScreen agent={agentRoute ? agents.selected : null} />;
+    }
+    if (unknownAgent) {
+      return (
+        <NotFound
+          title={t('notFound.agent.title')}
+          message={t('notFound.agent.message', { name: routeAgentName })}
+          actionLabel={t('notFound.agent.action')}
+          onAction={() => navigate({ mode: agentRoute!.mode })}
+        />
+      );
+    }
+    switch (route.mode) {
       case 'Welcome':
-        return <WelcomeScreen setMode={setMode} />;
+        return <WelcomeScreen agent={agents.selected} setMode={setMode} ageGate={ageGate} />;
       case 'Chat':
-        return <ChatInterface />;
+        return (
+          <ChatInterface
+            agents={directory}
+            conversationId={route.conversationId}
+            onConversationChange={handleConversationChange}
+          />
+        );
       case 'Talk':
-        return <TalkInterface />;
-      default:
-        return <WelcomeScreen setMode={setMode} />;
+        return (
+          <TalkInterface
+            agents={directory}
+            conversationId={route.conversationId}
+            onConversationChange={handleConversationChange}
+          />
+        );
+      case 'Transcribe':
+        return <TranscribeInterface />;
+      case 'NotFound':
+        return (
+          <NotFound
+            title={t('notFound.page.title')}
+            message={t('notFound.page.message', { path: route.path })}
+            actionLabel={t('notFound.page.action')}
+            onAction={() => navigate({ mode: 'Welcome' })}
+          />
+        );
     }
   };
 
   return (
     <div className="min-h-screen bg-brand-bg-light flex flex-col">
-      {mode !== 'Welcome' && <Header currentMode={mode} setMode={setMode} />}
+      {route.mode !== 'Welcome' && (
+        <Header
+          agent={agents.selected}
+          currentMode={route.mode === 'NotFound' ? null : route.mode}
+          setMode={setMode}
+        />
+      )}
       <main className="flex-grow flex flex-col items-center justify-center p-2 sm:p-4">
         <div className="w-full max-w-4xl h-full flex flex-col">
           {renderContent()}
@@ -35,4 +133,4 @@ const App: React.FC = () => {
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import type { AgentSummary } from '../types';
+
+interface AgentAvatarProps {
+  agent: Pick<AgentSummary, 'displayName' | 'avatar'>;
+  className?: string;
+}
+
+function initials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+}
+
+/** The agent's picture, or its initials when it has none (or the image fails to load). */
+const AgentAvatar: React.FC<AgentAvatarProps> = ({ agent, className = 'w-10 h-10' }) => {
+  const [failed, setFailed] = useState(false);
+
+  if (agent.avatar && !failed) {
+    return (
+      <img
+        src={agent.avatar}
+        alt={agent.displayName}
+        onError={() => setFailed(true)}
+        className={`${className} rounded-full object-cover flex-shrink-0`}
+      />
+    );
+  }
+  return (
+    <div
+      className={`${className} rounded-full flex-shrink-0 flex items-center justify-center bg-brand-primary text-white font-bold`}
+      title={agent.displayName}
+    >
+      {initials(agent.displayName)}
+    </div>
+  );
+};
+
+export default AgentAvatar;
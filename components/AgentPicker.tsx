@@ -0,0 +1,63 @@
+import React from 'react';
+import type { AgentSummary } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+import AgentAvatar from './AgentAvatar';
+
+interface AgentPickerProps {
+  agents: AgentSummary[];
+  selectedName: string | null;
+  onSelect: (agent: AgentSummary) => void;
+  disabled?: boolean;
+  variant?: 'dark' | 'light';
+}
+
+const THEMES = {
+  dark: {
+    title: 'text-white',
+    card: 'bg-purple-600 hover:bg-purple-700 text-white',
+    active: 'ring-2 ring-white',
+    muted: 'text-purple-200',
+  },
+  light: {
+    title: 'text-brand-primary font-serif',
+    card: 'bg-brand-surface hover:bg-brand-bg-alt text-brand-secondary border border-brand-bg-alt shadow',
+    active: 'ring-2 ring-brand-primary',
+    muted: 'text-brand-secondary/60',
+  },
+};
+
+/** Grid of agents to talk to, shared by the chat and voice screens. */
+const AgentPicker: React.FC<AgentPickerProps> = ({
+  agents,
+  selectedName,
+  onSelect,
+  disabled = false,
+  variant = 'light',
+}) => {
+  const { t } = useLanguage();
+  const theme = THEMES[variant];
+
+  return (
+    <div className="flex flex-col items-center">
+      <h1 className={`text-4xl font-bold mb-8 ${theme.title}`}>{t('picker.title')}</h1>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {agents.map(agent => (
+          <button
+            key={agent.name}
+            onClick={() => onSelect(agent)}
+            disabled={disabled}
+            className={`px-6 py-3 rounded-lg font-semibold transition disabled:opacity-50 flex items-center gap-3 text-left ${theme.card} ${agent.name === selectedName ? theme.active : ''}`}
+          >
+            <AgentAvatar agent={agent} className="w-12 h-12" />
+            <span>
+              {agent.displayName}
+              {agent.tagline && <span className={`block text-sm font-normal ${theme.muted}`}>{agent.tagline}</span>}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AgentPicker;
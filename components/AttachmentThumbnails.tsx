@@ -0,0 +1,40 @@
+import React from 'react';
+import type { MessageAttachment } from '../types';
+import { attachmentToDataUrl } from '../services/imageUtils';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface AttachmentThumbnailsProps {
+  attachments: MessageAttachment[];
+  /** When given, each thumbnail gets a remove button (used for pending uploads). */
+  onRemove?: (index: number) => void;
+  className?: string;
+}
+
+const AttachmentThumbnails: React.FC<AttachmentThumbnailsProps> = ({ attachments, onRemove, className = 'w-24 h-24' }) => {
+  const { t } = useLanguage();
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment, i) => {
+        const src = attachmentToDataUrl(attachment);
+        return (
+          <div key={i} className="relative">
+            <a href={src} target="_blank" rel="noopener noreferrer">
+              <img src={src} alt={t('attachment.alt', { number: i + 1 })} className={`${className} object-cover rounded-lg`} />
+            </a>
+            {onRemove && (
+              <button
+                onClick={() => onRemove(i)}
+                className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-gray-900 text-white text-xs leading-none"
+                title={t('attachment.remove')}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AttachmentThumbnails;
@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, screen, waitFor } from '@testing-library/react';
+import ChatInterface from './ChatInterface';
+import { createFakeBackend } from '../test/fakeBackend';
+import type { FakeBackend } from '../test/fakeBackend';
+import { fakeLive } from '../test/fakeLiveSession';
+import { installFakeMedia } from '../test/fakeMedia';
+import { storedConversations } from '../test/memoryConversationStore';
+import { agentDirectory, renderScreen } from '../test/render';
+import * as fixtures from '../test/fixtures/backend';
+import { questionAndAnswer, sessionStart } from '../test/fixtures/liveMessages';
+
+vi.mock('../services/conversationStore', async importOriginal => {
+  const { memoryConversationStore } = await import('../test/memoryConversationStore');
+  return memoryConversationStore(importOriginal);
+});
+
+vi.mock('../services/geminiService', async importOriginal => {
+  const { fakeLive } = await import('../test/fakeLiveSession');
+  return { ...await importOriginal<object>(), startLiveConversation: fakeLive.startLiveConversation };
+});
+
+describe('ChatInterface', () => {
+  let backend: FakeBackend;
+
+  beforeEach(() => {
+    backend = createFakeBackend();
+    vi.stubGlobal('fetch', backend.fetch);
+    localStorage.setItem('language', 'en');
+  });
+
+  afterEach(() => {
+    cleanup();
+    fakeLive.reset();
+    storedConversations.clear();
+    localStorage.clear();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const openChat = async () => {
+    renderScreen(<ChatInterface agents={agentDirectory()} onConversationChange={() => {}} />);
+    return screen.findByPlaceholderText('Message Asha...');
+  };
+
+  const send = (input: HTMLElement, text: string) => {
+    fireEvent.change(input, { target: { value: text } });
+    fireEvent.keyPress(input, { key: 'Enter', code: 'Enter', charCode: 13 });
+  };
+
+  it('streams a reply into the thread and saves the conversation', async () => {
+    backend.queueReply(fixtures.groundedReply);
+    const input = await openChat();
+    expect(screen.getByText(fixtures.agentConfig.greeting!)).toBeTruthy();
+
+    send(input, 'When does the monsoon arrive?');
+
+    await screen.findByText('The monsoon usually reaches Kerala in early June.');
+    expect(screen.getByText('When does the monsoon arrive?')).toBeTruthy();
+    expect(screen.getByRole('link', { name: /Monsoon onset/ })).toBeTruthy();
+    expect(backend.requestsTo('/chat/stream')[0].body).toMatchObject({ prompt: 'When does the monsoon arrive?', history: [] });
+
+    // The usage frame at the end of the reply updates the allowance shown.
+    expect(screen.getByText('75% of today\'s chat allowance left')).toBeTruthy();
+    await waitFor(() => expect([...storedConversations.values()][0]?.messages).toHaveLength(2));
+  });
+
+  it('shows each chunk as it arrives and keeps a partial reply when stopped', async () => {
+    const reply = backend.openReply();
+    const input = await openChat();
+    send(input, 'Tell me something');
+
+    reply.send({ textChunk: 'Here is a thought' });
+    await screen.findByText('Here is a thought');
+    expect(screen.getByText('typing...')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: /Stop/ }));
+    await waitFor(() => expect(screen.queryByText('typing...')).toBeNull());
+    expect(screen.getByText('Here is a thought')).toBeTruthy();
+    expect(screen.queryByText(/Chat error/)).toBeNull();
+  });
+
+  it('shows helplines with a reply when the message suggests a crisis', async () => {
+    backend.queueReply(fixtures.crisisReply);
+    const input = await openChat();
+    send(input, 'I don\'t want to be here anymore');
+
+    await screen.findByText(/I'm really glad you told me/);
+    expect(screen.getByRole('note').textContent).toContain('Tele-MANAS');
+  });
+
+  it('reports a reply that failed part-way', async () => {
+    backend.queueReply(fixtures.failedReply);
+    const input = await openChat();
+    send(input, 'Hello?');
+
+    await screen.findByText('Chat error: The server had a problem. Please try again shortly.');
+    expect(screen.getByText('Let me think')).toBeTruthy();
+  });
+
+  it('shows the limit instead of an error once the day\'s chat is used up', async () => {
+    backend.failNext('/chat/stream', 429, fixtures.chatQuotaReached, { 'Retry-After': '3600' });
+    const input = await openChat();
+    send(input, 'One more thing');
+
+    await screen.findByText(/You've reached today's chat limit/);
+    expect(screen.queryByText(/Chat error/)).toBeNull();
+    expect((input as HTMLInputElement).disabled).toBe(true);
+    // Used-up quotas aren't retried.
+    expect(backend.requestsTo('/chat/stream')).toHaveLength(1);
+  });
+
+  it('adds a voice call\'s turns to the same thread', async () => {
+    installFakeMedia();
+    await openChat();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Voice Call' }));
+    await screen.findByText('On a call with Asha. Just start talking.');
+
+    const session = fakeLive.latest();
+    await session.replay([...sessionStart, ...questionAndAnswer]);
+
+    expect(screen.getByText('It was lovely, thanks for asking!')).toBeTruthy();
+    await waitFor(() => {
+      const [saved] = storedConversations.values();
+      expect(saved?.messages.map(msg => [msg.sender, msg.text, msg.spoken])).toEqual([
+        ['user', 'How was your day?', true],
+        ['bot', 'It was lovely, thanks for asking!', true],
+      ]);
+    });
+    // Spoken turns are checked after the fact, one request per side.
+    expect(backend.requestsTo('/moderate').map(request => request.body.direction)).toEqual(['input', 'output']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'End Call' }));
+    await screen.findByPlaceholderText('Message Asha...');
+    await waitFor(() => expect(session.closed).toBe(true));
+  });
+});
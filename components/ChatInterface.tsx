@@ -1,201 +1,460 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { getAvailableAgents, getAgentConfig, streamTextResponse } from '../services/geminiService';
-import type { Message } from '../types';
-import { SendIcon, LinkIcon } from './icons';
+import { getAgentConfig, streamTextResponse, readStreamResponses, sendFeedback, summarizeConversation } from '../services/geminiService';
+import { createConversation, getConversation, listConversations, saveConversation } from '../services/conversationStore';
+import { useConversationHistory } from '../hooks/useConversationHistory';
+import { useMemories } from '../hooks/useMemories';
+import { useUsage } from '../hooks/useUsage';
+import { useLiveSession } from '../hooks/useLiveSession';
+import { useLanguage } from '../hooks/useLanguage';
+import type { AgentDirectory } from '../hooks/useAgents';
+import { ServerError, describeError, isAbortError } from '../services/apiErrors';
+import { readImageFile } from '../services/imageUtils';
+import { EXPORT_EXTENSIONS, EXPORT_MIME_TYPES, ImportError, exportConversation, parseConversationExport } from '../services/conversationExport';
+import type { ExportFormat } from '../services/conversationExport';
+import { downloadBlob, timestampedFilename } from '../services/download';
+import { beginVariant, discardVariant, findPrompt, mergeSources, selectVariant, updateReply } from '../services/chatThread';
+import { buildChatContext, toChatTurns, toSummaryBatches } from '../services/chatContext';
+import { applyIntervention } from '../services/safety';
+import { isUsageBlocked, limitFromError } from '../services/usage';
+import type { UsageLimit } from '../services/usage';
+import type { AgentConfig, Conversation, Message, MessageAttachment, MessageFeedback } from '../types';
+import HistorySidebar from './HistorySidebar';
+import MemoryPanel from './MemoryPanel';
+import UsageStatus from './UsageStatus';
+import ChatMessageBubble from './ChatMessageBubble';
+import AgentPicker from './AgentPicker';
+import AgentAvatar from './AgentAvatar';
+import AttachmentThumbnails from './AttachmentThumbnails';
+import ConversationTransfer from './ConversationTransfer';
+import { AttachIcon, MicIcon, StopIcon } from './icons';
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://aadya.com:8080';
+/** Matches the server's per-request limit. */
+const MAX_ATTACHMENTS = 4;
 
-interface Agent {
-  name: string;
-  displayName: string;
+interface ChatInterfaceProps {
+  agents: AgentDirectory;
+  /** The conversation named in the URL, opened in place of the latest one. */
+  conversationId?: string;
+  /** Called when the open, saved conversation changes (`undefined` for a new, empty one). */
+  onConversationChange: (agentName: string, conversationId?: string) => void;
 }
 
-interface AgentConfig {
-  name: string;
-  chatPrompt?: string;
-  model: string;
-  [key: string]: any;
+/** The stored chat thread with `id`, if it belongs to `agentName`. */
+async function findChatConversation(agentName: string, id: string): Promise<Conversation | undefined> {
+  const found = await getConversation(id);
+  return found?.agentName === agentName && found.kind === 'chat' ? found : undefined;
 }
 
-const ChatInterface: React.FC = () => {
-  const [selectedAgent, setSelectedAgent] = useState<Agent | null>(null);
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ agents, conversationId, onConversationChange }) => {
+  const { language, t } = useLanguage();
+  const selectedAgent = agents.selected;
   const [agentConfig, setAgentConfig] = useState<AgentConfig | null>(null);
-  const [availableAgents, setAvailableAgents] = useState<Agent[]>([]);
+  const [picking, setPicking] = useState(false);
+  // Bumped to retry loading the agent's config after a failure.
+  const [configAttempt, setConfigAttempt] = useState(0);
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isLiveActive, setIsLiveActive] = useState(false);
+  // Set when a reply was turned away for being over the daily or per-minute limit.
+  const [limit, setLimit] = useState<UsageLimit | null>(null);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [showHistory, setShowHistory] = useState(true);
+  const [showMemories, setShowMemories] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
-  const liveSessionRef = useRef<any>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The messages last loaded from or written to storage, so unchanged threads aren't re-saved.
+  const savedMessagesRef = useRef<Message[]>([]);
+  // Read by the agent loader without making the URL a dependency of it.
+  const conversationIdRef = useRef(conversationId);
+  conversationIdRef.current = conversationId;
+  const history = useConversationHistory(selectedAgent?.name ?? null, 'chat');
+  // Loaded each time the panel opens, so facts picked up since are included.
+  const memories = useMemories(showMemories ? selectedAgent?.name ?? null : null);
+  const usage = useUsage();
+  // Spoken turns land in the same thread, so a call picks up where typing left off and vice versa.
+  const live = useLiveSession(selectedAgent?.name ?? null, {
+    onTurn: turn => setMessages(prev => [...prev, ...turn]),
+    getContext: () => messages,
+    language,
+    onIntervention: (messageId, intervention) => {
+      setMessages(prev => prev.map(msg => (msg.id === messageId ? applyIntervention(msg, intervention) : msg)));
+    },
+    conversationId: conversation?.id,
+  });
+  const isLiveActive = live.isLive;
+  const chatBlocked = isUsageBlocked('chat', usage.usage, limit);
+  const liveBlocked = isUsageBlocked('live', usage.usage, live.limit);
 
-  // Load available agents on mount
+  // Cancel any in-flight reply when leaving the chat
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Surface voice call failures in the same banner as chat errors
+  useEffect(() => {
+    if (live.error) setError(t('chat.error.voice', { error: t(...live.error) }));
+  }, [live.error]);
+
+  // A finished call has used up some of the day's call time
+  useEffect(() => {
+    if (live.status === 'ended') usage.refresh();
+  }, [live.status, usage.refresh]);
+
+  // Scroll to bottom when messages update
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  // Persist the thread once each reply has finished streaming
   useEffect(() => {
-    const fetchAgents = async () => {
+    if (isTyping || !conversation || messages.length === 0 || messages === savedMessagesRef.current) return;
+    savedMessagesRef.current = messages;
+    saveConversation(conversation, messages)
+      .then(saved => {
+        setConversation(current => (current?.id === saved.id ? saved : current));
+        history.refresh();
+      })
+      .catch(err => console.error('Error saving conversation:', err));
+  }, [messages, isTyping, conversation, history.refresh]);
+
+  const openConversation = (next: Conversation) => {
+    savedMessagesRef.current = next.messages;
+    setConversation(next);
+    setMessages(next.messages);
+    setError(null);
+  };
+
+  const startNewConversation = (agentName: string) => {
+    openConversation(createConversation(agentName, 'chat'));
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    await history.rename(id, title);
+    setConversation(current => (current?.id === id ? { ...current, title } : current));
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    await history.remove(id);
+    if (conversation?.id === id && selectedAgent) startNewConversation(selectedAgent.name);
+  };
+
+  // Fetch the selected agent's config and open the linked thread, or resume its most recent one
+  useEffect(() => {
+    if (!selectedAgent) return;
+    let cancelled = false;
+
+    const loadAgent = async () => {
       try {
         setLoading(true);
-        const agents = await getAvailableAgents();
-        setAvailableAgents(agents);
-        
-        if (agents.length > 0) {
-          await selectAgent(agents[0]);
-        }
+        setAgentConfig(null);
+        const config = await getAgentConfig(selectedAgent.name);
+        const linkedId = conversationIdRef.current;
+        const linked = linkedId
+          ? await findChatConversation(selectedAgent.name, linkedId).catch(() => undefined)
+          : undefined;
+        const [latest] = linked ? [linked] : await listConversations(selectedAgent.name, 'chat').catch(err => {
+          console.error('Error loading saved conversations:', err);
+          return [] as Conversation[];
+        });
+        if (cancelled) return;
+        setAgentConfig(config);
+        if (latest) openConversation(latest);
+        else startNewConversation(selectedAgent.name);
+        setError(linkedId && !linked ? t('chat.linkedNotFound') : null);
       } catch (err) {
-        setError(`Error loading agents: ${err instanceof Error ? err.message : 'Unknown error'}`);
-        console.error('Error fetching agents:', err);
+        if (cancelled) return;
+        setError(t('chat.error.loadAgent', { error: t(...describeError(err)) }));
+        console.error('Error selecting agent:', err);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
-    fetchAgents();
-  }, []);
+    loadAgent();
+    return () => { cancelled = true; };
+  }, [selectedAgent?.name, configAttempt]);
 
-  // Scroll to bottom when messages update
+  // Follow the URL to another saved thread (links, back and forward)
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (!agentConfig || !selectedAgent || !conversationId || conversationId === conversation?.id) return;
+    let cancelled = false;
+    findChatConversation(selectedAgent.name, conversationId)
+      .then(found => {
+        if (cancelled) return;
+        if (found) openConversation(found);
+        else setError(t('common.conversationNotFound'));
+      })
+      .catch(err => console.error('Error loading conversation:', err));
+    return () => { cancelled = true; };
+  }, [conversationId, agentConfig]);
+
+  // Report the open thread once it has been saved, so the URL can link to it
+  const persistedId = conversation?.messages.length ? conversation.id : undefined;
+  useEffect(() => {
+    if (conversation) onConversationChange(conversation.agentName, persistedId);
+  }, [conversation?.agentName, persistedId]);
 
-  // Select agent and fetch its config
-  const selectAgent = async (agent: Agent) => {
+  // Folds turns that no longer fit the history budget into the conversation's
+  // summary, a batch at a time; each batch is kept as soon as it is folded.
+  // A failed fold only costs context: the recent turns still go.
+  const prepareContext = async (priorMessages: Message[], signal: AbortSignal) => {
+    const context = buildChatContext(priorMessages, conversation?.summary);
+    if (context.overflow.length === 0 || !selectedAgent || !conversation) return context;
+    const id = conversation.id;
+    let text = context.summary;
     try {
-      setLoading(true);
-      setSelectedAgent(agent);
-      
-      const config = await getAgentConfig(agent.name);
-      setAgentConfig(config);
-      setMessages([]);
-      setError(null);
+      for (const batch of toSummaryBatches(context.overflow)) {
+        text = await summarizeConversation(selectedAgent.name, toChatTurns(batch), text, { signal });
+        const summary = { text, throughMessageId: batch[batch.length - 1].id };
+        setConversation(current => (current?.id === id ? { ...current, summary } : current));
+      }
     } catch (err) {
-      setError(`Error loading agent: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      console.error('Error selecting agent:', err);
-    } finally {
-      setLoading(false);
+      if (signal.aborted || isAbortError(err)) throw err;
+      console.error('Error summarizing conversation:', err);
     }
+    return { ...context, summary: text };
   };
 
- const handleSendMessage = async (e: React.KeyboardEvent<HTMLInputElement>) => {
-  if (e.key !== 'Enter' || !agentConfig || !selectedAgent) return;
-  
-  const userMessage = inputRef.current?.value.trim();
-  if (!userMessage) return;
-
-  setMessages(prev => [...prev, { text: userMessage, role: 'user', sources: [] }]);
-  if (inputRef.current) inputRef.current.value = '';
-  setMessages(prev => [...prev, { text: '', role: 'model', sources: [] }]);
-  setIsTyping(true);
-
-  try {
-    const stream = await streamTextResponse(selectedAgent.name, userMessage, messages);
-    
-    if (!stream) throw new Error('No stream received');
-    
-    const reader = stream.getReader();
-    const decoder = new TextDecoder();
+  // Streams a reply to `prompt` into the bot message `botMessageId`. `onEmpty`
+  // undoes the placeholder when nothing arrived (error or an immediate stop).
+  const streamReply = async (prompt: Message, priorMessages: Message[], botMessageId: string, onEmpty: () => void) => {
+    if (!selectedAgent) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsTyping(true);
+
+    const updateBotMessage = (update: (msg: Message) => Message) => {
+      setMessages(prev => prev.map(msg => (msg.id === botMessageId ? update(msg) : msg)));
+    };
+
     let fullResponse = '';
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      
-      fullResponse += decoder.decode(value, { stream: true });
-      setMessages(prev => {
-        const updated = [...prev];
-        const lastIndex = updated.length - 1;
-        if (updated[lastIndex].role === 'model') {
-          updated[lastIndex] = { ...updated[lastIndex], text: fullResponse };
-        }
-        return updated;
+    let intervened = false;
+    try {
+      const context = await prepareContext(priorMessages, controller.signal);
+      const stream = await streamTextResponse(selectedAgent.name, prompt.text, context.history, {
+        signal: controller.signal,
+        attachments: prompt.attachments,
+        conversationId: conversation?.id,
+        summary: context.summary,
       });
+
+      for await (const frame of readStreamResponses(stream)) {
+        if (frame.error) throw new ServerError(frame.error, 500);
+
+        if (frame.intervention) {
+          const intervention = frame.intervention;
+          intervened = true;
+          // A withheld reply drops whatever streamed before the check tripped.
+          if (intervention.direction === 'output') fullResponse = '';
+          updateBotMessage(msg => updateReply(msg, { text: fullResponse, intervention }));
+        }
+
+        if (frame.textChunk) {
+          fullResponse += frame.textChunk;
+          updateBotMessage(msg => updateReply(msg, { text: fullResponse }));
+        }
+        if (frame.sources?.length) {
+          updateBotMessage(msg => updateReply(msg, { sources: mergeSources(msg.sources, frame.sources!) }));
+        }
+        if (frame.usage) {
+          usage.setUsage(frame.usage);
+          setLimit(null);
+        }
+      }
+    } catch (err) {
+      const stopped = controller.signal.aborted || isAbortError(err);
+      const limited = stopped ? null : limitFromError(err);
+      if (limited) {
+        setLimit(limited);
+        usage.refresh();
+      } else if (!stopped) {
+        setError(t('chat.error.reply', { error: t(...describeError(err)) }));
+      }
+      // Keep whatever part of the reply already arrived.
+      if (!fullResponse && !intervened) onEmpty();
+      else if (stopped) updateBotMessage(msg => updateReply(msg, { stopped: true }));
+    } finally {
+      abortControllerRef.current = null;
+      setIsTyping(false);
     }
-  } catch (err) {
-    setError(`Chat error: ${err instanceof Error ? err.message : 'Unknown error'}`);
-    setMessages(prev => prev.slice(0, -1));
-  } finally {
-    setIsTyping(false);
-  }
-};
+  };
+
+  const removeMessage = (id: string) => setMessages(prev => prev.filter(msg => msg.id !== id));
+
+  const handleSendMessage = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter' || !agentConfig || !selectedAgent || isTyping || chatBlocked) return;
+
+    const text = inputRef.current?.value.trim() ?? '';
+    if (!text && pendingAttachments.length === 0) return;
+
+    const userMessage: Message = { id: crypto.randomUUID(), text, sender: 'user' };
+    if (pendingAttachments.length > 0) userMessage.attachments = pendingAttachments;
+    const botMessageId = crypto.randomUUID();
+    setMessages([
+      ...messages,
+      userMessage,
+      { id: botMessageId, text: '', sender: 'bot', sources: [] },
+    ]);
+    if (inputRef.current) inputRef.current.value = '';
+    setPendingAttachments([]);
+    await streamReply(userMessage, messages, botMessageId, () => removeMessage(botMessageId));
+  };
+
+  // Downscales picked or pasted images and queues them for the next message
+  const addAttachments = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (images.length > room) setError(t('chat.error.tooManyImages', { count: MAX_ATTACHMENTS }));
+    try {
+      const added = await Promise.all(images.slice(0, Math.max(room, 0)).map(file => readImageFile(file)));
+      setPendingAttachments(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+    } catch (err) {
+      setError(t('chat.error.attach', { error: t(...describeError(err)) }));
+      console.error('Error reading image:', err);
+    }
+  };
 
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (!files.some(file => file.type.startsWith('image/'))) return;
+    e.preventDefault();
+    addAttachments(files);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Re-asks the prompt behind a bot reply, keeping the old reply as a variant
+  const handleRegenerate = async (botMessageId: string) => {
+    if (isTyping) return;
+    const index = messages.findIndex(msg => msg.id === botMessageId);
+    const found = findPrompt(messages, index);
+    if (!found) return;
+
+    const mapBot = (update: (msg: Message) => Message) =>
+      setMessages(prev => prev.map(msg => (msg.id === botMessageId ? update(msg) : msg)));
+    mapBot(beginVariant);
+    await streamReply(found.prompt, found.history, botMessageId, () => mapBot(discardVariant));
+  };
+
+  // Replaces a user message, drops everything after it and asks again
+  const handleEditMessage = async (userMessageId: string, text: string) => {
+    if (isTyping) return;
+    const index = messages.findIndex(msg => msg.id === userMessageId);
+    if (index < 0) return;
+
+    const priorMessages = messages.slice(0, index);
+    const edited = { ...messages[index], text };
+    const botMessageId = crypto.randomUUID();
+    setMessages([
+      ...priorMessages,
+      edited,
+      { id: botMessageId, text: '', sender: 'bot', sources: [] },
+    ]);
+    await streamReply(edited, priorMessages, botMessageId, () => removeMessage(botMessageId));
+  };
+
+  const handleSelectVariant = (botMessageId: string, variantIndex: number) => {
+    setMessages(prev => prev.map(msg => (msg.id === botMessageId ? selectVariant(msg, variantIndex) : msg)));
+  };
 
-  const handleStartLive = async () => {
+  // Stores a reaction or rating on the reply and reports it for prompt tuning
+  const handleFeedback = (botMessageId: string, feedback: Pick<MessageFeedback, 'rating' | 'reaction'>) => {
     if (!selectedAgent) return;
+    const message = messages.find(msg => msg.id === botMessageId);
+    if (!message) return;
+
+    setMessages(prev => prev.map(msg => {
+      if (msg.id !== botMessageId) return msg;
+      const updated = { ...msg };
+      if (feedback.rating !== undefined) updated.feedback = feedback.rating ?? undefined;
+      if (feedback.reaction !== undefined) updated.reaction = feedback.reaction ?? undefined;
+      return updated;
+    }));
 
+    sendFeedback(selectedAgent.name, {
+      messageId: botMessageId,
+      conversationId: conversation?.id,
+      messageText: message.text,
+      ...feedback,
+    }).catch(err => console.error('Error sending feedback:', err));
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!conversation || !agentConfig) return;
+    const content = exportConversation({ ...conversation, messages }, format, agentConfig.displayName, t);
+    downloadBlob(
+      new Blob([content], { type: EXPORT_MIME_TYPES[format] }),
+      timestampedFilename(`chat-${agentConfig.name}`, EXPORT_EXTENSIONS[format])
+    );
+  };
+
+  // Restores an exported thread as a new conversation with the agent it was held with
+  const handleImport = async (file: File) => {
     try {
-      setLoading(true);
-      setError(null);
-
-      const { startLiveConversation } = await import('../services/geminiService');
-      
-      const session = await startLiveConversation(selectedAgent.name, {
-        onopen: () => {
-          setIsLiveActive(true);
-          console.log('Live session started');
-        },
-        onmessage: (message: any) => {
-          console.log('Live message received:', message);
-        },
-        onerror: (e: Error) => {
-          setError(`Live session error: ${e.message}`);
-          setIsLiveActive(false);
-          console.error('Live session error:', e);
-        },
-        onclose: () => {
-          setIsLiveActive(false);
-          console.log('Live session closed');
-        }
-      });
+      const imported = parseConversationExport(await file.text());
+      if (imported.kind !== 'chat') {
+        throw new ImportError(['chat.importVoice']);
+      }
+      const agent = agents.agents.find(candidate => candidate.name === imported.agentName);
+      if (!agent) throw new ImportError(['common.agentUnavailable', { name: imported.agentName }]);
 
-      liveSessionRef.current = session;
+      const saved = await saveConversation(imported, imported.messages);
+      if (agent.name === selectedAgent?.name) {
+        openConversation(saved);
+        history.refresh();
+      } else {
+        // Switching agents resumes its most recent thread, which is now the import.
+        agents.select(agent);
+      }
     } catch (err) {
-      setError(`Failed to start live: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      console.error('Failed to start live:', err);
-      setIsLiveActive(false);
-    } finally {
-      setLoading(false);
+      setError(err instanceof ImportError ? t(...err.reason) : t('common.importFailed', { error: t(...describeError(err)) }));
+      console.error('Error importing conversation:', err);
     }
   };
 
-  const handleEndLive = () => {
-    if (liveSessionRef.current) {
-      liveSessionRef.current.close?.();
-      liveSessionRef.current = null;
-      setIsLiveActive(false);
-    }
+  const handleStartLive = () => {
+    if (isTyping) return;
+    setError(null);
+    live.start();
   };
 
   // Agent selection screen
-  if (!selectedAgent || !agentConfig) {
+  if (!selectedAgent || !agentConfig || picking) {
+    const loadError = agents.error ? t('common.loadAgentsFailed', { error: t(...agents.error) }) : error;
     return (
       <div className="flex flex-col items-center justify-center h-screen bg-gradient-to-br from-purple-900 to-black">
-        {loading ? (
-          <div className="text-white text-xl">Loading agents...</div>
-        ) : error ? (
+        {(agents.loading || loading) && !picking ? (
+          <div className="text-white text-xl">{t('common.loadingAgents')}</div>
+        ) : loadError && !picking ? (
           <div className="text-red-500 text-center max-w-md">
-            <p className="mb-4">{error}</p>
+            <p className="mb-4">{loadError}</p>
             <button
-              onClick={() => window.location.reload()}
+              onClick={() => {
+                setError(null);
+                if (agents.error) agents.reload();
+                else setConfigAttempt(attempt => attempt + 1);
+              }}
               className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
             >
-              Retry
+              {t('common.retry')}
             </button>
           </div>
         ) : (
-          <>
-            <h1 className="text-4xl font-bold text-white mb-8">Select an Agent</h1>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {availableAgents.map(agent => (
-                <button
-                  key={agent.name}
-                  onClick={() => selectAgent(agent)}
-                  disabled={loading}
-                  className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-semibold transition disabled:opacity-50"
-                >
-                  {agent.displayName}
-                </button>
-              ))}
-            </div>
-          </>
+          <AgentPicker
+            variant="dark"
+            agents={agents.agents}
+            selectedName={selectedAgent?.name ?? null}
+            onSelect={agent => {
+              agents.select(agent);
+              setPicking(false);
+            }}
+          />
         )}
       </div>
     );
@@ -207,105 +466,190 @@ const ChatInterface: React.FC = () => {
       {/* Header */}
       <div className="bg-gradient-to-r from-purple-900 to-black p-4 border-b border-purple-800">
         <div className="flex justify-between items-center">
-          <h1 className="text-white text-2xl font-bold">{agentConfig.name}</h1>
+          <div className="flex items-center gap-3 min-w-0">
+            <AgentAvatar agent={agentConfig} />
+            <h1 className="text-white text-2xl font-bold truncate">{agentConfig.displayName}</h1>
+          </div>
           <div className="flex gap-2">
+            <button
+              onClick={() => setShowHistory(show => !show)}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition"
+            >
+              {t('chat.history')}
+            </button>
+            <button
+              onClick={() => setShowMemories(show => !show)}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition"
+            >
+              {t('memory.button')}
+            </button>
+            <ConversationTransfer
+              variant="dark"
+              onExport={handleExport}
+              onImport={handleImport}
+              exportDisabled={messages.length === 0}
+              importDisabled={isTyping || isLiveActive}
+            />
             {isLiveActive ? (
               <button
-                onClick={handleEndLive}
+                onClick={live.stop}
                 className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition"
               >
-                End Call
+                {t('chat.endCall')}
               </button>
             ) : (
               <button
                 onClick={handleStartLive}
-                disabled={loading}
+                disabled={loading || isTyping || liveBlocked}
                 className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition disabled:opacity-50"
               >
-                Voice Call
+                {t('chat.voiceCall')}
               </button>
             )}
             <button
               onClick={() => {
-                setSelectedAgent(null);
-                setAgentConfig(null);
-                setMessages([]);
+                abortControllerRef.current?.abort();
+                live.stop();
+                setPicking(true);
               }}
               className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition"
             >
-              Change Agent
+              {t('chat.changeAgent')}
             </button>
           </div>
         </div>
       </div>
 
-      {/* Error message */}
-      {error && (
-        <div className="bg-red-900/30 border border-red-700 text-red-200 p-3 m-2 rounded-lg flex justify-between items-center">
-          <p>{error}</p>
-          <button
-            onClick={() => setError(null)}
-            className="text-lg font-bold hover:text-red-100"
-          >
-            ✕
-          </button>
-        </div>
-      )}
+      <div className="flex flex-1 min-h-0">
+        {showHistory && (
+          <HistorySidebar
+            variant="dark"
+            conversations={history.conversations}
+            activeId={conversation?.id ?? null}
+            onSelect={next => { if (!isTyping && !isLiveActive) openConversation(next); }}
+            onNew={() => { if (!isTyping && !isLiveActive) startNewConversation(selectedAgent.name); }}
+            onRename={handleRenameConversation}
+            onDelete={handleDeleteConversation}
+          />
+        )}
+        <div className="flex flex-col flex-1 min-w-0">
+          {/* Error message */}
+          {error && (
+            <div className="bg-red-900/30 border border-red-700 text-red-200 p-3 m-2 rounded-lg flex justify-between items-center">
+              <p>{error}</p>
+              <button
+                onClick={() => setError(null)}
+                className="text-lg font-bold hover:text-red-100"
+              >
+                ✕
+              </button>
+            </div>
+          )}
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 && !isTyping && (
-          <div className="text-center text-gray-500 mt-10">
-            <p>Start a conversation with {agentConfig.name}</p>
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {messages.length === 0 && !isTyping && (
+              <div className="text-center text-gray-500 mt-10">
+                <AgentAvatar agent={agentConfig} className="w-16 h-16 mx-auto mb-3" />
+                <p>{agentConfig.greeting ?? t('chat.empty', { name: agentConfig.displayName })}</p>
+              </div>
+            )}
+            {messages.filter(msg => msg.text || msg.sources?.length || msg.attachments?.length || msg.intervention).map((msg, idx, visible) => (
+              <ChatMessageBubble
+                key={msg.id}
+                message={msg}
+                busy={isTyping || isLiveActive}
+                canRegenerate={msg.sender === 'bot' && idx === visible.length - 1}
+                onRegenerate={() => handleRegenerate(msg.id)}
+                onEdit={text => handleEditMessage(msg.id, text)}
+                onSelectVariant={variantIndex => handleSelectVariant(msg.id, variantIndex)}
+                onReact={reaction => handleFeedback(msg.id, { reaction })}
+                onRate={rating => handleFeedback(msg.id, { rating })}
+              />
+            ))}
+            {isTyping && (
+              <div className="flex justify-start">
+                <div className="bg-gray-800 px-4 py-2 rounded-lg text-gray-500">{t('chat.typing')}</div>
+              </div>
+            )}
+            <div ref={messagesEndRef} />
           </div>
-        )}
-        {messages.map((msg, idx) => (
-          <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-              msg.role === 'user'
-                ? 'bg-purple-600 text-white'
-                : 'bg-gray-800 text-gray-100'
-            }`}>
-              <p className="whitespace-pre-wrap">{msg.text}</p>
-              {msg.sources && msg.sources.length > 0 && (
-                <div className="mt-2 text-sm text-gray-300 border-t border-gray-600 pt-2">
-                  {msg.sources.map((source, i) => (
-                    <a
-                      key={i}
-                      href={source.uri}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="block text-blue-400 hover:underline truncate"
-                    >
-                      {source.title}
-                    </a>
-                  ))}
-                </div>
+
+          {/* Input */}
+          {isLiveActive ? (
+            <div className="p-4 border-t border-purple-800 flex items-center justify-center gap-2 text-gray-300">
+              <MicIcon className="w-5 h-5 text-green-500 animate-pulse" />
+              {live.status === 'connecting'
+                ? t('chat.connecting')
+                : live.status === 'reconnecting'
+                  ? t('chat.reconnecting')
+                  : t('chat.onCall', { name: agentConfig.displayName })}
+            </div>
+          ) : (
+            <div className="p-4 border-t border-purple-800 flex flex-col gap-2">
+              {live.limit && <UsageStatus variant="dark" kind="live" usage={usage.usage} limit={live.limit} />}
+              <UsageStatus variant="dark" kind="chat" usage={usage.usage} limit={limit} />
+              {pendingAttachments.length > 0 && (
+                <AttachmentThumbnails
+                  attachments={pendingAttachments}
+                  onRemove={index => setPendingAttachments(prev => prev.filter((_, i) => i !== index))}
+                  className="w-16 h-16"
+                />
               )}
+              <div className="flex gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  hidden
+                  onChange={e => {
+                    addAttachments(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={loading || isTyping || pendingAttachments.length >= MAX_ATTACHMENTS}
+                  className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition disabled:opacity-50"
+                  title={t('chat.attachImages')}
+                >
+                  <AttachIcon className="w-5 h-5" />
+                </button>
+                <input
+                  ref={inputRef}
+                  type="text"
+                  placeholder={t('chat.placeholder', { name: agentConfig.displayName })}
+                  onKeyPress={handleSendMessage}
+                  onPaste={handlePaste}
+                  disabled={loading || isTyping || chatBlocked}
+                  className="flex-1 px-4 py-2 bg-gray-800 text-white rounded-lg outline-none focus:ring-2 focus:ring-purple-600 disabled:opacity-50 transition"
+                />
+                {isTyping && (
+                  <button
+                    onClick={handleStop}
+                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition flex items-center gap-2"
+                    title={t('chat.stopTitle')}
+                  >
+                    <StopIcon className="w-4 h-4" />
+                    {t('chat.stop')}
+                  </button>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
-        {isTyping && (
-          <div className="flex justify-start">
-            <div className="bg-gray-800 px-4 py-2 rounded-lg text-gray-500">typing...</div>
-          </div>
+          )}
+        </div>
+        {showMemories && (
+          <MemoryPanel
+            variant="dark"
+            displayName={agentConfig.displayName}
+            memories={memories.memories}
+            onUpdate={memories.update}
+            onDelete={memories.remove}
+            onClose={() => setShowMemories(false)}
+          />
         )}
-        <div ref={messagesEndRef} />
       </div>
-
-      {/* Input */}
-      {!isLiveActive && (
-        <div className="p-4 border-t border-purple-800">
-          <input
-            ref={inputRef}
-            type="text"
-            placeholder={`Message ${agentConfig.name}...`}
-            onKeyPress={handleSendMessage}
-            disabled={loading || isTyping}
-            className="w-full px-4 py-2 bg-gray-800 text-white rounded-lg outline-none focus:ring-2 focus:ring-purple-600 disabled:opacity-50 transition"
-          />
-        </div>
-      )}
     </div>
   );
 };
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import type { FeedbackRating, Message } from '../types';
+import Markdown from './Markdown';
+import AttachmentThumbnails from './AttachmentThumbnails';
+import HelplineCard from './HelplineCard';
+import { useLanguage } from '../hooks/useLanguage';
+import { LinkIcon, MicIcon, ThumbDownIcon, ThumbUpIcon } from './icons';
+
+const REACTIONS = ['❤️', '😂', '😮', '😢', '🙏', '🔥'];
+
+interface ChatMessageBubbleProps {
+  message: Message;
+  /** A reply is streaming somewhere in the thread, so editing is paused. */
+  busy: boolean;
+  canRegenerate: boolean;
+  onRegenerate: () => void;
+  onEdit: (text: string) => void;
+  onSelectVariant: (index: number) => void;
+  /** `null` clears the reaction. */
+  onReact: (reaction: string | null) => void;
+  /** `null` clears the rating. */
+  onRate: (rating: FeedbackRating | null) => void;
+}
+
+const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({
+  message,
+  busy,
+  canRegenerate,
+  onRegenerate,
+  onEdit,
+  onSelectVariant,
+  onReact,
+  onRate,
+}) => {
+  const { t } = useLanguage();
+  const [isEditing, setIsEditing] = useState(false);
+  const [showReactions, setShowReactions] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+  const isUser = message.sender === 'user';
+  const variantCount = message.variants?.length ?? 0;
+  const variantIndex = message.variantIndex ?? 0;
+
+  const submitEdit = () => {
+    const text = draft.trim();
+    setIsEditing(false);
+    if (text && text !== message.text) onEdit(text);
+  };
+
+  return (
+    <div className={`group flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+      <div className={`relative max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
+        isUser
+          ? 'bg-purple-600 text-white'
+          : 'bg-gray-800 text-gray-100'
+      }`}>
+        {message.attachments && message.attachments.length > 0 && (
+          <div className={message.text ? 'mb-2' : undefined}>
+            <AttachmentThumbnails attachments={message.attachments} />
+          </div>
+        )}
+        {isEditing ? (
+          <div className="flex flex-col gap-2">
+            <textarea
+              autoFocus
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              rows={3}
+              className="w-64 px-2 py-1 bg-purple-800 text-white rounded outline-none resize-none"
+            />
+            <div className="flex justify-end gap-2 text-sm">
+              <button onClick={() => setIsEditing(false)} className="px-2 py-1 rounded hover:bg-purple-700">{t('message.cancel')}</button>
+              <button onClick={submitEdit} className="px-2 py-1 rounded bg-white text-purple-700 font-semibold">{t('message.send')}</button>
+            </div>
+          </div>
+        ) : isUser ? (
+          message.text && <p className="whitespace-pre-wrap">{message.text}</p>
+        ) : (
+          <Markdown text={message.text} />
+        )}
+        {message.intervention?.action === 'block' && !isUser && (
+          <p className="text-sm italic text-gray-400">
+            {t(message.intervention.direction === 'input' ? 'safety.blockedInput' : 'safety.withheld')}
+          </p>
+        )}
+        {message.intervention?.action === 'crisis' && <HelplineCard variant="dark" />}
+        {message.stopped && (
+          <p className="mt-1 text-xs italic text-gray-400">{t('message.stopped')}</p>
+        )}
+        {message.interrupted && (
+          <p className="mt-1 text-xs italic text-gray-400">{t('message.interrupted')}</p>
+        )}
+        {message.spoken && (
+          <p className="mt-1 text-xs text-gray-400 flex items-center gap-1" title={t('message.voiceTitle')}>
+            <MicIcon className="w-3 h-3" />
+            {t('message.voice')}
+          </p>
+        )}
+        {message.sources && message.sources.length > 0 && (
+          <div className="mt-2 text-sm text-gray-300 border-t border-gray-600 pt-2">
+            {message.sources.map((source, i) => (
+              <a
+                key={i}
+                href={source.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-blue-400 hover:underline"
+                title={source.uri}
+              >
+                <LinkIcon className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">{source.title}</span>
+              </a>
+            ))}
+          </div>
+        )}
+        {message.reaction && (
+          <button
+            onClick={() => onReact(null)}
+            className="absolute -bottom-3 right-2 px-1.5 rounded-full bg-gray-700 border border-gray-600 text-sm"
+            title={t('message.removeReaction')}
+          >
+            {message.reaction}
+          </button>
+        )}
+      </div>
+
+      {!isEditing && !busy && (
+        <div className={`flex items-center gap-3 text-xs text-gray-500 ${message.reaction ? 'mt-4' : 'mt-1'}`}>
+          {variantCount > 1 && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onSelectVariant(variantIndex - 1)}
+                disabled={variantIndex === 0}
+                className="px-1 hover:text-gray-300 disabled:opacity-30"
+                title={t('message.previousVersion')}
+              >
+                ‹
+              </button>
+              <span>{variantIndex + 1}/{variantCount}</span>
+              <button
+                onClick={() => onSelectVariant(variantIndex + 1)}
+                disabled={variantIndex === variantCount - 1}
+                className="px-1 hover:text-gray-300 disabled:opacity-30"
+                title={t('message.nextVersion')}
+              >
+                ›
+              </button>
+            </div>
+          )}
+          {isUser && (
+            <button
+              onClick={() => {
+                setDraft(message.text);
+                setIsEditing(true);
+              }}
+              className="opacity-0 group-hover:opacity-100 hover:text-gray-300 transition"
+            >
+              {t('message.edit')}
+            </button>
+          )}
+          {!isUser && (
+            <>
+              <button
+                onClick={() => onRate(message.feedback === 'up' ? null : 'up')}
+                className={`transition ${message.feedback === 'up' ? 'text-green-400' : 'hover:text-gray-300'}`}
+                title={t('message.goodReply')}
+              >
+                <ThumbUpIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onRate(message.feedback === 'down' ? null : 'down')}
+                className={`transition ${message.feedback === 'down' ? 'text-red-400' : 'hover:text-gray-300'}`}
+                title={t('message.badReply')}
+              >
+                <ThumbDownIcon className="w-4 h-4" />
+              </button>
+              <div className="relative">
+                <button onClick={() => setShowReactions(show => !show)} className="hover:text-gray-300 transition" title={t('message.react')}>
+                  ☺︎
+                </button>
+                {showReactions && (
+                  <div className="absolute bottom-6 left-0 z-10 flex gap-1 p-1 rounded-full bg-gray-700 border border-gray-600 shadow-lg">
+                    {REACTIONS.map(reaction => (
+                      <button
+                        key={reaction}
+                        onClick={() => {
+                          setShowReactions(false);
+                          onReact(message.reaction === reaction ? null : reaction);
+                        }}
+                        className={`w-8 h-8 rounded-full text-lg hover:bg-gray-600 ${message.reaction === reaction ? 'bg-gray-600' : ''}`}
+                      >
+                        {reaction}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+          {canRegenerate && (
+            <button onClick={onRegenerate} className="hover:text-gray-300 transition">
+              {t('message.regenerate')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatMessageBubble;
@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { useLanguage } from '../hooks/useLanguage';
+import type { ExportFormat } from '../services/conversationExport';
+import type { MessageKey } from '../services/i18n';
+
+interface ConversationTransferProps {
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+  /** Nothing to export yet. */
+  exportDisabled?: boolean;
+  /** Importing would replace a thread that is still streaming or on a call. */
+  importDisabled?: boolean;
+  variant?: 'dark' | 'light';
+}
+
+const FORMATS: { format: ExportFormat; label: MessageKey }[] = [
+  { format: 'json', label: 'transfer.format.json' },
+  { format: 'markdown', label: 'transfer.format.markdown' },
+  { format: 'text', label: 'transfer.format.text' },
+];
+
+const THEMES = {
+  dark: {
+    button: 'px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition disabled:opacity-50',
+    menu: 'bg-gray-800 border-purple-800 text-gray-100',
+    item: 'hover:bg-gray-700',
+  },
+  light: {
+    button: 'text-sm font-medium text-brand-secondary/70 hover:text-brand-primary transition-colors disabled:opacity-40',
+    menu: 'bg-brand-surface border-brand-bg-alt text-brand-secondary',
+    item: 'hover:bg-brand-bg-light',
+  },
+};
+
+/** Export menu and import button for the open conversation. */
+const ConversationTransfer: React.FC<ConversationTransferProps> = ({
+  onExport,
+  onImport,
+  exportDisabled = false,
+  importDisabled = false,
+  variant = 'light',
+}) => {
+  const { t } = useLanguage();
+  const [showMenu, setShowMenu] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const theme = THEMES[variant];
+
+  return (
+    <div className="relative flex gap-2">
+      <button
+        onClick={() => setShowMenu(show => !show)}
+        disabled={exportDisabled}
+        className={theme.button}
+      >
+        {t('transfer.export')}
+      </button>
+      {showMenu && !exportDisabled && (
+        <div className={`absolute right-0 top-full mt-1 z-20 w-48 border rounded-lg shadow-lg py-1 ${theme.menu}`}>
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => {
+                setShowMenu(false);
+                onExport(format);
+              }}
+              className={`block w-full text-left px-3 py-2 text-sm ${theme.item}`}
+            >
+              {t(label)}
+            </button>
+          ))}
+        </div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={e => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onImport(file);
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={importDisabled}
+        className={theme.button}
+      >
+        {t('transfer.import')}
+      </button>
+    </div>
+  );
+};
+
+export default ConversationTransfer;
@@ -1,15 +1,23 @@
 
 import React from 'react';
-import type { AppMode } from '../types';
+import type { AgentSummary, AppMode } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+import { useAuth } from '../hooks/useAuth';
+import AgentAvatar from './AgentAvatar';
+import LanguageSwitcher from './LanguageSwitcher';
 import { HomeIcon } from './icons';
 
 interface HeaderProps {
-  currentMode: AppMode;
+  agent: AgentSummary | null;
+  /** `null` when no mode is active (e.g. a not-found page). */
+  currentMode: AppMode | null;
   setMode: (mode: AppMode) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ currentMode, setMode }) => {
-  const modes: Exclude<AppMode, 'Welcome'>[] = ['Chat', 'Talk'];
+const Header: React.FC<HeaderProps> = ({ agent, currentMode, setMode }) => {
+  const { t } = useLanguage();
+  const { account, signOut } = useAuth();
+  const modes: Exclude<AppMode, 'Welcome'>[] = ['Chat', 'Talk', 'Transcribe'];
 
   return (
     <header className="bg-brand-surface/80 backdrop-blur-md shadow-sm sticky top-0 z-10 border-b border-brand-bg-alt">
@@ -19,18 +27,29 @@ const Header: React.FC<HeaderProps> = ({ currentMode, setMode }) => {
              <button
                 onClick={() => setMode('Welcome')}
                 className="flex items-center space-x-2 text-brand-secondary/70 hover:text-brand-primary transition-colors"
-                title="End Chat & Go Home"
+                title={t('header.endChatTitle')}
               >
                 <HomeIcon className="w-6 h-6" />
-                <span className="text-sm font-medium hidden sm:block">End Chat</span>
+                <span className="text-sm font-medium hidden sm:block">{t('header.endChat')}</span>
             </button>
           </div>
           
-          <div className="absolute left-1/2 -translate-x-1/2">
-            <h1 className="text-2xl md:text-3xl font-serif font-bold text-brand-primary text-center">Rani Bhat</h1>
+          <div className="absolute left-1/2 -translate-x-1/2 flex items-center gap-3">
+            {agent && <AgentAvatar agent={agent} className="w-10 h-10 hidden sm:flex" />}
+            <h1 className="text-2xl md:text-3xl font-serif font-bold text-brand-primary text-center">{agent?.displayName ?? ''}</h1>
           </div>
 
-          <div className="flex items-center justify-end">
+          <div className="flex items-center justify-end gap-2">
+            <LanguageSwitcher className="hidden md:flex" />
+            {account && (
+              <button
+                onClick={signOut}
+                className="hidden lg:block text-sm font-medium text-brand-secondary/70 hover:text-brand-primary transition-colors"
+                title={account.email}
+              >
+                {t('auth.signOut')}
+              </button>
+            )}
             <div className="bg-brand-bg-alt p-1 rounded-lg flex items-baseline space-x-1">
               {modes.map((mode) => (
                 <button
@@ -42,7 +61,7 @@ const Header: React.FC<HeaderProps> = ({ currentMode, setMode }) => {
                       : 'text-brand-secondary/60 hover:bg-brand-surface/50 hover:text-brand-secondary'
                   }`}
                 >
-                  {mode}
+                  {t(`mode.${mode}`)}
                 </button>
               ))}
             </div>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { HELPLINES } from '../services/safety';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface HelplineCardProps {
+  variant?: 'dark' | 'light';
+}
+
+const THEMES = {
+  dark: {
+    card: 'bg-gray-900 border-purple-500 text-gray-100',
+    muted: 'text-gray-400',
+    link: 'text-purple-300 hover:text-purple-200',
+  },
+  light: {
+    card: 'bg-brand-surface border-brand-primary text-brand-secondary',
+    muted: 'text-brand-secondary/60',
+    link: 'text-brand-primary hover:text-brand-primary-light',
+  },
+};
+
+/** Shown with a reply when the user's message suggests they may be in crisis. */
+const HelplineCard: React.FC<HelplineCardProps> = ({ variant = 'light' }) => {
+  const { t } = useLanguage();
+  const theme = THEMES[variant];
+
+  return (
+    <div role="note" className={`mt-2 p-3 rounded-lg border-l-4 text-sm ${theme.card}`}>
+      <p className="font-semibold">{t('safety.crisis.title')}</p>
+      <p className={`mt-1 ${theme.muted}`}>{t('safety.crisis.body')}</p>
+      <ul className="mt-2 space-y-1">
+        {HELPLINES.map(helpline => (
+          <li key={helpline.name}>
+            <a href={`tel:${helpline.dial}`} className={`font-semibold ${theme.link}`}>
+              {helpline.name === helpline.number ? helpline.number : `${helpline.name}: ${helpline.number}`}
+            </a>
+            <span className={`block text-xs ${theme.muted}`}>{t(helpline.description)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HelplineCard;
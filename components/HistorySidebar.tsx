@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../hooks/useLanguage';
+import type { Conversation } from '../types';
+
+interface HistorySidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (conversation: Conversation) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  variant?: 'dark' | 'light';
+}
+
+const THEMES = {
+  dark: {
+    panel: 'bg-gray-900 border-purple-800 text-gray-100',
+    item: 'hover:bg-gray-800',
+    active: 'bg-purple-900/60',
+    muted: 'text-gray-400',
+    input: 'bg-gray-800 text-white',
+    newButton: 'bg-purple-600 hover:bg-purple-700 text-white',
+  },
+  light: {
+    panel: 'bg-brand-surface border-brand-bg-alt text-brand-secondary',
+    item: 'hover:bg-brand-bg-light',
+    active: 'bg-brand-bg-alt',
+    muted: 'text-brand-secondary/50',
+    input: 'bg-brand-bg-light text-brand-secondary',
+    newButton: 'bg-brand-primary hover:bg-brand-primary-light text-white',
+  },
+};
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  variant = 'light',
+}) => {
+  const { language, t } = useLanguage();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const theme = THEMES[variant];
+
+  // Conversations without a user message yet have no title of their own
+  const titleOf = (conversation: Conversation) => conversation.title
+    || t(conversation.kind === 'voice' ? 'history.untitled.voice' : 'history.untitled.chat', {
+      date: new Date(conversation.createdAt).toLocaleString(language),
+    });
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(titleOf(conversation));
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <aside className={`w-64 flex-shrink-0 flex flex-col border-r ${theme.panel}`}>
+      <div className="p-3">
+        <button
+          onClick={onNew}
+          className={`w-full px-3 py-2 rounded-lg text-sm font-semibold transition ${theme.newButton}`}
+        >
+          {t('history.new')}
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className={`text-sm text-center mt-4 ${theme.muted}`}>{t('history.empty')}</p>
+        )}
+        {conversations.map(conversation => (
+          <div
+            key={conversation.id}
+            className={`group rounded-lg px-3 py-2 transition ${conversation.id === activeId ? theme.active : theme.item}`}
+          >
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={e => setDraftTitle(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitEditing();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className={`w-full px-2 py-1 rounded text-sm outline-none ${theme.input}`}
+              />
+            ) : (
+              <button onClick={() => onSelect(conversation)} className="w-full text-left">
+                <p className="text-sm font-medium truncate">{titleOf(conversation)}</p>
+                <p className={`text-xs ${theme.muted}`}>{new Date(conversation.updatedAt).toLocaleString(language)}</p>
+              </button>
+            )}
+            <div className="hidden group-hover:flex gap-3 mt-1 text-xs">
+              <button onClick={() => startEditing(conversation)} className={`hover:underline ${theme.muted}`}>
+                {t('history.rename')}
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(t('history.confirmDelete', { title: titleOf(conversation) }))) onDelete(conversation.id);
+                }}
+                className="text-red-400 hover:underline"
+              >
+                {t('history.delete')}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { LANGUAGES } from '../services/i18n';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/** Toggles the UI (and live call) language; each option is labelled in its own language. */
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <div role="group" aria-label={t('language.label')} className={`bg-brand-bg-alt p-1 rounded-lg flex space-x-1 ${className}`}>
+      {LANGUAGES.map(option => (
+        <button
+          key={option.code}
+          lang={option.code}
+          onClick={() => setLanguage(option.code)}
+          aria-pressed={language === option.code}
+          className={`px-3 py-1 rounded-md text-sm font-bold transition-all duration-300 ${
+            language === option.code
+              ? 'bg-brand-surface text-brand-primary shadow-sm'
+              : 'text-brand-secondary/60 hover:bg-brand-surface/50 hover:text-brand-secondary'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
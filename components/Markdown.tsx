@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { parseMarkdown } from '../services/markdown';
+import type { BlockNode, InlineNode } from '../services/markdown';
+import { CopyIcon } from './icons';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface MarkdownProps {
+  text: string;
+  variant?: 'dark' | 'light';
+}
+
+const THEMES = {
+  dark: {
+    inlineCode: 'bg-gray-900 text-pink-300',
+    codeBlock: 'bg-gray-900 text-gray-100 border-gray-700',
+    codeHeader: 'text-gray-400 border-gray-700',
+    link: 'text-blue-400',
+    quote: 'border-gray-600 text-gray-300',
+  },
+  light: {
+    inlineCode: 'bg-brand-surface text-brand-primary',
+    codeBlock: 'bg-brand-secondary text-white border-brand-secondary',
+    codeHeader: 'text-white/60 border-white/10',
+    link: 'text-brand-primary',
+    quote: 'border-brand-primary/40 text-brand-secondary/80',
+  },
+};
+
+type Theme = typeof THEMES.dark;
+
+const HEADING_SIZES = ['text-xl', 'text-lg', 'text-base', 'text-base', 'text-sm', 'text-sm'];
+
+const CodeBlock: React.FC<{ lang: string; text: string; theme: Theme }> = ({ lang, text, theme }) => {
+  const { t } = useLanguage();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
+  return (
+    <div className={`my-2 rounded-lg border overflow-hidden ${theme.codeBlock}`}>
+      <div className={`flex items-center justify-between px-3 py-1 text-xs border-b ${theme.codeHeader}`}>
+        <span>{lang || t('markdown.code')}</span>
+        <button onClick={handleCopy} className="flex items-center gap-1 hover:opacity-80" title={t('markdown.copyCode')}>
+          <CopyIcon className="w-3.5 h-3.5" />
+          {copied ? t('markdown.copied') : t('markdown.copy')}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-sm"><code>{text}</code></pre>
+    </div>
+  );
+};
+
+function renderInline(nodes: InlineNode[], theme: Theme): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={i} />;
+      case 'code':
+        return <code key={i} className={`px-1 rounded text-sm font-mono ${theme.inlineCode}`}>{node.text}</code>;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children, theme)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children, theme)}</em>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className={`underline break-words ${theme.link}`}>
+            {renderInline(node.children, theme)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[], theme: Theme): React.ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={i}>{renderInline(block.children, theme)}</p>;
+      case 'heading':
+        return <p key={i} className={`font-bold ${HEADING_SIZES[block.level - 1]}`}>{renderInline(block.children, theme)}</p>;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j}>{renderInline(item, theme)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+          : <ul key={i} className="list-disc pl-5 space-y-1">{items}</ul>;
+      }
+      case 'code':
+        return <CodeBlock key={i} lang={block.lang} text={block.text} theme={theme} />;
+      case 'blockquote':
+        return <blockquote key={i} className={`border-l-2 pl-3 ${theme.quote}`}>{renderBlocks(block.children, theme)}</blockquote>;
+    }
+  });
+}
+
+/**
+ * Renders Markdown from model output. Everything becomes React elements, so
+ * any HTML in the text is escaped rather than interpreted.
+ */
+const Markdown: React.FC<MarkdownProps> = ({ text, variant = 'dark' }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="space-y-2 break-words">{renderBlocks(blocks, THEMES[variant])}</div>;
+};
+
+export default Markdown;
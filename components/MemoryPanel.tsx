@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import type { Memory } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface MemoryPanelProps {
+  displayName: string;
+  memories: Memory[];
+  onUpdate: (id: string, text: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+  variant?: 'dark' | 'light';
+}
+
+/** Matches the backend's limit on a single memory. */
+const MAX_MEMORY_LENGTH = 300;
+
+const THEMES = {
+  dark: {
+    panel: 'bg-gray-900 border-purple-800 text-gray-100',
+    item: 'bg-gray-800/60',
+    muted: 'text-gray-400',
+    input: 'bg-gray-800 text-white',
+  },
+  light: {
+    panel: 'bg-brand-surface border-brand-bg-alt text-brand-secondary',
+    item: 'bg-brand-bg-light',
+    muted: 'text-brand-secondary/50',
+    input: 'bg-brand-bg-light text-brand-secondary',
+  },
+};
+
+/** Lets the user see, correct and delete what an agent remembers about them. */
+const MemoryPanel: React.FC<MemoryPanelProps> = ({
+  displayName,
+  memories,
+  onUpdate,
+  onDelete,
+  onClose,
+  variant = 'light',
+}) => {
+  const { t } = useLanguage();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const theme = THEMES[variant];
+
+  const run = (action: Promise<void>) => {
+    setError(null);
+    action.catch(err => setError(t('memory.error', { error: err instanceof Error ? err.message : String(err) })));
+  };
+
+  const startEditing = (memory: Memory) => {
+    setEditingId(memory.id);
+    setDraftText(memory.text);
+  };
+
+  const commitEditing = () => {
+    const memory = memories.find(candidate => candidate.id === editingId);
+    const text = draftText.trim();
+    if (memory && text && text !== memory.text) run(onUpdate(memory.id, text));
+    setEditingId(null);
+  };
+
+  return (
+    <aside className={`w-72 flex-shrink-0 flex flex-col border-l ${theme.panel}`}>
+      <div className="p-3 flex items-start justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-semibold">{t('memory.title', { name: displayName })}</h2>
+          <p className={`text-xs mt-1 ${theme.muted}`}>{t('memory.hint', { name: displayName })}</p>
+        </div>
+        <button onClick={onClose} aria-label={t('memory.close')} className={`text-lg leading-none ${theme.muted}`}>
+          ×
+        </button>
+      </div>
+      {error && <p className="px-3 pb-2 text-xs text-red-400">{error}</p>}
+      <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+        {memories.length === 0 && (
+          <p className={`text-sm text-center mt-4 px-2 ${theme.muted}`}>{t('memory.empty', { name: displayName })}</p>
+        )}
+        {memories.map(memory => (
+          <div key={memory.id} className={`group rounded-lg px-3 py-2 ${theme.item}`}>
+            {editingId === memory.id ? (
+              <textarea
+                autoFocus
+                rows={3}
+                maxLength={MAX_MEMORY_LENGTH}
+                value={draftText}
+                onChange={e => setDraftText(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    commitEditing();
+                  }
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className={`w-full px-2 py-1 rounded text-sm outline-none resize-none ${theme.input}`}
+              />
+            ) : (
+              <p className="text-sm">{memory.text}</p>
+            )}
+            <div className="hidden group-hover:flex gap-3 mt-1 text-xs">
+              <button onClick={() => startEditing(memory)} className={`hover:underline ${theme.muted}`}>
+                {t('memory.edit')}
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(t('memory.confirmDelete', { text: memory.text }))) run(onDelete(memory.id));
+                }}
+                className="text-red-400 hover:underline"
+              >
+                {t('memory.delete')}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default MemoryPanel;
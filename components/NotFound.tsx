@@ -0,0 +1,23 @@
+import React from 'react';
+
+interface NotFoundProps {
+  title: string;
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+}
+
+const NotFound: React.FC<NotFoundProps> = ({ title, message, actionLabel, onAction }) => (
+  <div className="flex flex-col items-center justify-center h-full text-center p-4">
+    <h1 className="text-4xl md:text-5xl font-serif font-bold text-brand-primary mb-4">{title}</h1>
+    <p className="text-lg text-brand-secondary/70 mb-8 max-w-md">{message}</p>
+    <button
+      onClick={onAction}
+      className="bg-brand-primary text-white font-bold py-3 px-6 rounded-lg shadow-lg hover:bg-brand-primary-light transition-all duration-300"
+    >
+      {actionLabel}
+    </button>
+  </div>
+);
+
+export default NotFound;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { AgentSummary } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { useLanguage } from '../hooks/useLanguage';
+import type { MessageKey } from '../services/i18n';
+import { ApiError, AuthError, describeError } from '../services/apiErrors';
+import AgentAvatar from './AgentAvatar';
+
+interface SignInScreenProps {
+  agent: AgentSummary | null;
+}
+
+/** Matches the backend's minimum. */
+const MIN_PASSWORD_LENGTH = 8;
+
+const END_REASON_TEXT: Record<'expired' | 'forbidden', MessageKey> = {
+  expired: 'auth.expired',
+  forbidden: 'auth.forbidden',
+};
+
+/** Shown in place of Chat, Talk and Transcribe until the user signs in or creates an account. */
+const SignInScreen: React.FC<SignInScreenProps> = ({ agent }) => {
+  const { t } = useLanguage();
+  const auth = useAuth();
+  const [creating, setCreating] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      if (creating) await auth.signUp({ email, password, displayName: displayName.trim() || undefined });
+      else await auth.signIn(email, password);
+    } catch (err) {
+      if (err instanceof AuthError && err.status === 401) setError(t('auth.wrongCredentials'));
+      else if (err instanceof AuthError) setError(t('auth.forbidden'));
+      else if (err instanceof ApiError && err.status === 409) setError(t('auth.emailTaken'));
+      else setError(t(...describeError(err)));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const notice = auth.endReason && auth.endReason !== 'signedOut' ? t(END_REASON_TEXT[auth.endReason]) : null;
+  const inputClass = 'w-full px-4 py-2 rounded-lg bg-brand-bg-light text-brand-secondary outline-none focus:ring-2 focus:ring-brand-primary';
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full text-center p-4">
+      {agent && <AgentAvatar agent={agent} className="w-20 h-20 mb-4 text-2xl" />}
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-brand-surface rounded-lg shadow-lg border border-brand-bg-alt p-6 space-y-3 text-left"
+      >
+        <h2 className="text-2xl font-serif font-bold text-brand-primary text-center">
+          {creating ? t('auth.signUp.title') : t('auth.signIn.title')}
+        </h2>
+        <p className="text-brand-secondary/70 text-center">
+          {agent ? t('auth.hint', { name: agent.displayName }) : t('auth.hintGeneric')}
+        </p>
+        {notice && <p className="text-sm text-brand-primary text-center">{notice}</p>}
+        {creating && (
+          <input
+            type="text"
+            autoComplete="name"
+            placeholder={t('auth.displayName')}
+            value={displayName}
+            onChange={e => setDisplayName(e.target.value)}
+            className={inputClass}
+          />
+        )}
+        <input
+          type="email"
+          required
+          autoComplete="email"
+          placeholder={t('auth.email')}
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="password"
+          required
+          minLength={MIN_PASSWORD_LENGTH}
+          autoComplete={creating ? 'new-password' : 'current-password'}
+          placeholder={creating ? t('auth.newPassword', { count: MIN_PASSWORD_LENGTH }) : t('auth.password')}
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          className={inputClass}
+        />
+        {error && <p role="alert" className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-brand-primary text-white font-bold py-3 px-6 rounded-lg shadow hover:bg-brand-primary-light transition-all duration-300 disabled:opacity-50"
+        >
+          {creating ? t('auth.signUp') : t('auth.signIn')}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setCreating(value => !value);
+            setError(null);
+          }}
+          className="w-full text-sm text-brand-secondary/70 hover:text-brand-primary transition-colors"
+        >
+          {creating ? t('auth.toSignIn') : t('auth.toSignUp')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SignInScreen;
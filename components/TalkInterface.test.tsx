@@ -0,0 +1,203 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, screen, waitFor } from '@testing-library/react';
+import TalkInterface from './TalkInterface';
+import { ApiError, RateLimitError } from '../services/apiErrors';
+import { translate } from '../services/i18n';
+import { createFakeBackend } from '../test/fakeBackend';
+import type { FakeBackend } from '../test/fakeBackend';
+import { fakeLive } from '../test/fakeLiveSession';
+import { installFakeMedia, speechFrame } from '../test/fakeMedia';
+import type { FakeMedia } from '../test/fakeMedia';
+import { storedConversations } from '../test/memoryConversationStore';
+import { agentDirectory, renderScreen } from '../test/render';
+import * as fixtures from '../test/fixtures/backend';
+import { RESUMPTION_HANDLE, goAway, interruptedAnswer, questionAndAnswer, sessionStart } from '../test/fixtures/liveMessages';
+
+vi.mock('../services/conversationStore', async importOriginal => {
+  const { memoryConversationStore } = await import('../test/memoryConversationStore');
+  return memoryConversationStore(importOriginal);
+});
+
+vi.mock('../services/geminiService', async importOriginal => {
+  const { fakeLive } = await import('../test/fakeLiveSession');
+  return { ...await importOriginal<object>(), startLiveConversation: fakeLive.startLiveConversation };
+});
+
+describe('TalkInterface', () => {
+  let backend: FakeBackend;
+  let media: FakeMedia;
+
+  beforeEach(() => {
+    backend = createFakeBackend();
+    vi.stubGlobal('fetch', backend.fetch);
+    media = installFakeMedia();
+    localStorage.setItem('language', 'en');
+    // No jitter: reconnects happen on the next tick.
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    cleanup();
+    fakeLive.reset();
+    storedConversations.clear();
+    localStorage.clear();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const startCall = async () => {
+    renderScreen(<TalkInterface agents={agentDirectory()} onConversationChange={() => {}} />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Start call' }));
+    await screen.findByText('Connection open. You can start talking.');
+    return fakeLive.latest();
+  };
+
+  const bubble = (text: string) => screen.getAllByText(text).find(element => !element.closest('aside, span'));
+
+  it('plays the agent\'s audio and shows each finished turn', async () => {
+    renderScreen(<TalkInterface agents={agentDirectory()} onConversationChange={() => {}} />);
+    expect(await screen.findByText('50 min of calls left today')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Start call' }));
+    await screen.findByText('Connection open. You can start talking.');
+    const session = fakeLive.latest();
+
+    await session.replay([...sessionStart, ...questionAndAnswer]);
+
+    expect(media.sources.filter(source => source.startedAt !== undefined)).toHaveLength(3);
+    expect(bubble('How was your day?')).toBeTruthy();
+    expect(bubble('It was lovely, thanks for asking!')).toBeTruthy();
+    await waitFor(() => expect([...storedConversations.values()][0]?.messages).toHaveLength(2));
+  });
+
+  it('streams the microphone to the model', async () => {
+    const session = await startCall();
+
+    await media.speak(speechFrame());
+
+    expect(session.realtimeInput).toHaveLength(1);
+    expect(session.realtimeInput[0].media).toMatchObject({ mimeType: 'audio/pcm;rate=16000' });
+  });
+
+  it('cuts the agent off when the user talks over it', async () => {
+    const session = await startCall();
+
+    await session.replay(interruptedAnswer);
+
+    expect(media.sources.filter(source => source.startedAt !== undefined)).toHaveLength(2);
+    expect(media.playing()).toHaveLength(0);
+    expect(bubble('Once upon a time, in a')).toBeTruthy();
+    expect(screen.getByText('Interrupted')).toBeTruthy();
+  });
+
+  it('resumes the same conversation after the socket drops', async () => {
+    const session = await startCall();
+    await session.replay(sessionStart);
+
+    await session.drop();
+
+    await waitFor(() => expect(fakeLive.sessions).toHaveLength(2));
+    expect(fakeLive.latest().options.resumptionHandle).toBe(RESUMPTION_HANDLE);
+    await screen.findByText('Connection open. You can start talking.');
+    // A resumed session already knows the conversation.
+    expect(fakeLive.latest().clientContent).toHaveLength(0);
+  });
+
+  it('moves to a new socket when the server is about to recycle this one', async () => {
+    const session = await startCall();
+    await session.replay([...sessionStart, ...goAway]);
+
+    await waitFor(() => expect(fakeLive.sessions).toHaveLength(2));
+    expect(session.closed).toBe(true);
+    expect(fakeLive.latest().options.resumptionHandle).toBe(RESUMPTION_HANDLE);
+  });
+
+  it('hands the metered session over to the reconnected socket', async () => {
+    fakeLive.allowance = { sessionId: 'live-1', endsAt: new Date(Date.now() + 60_000).toISOString(), limitedByQuota: false, resetsAt: fixtures.usage.resetsAt };
+    const session = await startCall();
+    expect(session.options.replacesSessionId).toBeUndefined();
+    await session.replay(sessionStart);
+
+    await session.drop();
+
+    await waitFor(() => expect(fakeLive.sessions).toHaveLength(2));
+    expect(fakeLive.latest().options.replacesSessionId).toBe('live-1');
+  });
+
+  it('ends the metered session when the page is closed mid-call', async () => {
+    fakeLive.allowance = { sessionId: 'live-1', endsAt: new Date(Date.now() + 60_000).toISOString(), limitedByQuota: false, resetsAt: fixtures.usage.resetsAt };
+    const session = await startCall();
+    await session.replay(sessionStart);
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    await waitFor(() => expect(backend.requestsTo('/live/end')).toHaveLength(1));
+    expect(backend.requestsTo('/live/end')[0]).toMatchObject({ body: { sessionId: 'live-1' }, keepalive: true });
+  });
+
+  it('hands a new call the transcript so far', async () => {
+    const first = await startCall();
+    await first.replay(questionAndAnswer);
+    fireEvent.click(screen.getByRole('button', { name: 'End call' }));
+    await screen.findByText('Conversation ended. Click to start again.');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start call' }));
+    await waitFor(() => expect(fakeLive.sessions).toHaveLength(2));
+    await waitFor(() => expect(fakeLive.latest().clientContent).toHaveLength(1));
+    expect(fakeLive.latest().clientContent[0].turns).toEqual([
+      { role: 'user', parts: [{ text: 'How was your day?' }] },
+      { role: 'model', parts: [{ text: 'It was lovely, thanks for asking!' }] },
+    ]);
+  });
+
+  it('reports a call that never connected', async () => {
+    fakeLive.rejectNext(new ApiError('Failed to obtain a live session token', 502));
+    renderScreen(<TalkInterface agents={agentDirectory()} onConversationChange={() => {}} />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Start call' }));
+
+    await screen.findByText('Failed to obtain a live session token');
+    expect(media.tracks[0].stopped).toBe(true);
+  });
+
+  it('explains when the microphone is blocked', async () => {
+    media.denyMicrophone();
+    renderScreen(<TalkInterface agents={agentDirectory()} onConversationChange={() => {}} />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Start call' }));
+
+    await screen.findByText('Microphone permission denied.');
+    expect(fakeLive.sessions).toHaveLength(0);
+  });
+
+  it('reports errors in the chosen language', async () => {
+    localStorage.setItem('language', 'hi');
+    media.denyMicrophone();
+    renderScreen(<TalkInterface agents={agentDirectory()} onConversationChange={() => {}} />);
+    fireEvent.click(await screen.findByRole('button', { name: translate('hi', 'talk.startCall') }));
+
+    await screen.findByText(translate('hi', 'live.error.microphoneDenied'));
+  });
+
+  it('shows the limit when the day\'s call time is already used up', async () => {
+    fakeLive.rejectNext(new RateLimitError(fixtures.liveQuotaReached.error, 3_600_000, fixtures.liveQuotaReached));
+    renderScreen(<TalkInterface agents={agentDirectory()} onConversationChange={() => {}} />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Start call' }));
+
+    await screen.findByText(/You've used today's call time/);
+    expect(screen.queryByText(/Too many requests/)).toBeNull();
+    expect((screen.getByRole('button', { name: 'Start call' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('hangs up when the allowance runs out mid-call and stops the meter', async () => {
+    fakeLive.allowance = {
+      sessionId: 'live-1',
+      endsAt: new Date(Date.now() + 100).toISOString(),
+      limitedByQuota: true,
+      resetsAt: fixtures.usage.resetsAt,
+    };
+    const session = await startCall();
+
+    await screen.findByText(/You've used today's call time/);
+    expect(session.closed).toBe(true);
+    await waitFor(() => expect(backend.requestsTo('/live/end')[0]?.body).toEqual({ sessionId: 'live-1' }));
+  });
+});
@@ -1,227 +1,393 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { startLiveConversation } from '../services/geminiService';
-import type { LiveServerMessage, Blob as GeminiBlob } from '@google/genai';
-import { MicIcon, StopIcon } from './icons';
-
-// Audio utility functions
-function encode(bytes: Uint8Array) {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-        binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-}
-
-function createBlob(data: Float32Array): GeminiBlob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-        int16[i] = data[i] * 32768;
-    }
-    return {
-        data: encode(new Uint8Array(int16.buffer)),
-        mimeType: 'audio/pcm;rate=16000',
-    };
-}
+import React, { useState, useRef, useEffect } from 'react';
+import { getAgentConfig, getLiveConfig } from '../services/geminiService';
+import { createConversation, getConversation, listConversations, saveConversation } from '../services/conversationStore';
+import { cuesToJson, cuesToWebVtt, encodeWav } from '../services/callRecorder';
+import { downloadBlob, timestampedFilename } from '../services/download';
+import { EXPORT_EXTENSIONS, EXPORT_MIME_TYPES, ImportError, exportConversation, parseConversationExport } from '../services/conversationExport';
+import type { ExportFormat } from '../services/conversationExport';
+import { describeError } from '../services/apiErrors';
+import { applyIntervention } from '../services/safety';
+import { isUsageBlocked } from '../services/usage';
+import type { MessageKey } from '../services/i18n';
+import { useConversationHistory } from '../hooks/useConversationHistory';
+import { useMemories } from '../hooks/useMemories';
+import { useUsage } from '../hooks/useUsage';
+import { useLiveSession } from '../hooks/useLiveSession';
+import { useLanguage } from '../hooks/useLanguage';
+import type { LiveSessionStatus } from '../hooks/useLiveSession';
+import type { AgentDirectory } from '../hooks/useAgents';
+import type { AgentConfig, Conversation, Message } from '../types';
+import HistorySidebar from './HistorySidebar';
+import MemoryPanel from './MemoryPanel';
+import AgentPicker from './AgentPicker';
+import AgentAvatar from './AgentAvatar';
+import AttachmentThumbnails from './AttachmentThumbnails';
+import ConversationTransfer from './ConversationTransfer';
+import Markdown from './Markdown';
+import HelplineCard from './HelplineCard';
+import UsageStatus from './UsageStatus';
+import { CameraIcon, CameraOffIcon, DownloadIcon, MicIcon, StopIcon } from './icons';
 
-async function decodeAudioData(data: Uint8Array, ctx: AudioContext): Promise<AudioBuffer> {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length;
-    const buffer = ctx.createBuffer(1, frameCount, 24000);
-    const channelData = buffer.getChannelData(0);
-    for (let i = 0; i < frameCount; i++) {
-        channelData[i] = dataInt16[i] / 32768.0;
-    }
-    return buffer;
-}
+const STATUS_TEXT: Record<LiveSessionStatus, MessageKey> = {
+    idle: 'talk.status.idle',
+    connecting: 'talk.status.connecting',
+    open: 'talk.status.open',
+    reconnecting: 'talk.status.reconnecting',
+    ended: 'talk.status.ended',
+};
 
-function decode(base64: string): Uint8Array {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
+interface TalkInterfaceProps {
+    agents: AgentDirectory;
+    /** The transcript named in the URL, opened in place of the latest one. */
+    conversationId?: string;
+    /** Called when the open, saved transcript changes (`undefined` for a new, empty one). */
+    onConversationChange: (agentName: string, conversationId?: string) => void;
 }
 
-interface LiveMessage {
-    id: string;
-    text: string;
-    sender: 'user' | 'bot';
+/** The stored voice transcript with `id`, if it belongs to `agentName`. */
+async function findVoiceConversation(agentName: string, id: string): Promise<Conversation | undefined> {
+    const found = await getConversation(id);
+    return found?.agentName === agentName && found.kind === 'voice' ? found : undefined;
 }
 
-const TalkInterface: React.FC = () => {
-    const [isLive, setIsLive] = useState(false);
-    const [liveStatus, setLiveStatus] = useState('Click the button to start talking');
-    const [transcriptions, setTranscriptions] = useState<LiveMessage[]>([]);
-
-    const sessionPromiseRef = useRef<Promise<any> | null>(null);
-    const streamRef = useRef<MediaStream | null>(null);
-    const inputAudioContextRef = useRef<AudioContext | null>(null);
-    const outputAudioContextRef = useRef<AudioContext | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-    const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-    const nextStartTimeRef = useRef(0);
-    const sourcesRef = useRef(new Set<AudioBufferSourceNode>());
-    const isLiveRef = useRef(isLive);
+const TalkInterface: React.FC<TalkInterfaceProps> = ({ agents, conversationId, onConversationChange }) => {
+    const { language, t } = useLanguage();
+    const agentName = agents.selected?.name ?? null;
+    const [agentConfig, setAgentConfig] = useState<AgentConfig | null>(null);
+    const [voiceName, setVoiceName] = useState<string | null>(null);
+    const [picking, setPicking] = useState(false);
+    const [transcriptions, setTranscriptions] = useState<Message[]>([]);
+    const [conversation, setConversation] = useState<Conversation | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showMemories, setShowMemories] = useState(false);
+    const [recordCalls, setRecordCalls] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const savedTranscriptionsRef = useRef<Message[]>([]);
+    // Read by the agent loader without making the URL a dependency of it.
+    const conversationIdRef = useRef(conversationId);
+    conversationIdRef.current = conversationId;
+    const history = useConversationHistory(agentName, 'voice');
+    const memories = useMemories(showMemories ? agentName : null);
+    const usage = useUsage();
+    const live = useLiveSession(agentName, {
+        onTurn: turn => setTranscriptions(prev => [...prev, ...turn]),
+        getContext: () => transcriptions,
+        record: recordCalls,
+        language,
+        onIntervention: (messageId, intervention) => {
+            setTranscriptions(prev => prev.map(msg => (msg.id === messageId ? applyIntervention(msg, intervention) : msg)));
+        },
+        conversationId: conversation?.id,
+    });
+    const isLive = live.isLive;
+    const callBlocked = !isLive && isUsageBlocked('live', usage.usage, live.limit);
     const chatEndRef = useRef<HTMLDivElement>(null);
+    const cameraPreviewRef = useRef<HTMLVideoElement>(null);
 
     useEffect(() => {
-        isLiveRef.current = isLive;
-    }, [isLive]);
+        if (cameraPreviewRef.current) cameraPreviewRef.current.srcObject = live.camera;
+    }, [live.camera]);
 
     useEffect(() => {
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [transcriptions]);
 
-    const handleStopLive = useCallback(() => {
-        if (!isLiveRef.current) return;
-        setIsLive(false);
-        setLiveStatus('Conversation ended. Click to start again.');
+    // Show the call time left once a call has ended
+    useEffect(() => {
+        if (live.status === 'ended') usage.refresh();
+    }, [live.status, usage.refresh]);
+
+    const openConversation = (next: Conversation) => {
+        savedTranscriptionsRef.current = next.messages;
+        setConversation(next);
+        setTranscriptions(next.messages);
+    };
+
+    // Fetch the agent's profile and voice, and open the linked transcript or resume the most recent one
+    useEffect(() => {
+        if (!agentName) return;
+        let cancelled = false;
+        setAgentConfig(null);
+        setVoiceName(null);
+
+        Promise.all([getAgentConfig(agentName), getLiveConfig(agentName)])
+            .then(([config, liveConfig]) => {
+                if (cancelled) return;
+                setAgentConfig(config);
+                setVoiceName(liveConfig.voiceName ?? null);
+            })
+            .catch(error => console.error('Error loading agent config:', error));
+
+        const linkedId = conversationIdRef.current;
+        const linked = linkedId ? findVoiceConversation(agentName, linkedId).catch(() => undefined) : Promise.resolve(undefined);
+        linked
+            .then(found => (found ? [found] : listConversations(agentName, 'voice')))
+            .then(([latest]) => { if (!cancelled) openConversation(latest ?? createConversation(agentName, 'voice')); })
+            .catch(error => {
+                console.error('Error loading saved transcripts:', error);
+                if (!cancelled) openConversation(createConversation(agentName, 'voice'));
+            });
+
+        return () => { cancelled = true; };
+    }, [agentName]);
+
+    // Follow the URL to another saved transcript (links, back and forward), but never mid-call
+    useEffect(() => {
+        if (isLive || !agentName || !conversationId || conversationId === conversation?.id) return;
+        let cancelled = false;
+        findVoiceConversation(agentName, conversationId)
+            .then(found => { if (!cancelled && found) openConversation(found); })
+            .catch(error => console.error('Error loading transcript:', error));
+        return () => { cancelled = true; };
+    }, [conversationId]);
+
+    // Report the open transcript once it has been saved, so the URL can link to it
+    const persistedId = conversation?.messages.length ? conversation.id : undefined;
+    useEffect(() => {
+        if (conversation) onConversationChange(conversation.agentName, persistedId);
+    }, [conversation?.agentName, persistedId]);
+
+    // Persist each completed turn
+    useEffect(() => {
+        if (!conversation || transcriptions.length === 0 || transcriptions === savedTranscriptionsRef.current) return;
+        savedTranscriptionsRef.current = transcriptions;
+        saveConversation(conversation, transcriptions)
+            .then(saved => {
+                setConversation(current => (current?.id === saved.id ? saved : current));
+                history.refresh();
+            })
+            .catch(error => console.error('Error saving transcript:', error));
+    }, [transcriptions, conversation, history.refresh]);
+
+    const handleRenameConversation = async (id: string, title: string) => {
+        await history.rename(id, title);
+        setConversation(current => (current?.id === id ? { ...current, title } : current));
+    };
 
-        sessionPromiseRef.current?.then(session => session.close()).catch(e => console.error("Error closing:", e));
-        streamRef.current?.getTracks().forEach(track => track.stop());
-        
-        scriptProcessorRef.current?.disconnect();
-        mediaStreamSourceRef.current?.disconnect();
+    const handleDeleteConversation = async (id: string) => {
+        await history.remove(id);
+        if (conversation?.id === id && agentName) openConversation(createConversation(agentName, 'voice'));
+    };
 
-        inputAudioContextRef.current?.close().catch(() => {});
-        outputAudioContextRef.current?.close().catch(() => {});
+    if (!agents.selected || picking) {
+        return (
+            <div className="flex flex-col items-center justify-center h-[80vh] bg-brand-surface rounded-lg shadow-2xl border border-brand-bg-alt p-6">
+                {agents.loading ? (
+                    <p className="text-lg text-brand-secondary/60">{t('common.loadingAgents')}</p>
+                ) : agents.error ? (
+                    <div className="text-center max-w-md">
+                        <p className="mb-4 text-red-600">{t('common.loadAgentsFailed', { error: t(...agents.error) })}</p>
+                        <button
+                            onClick={() => agents.reload()}
+                            className="px-4 py-2 bg-brand-primary text-white rounded-lg hover:bg-brand-primary-light"
+                        >
+                            {t('common.retry')}
+                        </button>
+                    </div>
+                ) : (
+                    <AgentPicker
+                        agents={agents.agents}
+                        selectedName={agentName}
+                        onSelect={agent => {
+                            agents.select(agent);
+                            setPicking(false);
+                        }}
+                    />
+                )}
+            </div>
+        );
+    }
 
-        sessionPromiseRef.current = null;
-        streamRef.current = null;
-        scriptProcessorRef.current = null;
-        mediaStreamSourceRef.current = null;
-    }, []);
+    const profile = agentConfig ?? agents.selected;
 
-    const handleStartLive = async () => {
-        if (isLive) return;
-        setTranscriptions([]);
+    const handleExport = (format: ExportFormat) => {
+        if (!conversation) return;
+        const content = exportConversation({ ...conversation, messages: transcriptions }, format, profile.displayName, t);
+        downloadBlob(
+            new Blob([content], { type: EXPORT_MIME_TYPES[format] }),
+            timestampedFilename(`call-${profile.name}`, EXPORT_EXTENSIONS[format])
+        );
+    };
 
+    // Restores an exported transcript as a new conversation with the agent it was held with
+    const handleImport = async (file: File) => {
+        setImportError(null);
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            streamRef.current = stream;
-            setIsLive(true);
-            setLiveStatus('Connecting...');
-
-            inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            
-            let currentUserTranscription = '';
-            let currentBotTranscription = '';
-
-            const callbacks = {
-                onopen: () => {
-                    setLiveStatus("Connection open. You can start talking.");
-                    if (!inputAudioContextRef.current || !streamRef.current) return;
-
-                    const source = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-                    mediaStreamSourceRef.current = source;
-                    
-                    const scriptProcessor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-                    scriptProcessorRef.current = scriptProcessor;
-
-                    scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                        if (!isLiveRef.current) return;
-                        const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                        sessionPromiseRef.current?.then((session) => {
-                            session.sendRealtimeInput({ media: createBlob(inputData) });
-                        });
-                    };
-                    
-                    source.connect(scriptProcessor);
-                    scriptProcessor.connect(inputAudioContextRef.current.destination);
-                },
-                onmessage: async (message: LiveServerMessage) => {
-                    try {
-                        const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                        if (base64Audio && outputAudioContextRef.current?.state === 'running') {
-                            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
-                            const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContextRef.current);
-                            const sourceNode = outputAudioContextRef.current.createBufferSource();
-                            sourceNode.buffer = audioBuffer;
-                            sourceNode.connect(outputAudioContextRef.current.destination);
-                            sourceNode.addEventListener('ended', () => sourcesRef.current.delete(sourceNode));
-                            sourceNode.start(nextStartTimeRef.current);
-                            nextStartTimeRef.current += audioBuffer.duration;
-                            sourcesRef.current.add(sourceNode);
-                        }
-
-                        if (message.serverContent?.inputTranscription) {
-                            currentUserTranscription += message.serverContent.inputTranscription.text;
-                        }
-                        if (message.serverContent?.outputTranscription) {
-                            currentBotTranscription += message.serverContent.outputTranscription.text;
-                        }
-
-                        if (message.serverContent?.turnComplete) {
-                            setTranscriptions(prev => {
-                                const newMessages = [...prev];
-                                if (currentUserTranscription.trim()) newMessages.push({ id: `live-user-${Date.now()}`, text: currentUserTranscription.trim(), sender: 'user' });
-                                if (currentBotTranscription.trim()) newMessages.push({ id: `live-bot-${Date.now()}`, text: currentBotTranscription.trim(), sender: 'bot' });
-                                return newMessages;
-                            });
-                            currentUserTranscription = '';
-                            currentBotTranscription = '';
-                        }
-                    } catch (error) {
-                        console.error("Error processing message:", error);
-                        setLiveStatus("An error occurred.");
-                        handleStopLive();
-                    }
-                },
-                onerror: (e: ErrorEvent) => {
-                    console.error('Error:', e);
-                    setLiveStatus('An error occurred. Please try again.');
-                    handleStopLive();
-                },
-                onclose: () => {
-                    handleStopLive();
-                },
-            };
-            
-            // ✅ CLEAN: Just call with agent name, server handles everything
-            sessionPromiseRef.current = startLiveConversation('rani-bhat', callbacks);
+            const imported = parseConversationExport(await file.text());
+            if (imported.kind !== 'voice') {
+                throw new ImportError(['talk.importChat']);
+            }
+            const agent = agents.agents.find(candidate => candidate.name === imported.agentName);
+            if (!agent) throw new ImportError(['common.agentUnavailable', { name: imported.agentName }]);
+
+            const saved = await saveConversation(imported, imported.messages);
+            if (agent.name === agentName) {
+                openConversation(saved);
+                history.refresh();
+            } else {
+                // Switching agents resumes its most recent transcript, which is now the import.
+                agents.select(agent);
+            }
         } catch (error) {
-            console.error('Microphone error:', error);
-            setLiveStatus('Microphone permission denied.');
-            setIsLive(false);
+            setImportError(error instanceof ImportError ? t(...error.reason) : t('common.importFailed', { error: t(...describeError(error)) }));
+            console.error('Error importing conversation:', error);
         }
     };
 
-    useEffect(() => {
-        return () => { handleStopLive(); };
-    }, [handleStopLive]);
+    const downloadRecording = (format: 'wav' | 'vtt' | 'json') => {
+        const recording = live.recording;
+        if (!recording) return;
+        const names = { user: t('recording.you'), bot: profile.displayName };
+        const name = timestampedFilename(`call-${profile.name}`, format);
+        if (format === 'wav') {
+            downloadBlob(new Blob([encodeWav(recording.mix(), recording.sampleRate)], { type: 'audio/wav' }), name);
+        } else if (format === 'vtt') {
+            downloadBlob(new Blob([cuesToWebVtt(recording.cues, names)], { type: 'text/vtt;charset=utf-8' }), name);
+        } else {
+            downloadBlob(new Blob([cuesToJson(recording.cues, names)], { type: 'application/json' }), name);
+        }
+    };
 
     return (
-        <div className="flex flex-col h-[80vh] bg-brand-surface rounded-lg shadow-2xl overflow-hidden border border-brand-bg-alt">
-            <div className="flex-grow p-6 overflow-y-auto space-y-4 bg-brand-bg-light">
-                {transcriptions.length === 0 && !isLive && (
-                     <div className="flex flex-col items-center justify-center h-full text-center text-brand-secondary/60">
-                        <MicIcon className="w-16 h-16 mb-4"/>
-                        <p className="text-lg">Your conversation will appear here.</p>
-                     </div>
-                )}
-                {transcriptions.map((msg) => (
-                    <div key={msg.id} className={`flex items-end gap-3 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className={`w-fit max-w-lg p-3 px-4 rounded-2xl shadow-sm ${msg.sender === 'user' ? 'bg-brand-primary text-white rounded-br-none' : 'bg-brand-bg-alt text-brand-secondary rounded-bl-none'}`}>
-                            <p className="whitespace-pre-wrap">{msg.text}</p>
+        <div className="flex h-[80vh] bg-brand-surface rounded-lg shadow-2xl overflow-hidden border border-brand-bg-alt">
+            {showHistory && (
+                <HistorySidebar
+                    conversations={history.conversations}
+                    activeId={conversation?.id ?? null}
+                    onSelect={next => { if (!isLive) openConversation(next); }}
+                    onNew={() => { if (!isLive) openConversation(createConversation(agents.selected!.name, 'voice')); }}
+                    onRename={handleRenameConversation}
+                    onDelete={handleDeleteConversation}
+                />
+            )}
+            <div className="flex flex-col flex-1 min-w-0">
+                <div className="px-4 py-2 border-b border-brand-bg-alt flex items-center justify-between gap-4">
+                    <button
+                        onClick={() => setShowHistory(show => !show)}
+                        className="text-sm font-medium text-brand-secondary/70 hover:text-brand-primary transition-colors"
+                    >
+                        {showHistory ? t('talk.hideHistory') : t('talk.history')}
+                    </button>
+                    <div className="flex items-center gap-2 min-w-0">
+                        <AgentAvatar agent={profile} className="w-8 h-8" />
+                        <span className="font-semibold text-brand-secondary truncate">{profile.displayName}</span>
+                        {voiceName && <span className="text-xs text-brand-secondary/50 whitespace-nowrap">{t('talk.voice', { voice: voiceName })}</span>}
+                        {conversation?.title && <span className="text-sm text-brand-secondary/50 truncate">· {conversation.title}</span>}
+                    </div>
+                    <button
+                        onClick={() => setShowMemories(show => !show)}
+                        className="text-sm font-medium text-brand-secondary/70 hover:text-brand-primary transition-colors"
+                    >
+                        {t('memory.button')}
+                    </button>
+                    <ConversationTransfer
+                        onExport={handleExport}
+                        onImport={handleImport}
+                        exportDisabled={transcriptions.length === 0}
+                        importDisabled={isLive}
+                    />
+                    <button
+                        onClick={() => setPicking(true)}
+                        disabled={isLive}
+                        className="text-sm font-medium text-brand-secondary/70 hover:text-brand-primary transition-colors disabled:opacity-40"
+                    >
+                        {t('talk.changeAgent')}
+                    </button>
+                </div>
+                <div className="flex-grow p-6 overflow-y-auto space-y-4 bg-brand-bg-light">
+                    {transcriptions.length === 0 && !isLive && (
+                         <div className="flex flex-col items-center justify-center h-full text-center text-brand-secondary/60">
+                            <AgentAvatar agent={profile} className="w-20 h-20 mb-4" />
+                            <p className="text-lg max-w-md">{agentConfig?.greeting ?? t('talk.empty')}</p>
+                         </div>
+                    )}
+                    {transcriptions.map((msg) => (
+                        <div key={msg.id} className={`flex items-end gap-3 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                            <div className={`w-fit max-w-lg p-3 px-4 rounded-2xl shadow-sm ${msg.sender === 'user' ? 'bg-brand-primary text-white rounded-br-none' : 'bg-brand-bg-alt text-brand-secondary rounded-bl-none'}`}>
+                                {msg.attachments && msg.attachments.length > 0 && (
+                                    <div className="mb-2">
+                                        <AttachmentThumbnails attachments={msg.attachments} className="w-32 h-24" />
+                                    </div>
+                                )}
+                                {msg.sender === 'user'
+                                    ? <p className="whitespace-pre-wrap">{msg.text}</p>
+                                    : <Markdown text={msg.text} variant="light" />}
+                                {msg.intervention?.action === 'block' && msg.sender === 'bot' && (
+                                    <p className="text-sm italic text-brand-secondary/60">
+                                        {t(msg.intervention.direction === 'input' ? 'safety.blockedInput' : 'safety.withheld')}
+                                    </p>
+                                )}
+                                {msg.intervention?.action === 'crisis' && <HelplineCard />}
+                                {msg.interrupted && (
+                                    <p className="mt-1 text-xs italic text-brand-secondary/50">{t('talk.interrupted')}</p>
+                                )}
+                            </div>
                         </div>
+                    ))}
+                    <div ref={chatEndRef} />
+                </div>
+                <div className="p-6 bg-brand-surface/90 border-t border-brand-bg-alt flex flex-col items-center justify-center space-y-4">
+                    <p className="text-center text-lg text-brand-secondary/80 h-8 transition-all duration-300">{importError ?? (live.error && t(...live.error)) ?? t(STATUS_TEXT[live.status])}</p>
+                    <div className="flex items-center space-x-6">
+                        {live.camera && (
+                            <video ref={cameraPreviewRef} autoPlay muted playsInline className="w-28 h-20 object-cover rounded-lg shadow -scale-x-100" />
+                        )}
+                        <button
+                            onClick={isLive ? live.stop : () => { setImportError(null); live.start(); }}
+                            disabled={callBlocked}
+                            aria-label={isLive ? t('talk.endCall') : t('talk.startCall')}
+                            className={`w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 ease-in-out shadow-lg text-white disabled:opacity-40 disabled:cursor-not-allowed ${isLive ? 'bg-red-500 hover:bg-red-600 animate-pulse' : 'bg-brand-primary hover:bg-brand-primary-light'}`}
+                        >
+                            {isLive ? <StopIcon className="w-10 h-10" /> : <MicIcon className="w-10 h-10" />}
+                        </button>
+                        {live.status === 'open' && (
+                            <button
+                                onClick={live.toggleCamera}
+                                className="w-14 h-14 rounded-full flex items-center justify-center bg-brand-bg-alt text-brand-primary hover:bg-brand-bg-light shadow transition-all duration-300"
+                                title={live.camera ? t('talk.cameraOff') : t('talk.cameraOn')}
+                            >
+                                {live.camera ? <CameraOffIcon className="w-6 h-6" /> : <CameraIcon className="w-6 h-6" />}
+                            </button>
+                        )}
                     </div>
-                ))}
-                <div ref={chatEndRef} />
-            </div>
-            <div className="p-6 bg-brand-surface/90 border-t border-brand-bg-alt flex flex-col items-center justify-center space-y-4">
-                <p className="text-center text-lg text-brand-secondary/80 h-8 transition-all duration-300">{liveStatus}</p>
-                <button
-                    onClick={isLive ? handleStopLive : handleStartLive}
-                    className={`w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 ease-in-out shadow-lg text-white ${isLive ? 'bg-red-500 hover:bg-red-600 animate-pulse' : 'bg-brand-primary hover:bg-brand-primary-light'}`}
-                >
-                    {isLive ? <StopIcon className="w-10 h-10" /> : <MicIcon className="w-10 h-10" />}
-                </button>
+                    {!isLive && <UsageStatus kind="live" usage={usage.usage} limit={live.limit} />}
+                    <div className="flex items-center gap-4 text-sm text-brand-secondary/70">
+                        {isLive ? (
+                            live.recording && <span className="text-red-500 font-semibold">{t('talk.recording')}</span>
+                        ) : (
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={recordCalls}
+                                    onChange={e => setRecordCalls(e.target.checked)}
+                                    className="accent-brand-primary"
+                                />
+                                {t('talk.recordCalls')}
+                            </label>
+                        )}
+                        {!isLive && live.recording && (['wav', 'vtt', 'json'] as const).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => downloadRecording(format)}
+                                className="flex items-center gap-1 hover:text-brand-primary transition-colors"
+                                title={format === 'wav' ? t('talk.downloadAudio') : t('talk.downloadTranscript')}
+                            >
+                                <DownloadIcon className="w-4 h-4" />
+                                {format.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+                </div>
             </div>
+            {showMemories && (
+                <MemoryPanel
+                    displayName={profile.displayName}
+                    memories={memories.memories}
+                    onUpdate={memories.update}
+                    onDelete={memories.remove}
+                    onClose={() => setShowMemories(false)}
+                />
+            )}
         </div>
     );
 };
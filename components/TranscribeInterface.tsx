@@ -0,0 +1,322 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { endTranscriptionSession, startTranscriptionSession } from '../services/geminiService';
+import type { LiveServerMessage, Session } from '@google/genai';
+import { pcmToBlob } from '../services/audioUtils';
+import { ApiError, describeError } from '../services/apiErrors';
+import type { MessageKey, MessageRef } from '../services/i18n';
+import { startAudioCapture } from '../services/audioCapture';
+import { downloadBlob, timestampedFilename } from '../services/download';
+import { isUsageBlocked, limitFromError } from '../services/usage';
+import type { UsageLimit } from '../services/usage';
+import type { AudioCapture } from '../services/audioCapture';
+import { useLanguage } from '../hooks/useLanguage';
+import { useUsage } from '../hooks/useUsage';
+import UsageStatus from './UsageStatus';
+import { MicIcon, StopIcon, PauseIcon, PlayIcon, CopyIcon, DownloadIcon, TranscribeIcon } from './icons';
+
+type TranscribeStatus = 'idle' | 'connecting' | 'recording' | 'paused' | 'stopped';
+
+interface TranscriptSegment {
+    id: string;
+    text: string;
+    /** Milliseconds of recorded time (pauses excluded) when the segment began. */
+    offsetMs: number;
+}
+
+function formatOffset(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+function transcriptToText(segments: TranscriptSegment[]): string {
+    return segments.map(segment => `[${formatOffset(segment.offsetMs)}] ${segment.text}`).join('\n');
+}
+
+const STATUS_TEXT: Record<TranscribeStatus, MessageKey> = {
+    idle: 'transcribe.status.idle',
+    connecting: 'transcribe.status.connecting',
+    recording: 'transcribe.status.recording',
+    paused: 'transcribe.status.paused',
+    stopped: 'transcribe.status.stopped',
+};
+
+const TranscribeInterface: React.FC = () => {
+    const { language, t } = useLanguage();
+    const [status, setStatus] = useState<TranscribeStatus>('idle');
+    const [statusOverride, setStatusOverride] = useState<MessageRef | null>(null);
+    const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+    const [interim, setInterim] = useState('');
+    const [copied, setCopied] = useState(false);
+    const [limit, setLimit] = useState<UsageLimit | null>(null);
+    const usage = useUsage();
+
+    const sessionPromiseRef = useRef<Promise<Session> | null>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const captureRef = useRef<AudioCapture | null>(null);
+    const statusRef = useRef<TranscribeStatus>(status);
+    const interimRef = useRef('');
+    const interimOffsetRef = useRef(0);
+    const elapsedBeforePauseRef = useRef(0);
+    const resumedAtRef = useRef(0);
+    const transcriptEndRef = useRef<HTMLDivElement>(null);
+    // The metered session, ended on the backend when transcription stops.
+    const meteredSessionRef = useRef<string | null>(null);
+    // Stops transcribing when the day's call allowance runs out.
+    const quotaTimerRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        statusRef.current = status;
+    }, [status]);
+
+    useEffect(() => {
+        transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [segments, interim]);
+
+    const getElapsed = () => elapsedBeforePauseRef.current
+        + (statusRef.current === 'recording' ? Date.now() - resumedAtRef.current : 0);
+
+    const finalizeInterim = useCallback(() => {
+        const text = interimRef.current.trim();
+        const offsetMs = interimOffsetRef.current;
+        interimRef.current = '';
+        setInterim('');
+        if (!text) return;
+        setSegments(prev => [...prev, { id: `segment-${Date.now()}`, text, offsetMs }]);
+    }, []);
+
+    const handleStop = useCallback(() => {
+        if (statusRef.current === 'idle' || statusRef.current === 'stopped') return;
+        finalizeInterim();
+        statusRef.current = 'stopped';
+        setStatus('stopped');
+        if (quotaTimerRef.current !== null) window.clearTimeout(quotaTimerRef.current);
+        quotaTimerRef.current = null;
+        const sessionId = meteredSessionRef.current;
+        meteredSessionRef.current = null;
+        if (sessionId) endTranscriptionSession(sessionId).catch(e => console.error('Error ending transcription session:', e));
+        usage.refresh();
+
+        sessionPromiseRef.current?.then(session => session.close()).catch(e => console.error("Error closing:", e));
+        streamRef.current?.getTracks().forEach(track => track.stop());
+
+        captureRef.current?.stop();
+
+        sessionPromiseRef.current = null;
+        streamRef.current = null;
+        captureRef.current = null;
+    }, [finalizeInterim, usage.refresh]);
+
+    const handleStart = async () => {
+        if (statusRef.current === 'connecting' || statusRef.current === 'recording' || statusRef.current === 'paused') return;
+        setSegments([]);
+        setInterim('');
+        setStatusOverride(null);
+        setLimit(null);
+        interimRef.current = '';
+        elapsedBeforePauseRef.current = 0;
+
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            streamRef.current = stream;
+            statusRef.current = 'connecting';
+            setStatus('connecting');
+
+            sessionPromiseRef.current = startTranscriptionSession({
+                onopen: () => {
+                    if (!streamRef.current) return;
+
+                    startAudioCapture(streamRef.current, (pcm) => {
+                        if (statusRef.current !== 'recording') return;
+                        sessionPromiseRef.current?.then((session) => {
+                            session.sendRealtimeInput({ media: pcmToBlob(pcm) });
+                        });
+                    }).then((capture) => {
+                        if (statusRef.current === 'stopped') {
+                            capture.stop();
+                            return;
+                        }
+                        captureRef.current = capture;
+                        resumedAtRef.current = Date.now();
+                        statusRef.current = 'recording';
+                        setStatus('recording');
+                    }).catch((error) => {
+                        console.error('Audio capture error:', error);
+                        setStatusOverride(['live.error.microphone']);
+                        handleStop();
+                    });
+                },
+                onmessage: (message: LiveServerMessage) => {
+                    const text = message.serverContent?.inputTranscription?.text;
+                    if (text) {
+                        if (!interimRef.current) interimOffsetRef.current = getElapsed();
+                        interimRef.current += text;
+                        setInterim(interimRef.current);
+                    }
+                    if (message.serverContent?.turnComplete || message.serverContent?.interrupted) {
+                        finalizeInterim();
+                    }
+                },
+                onerror: (e: ErrorEvent) => {
+                    console.error('Transcription error:', e);
+                    setStatusOverride(['transcribe.error']);
+                    handleStop();
+                },
+                onclose: () => {
+                    handleStop();
+                },
+            }, {
+                language,
+                onAllowance: (allowance) => {
+                    if (statusRef.current === 'stopped') {
+                        endTranscriptionSession(allowance.sessionId).catch(() => {});
+                        return;
+                    }
+                    meteredSessionRef.current = allowance.sessionId;
+                    if (!allowance.limitedByQuota) return;
+                    quotaTimerRef.current = window.setTimeout(() => {
+                        quotaTimerRef.current = null;
+                        setLimit({ limit: 'quota', kind: 'live', until: Date.parse(allowance.resetsAt) });
+                        handleStop();
+                    }, Math.max(0, Date.parse(allowance.endsAt) - Date.now()));
+                },
+            });
+            sessionPromiseRef.current.catch((error) => {
+                // Out of allowance: the limit is shown in place of the error.
+                const limited = limitFromError(error);
+                if (limited) setLimit(limited);
+                else if (error instanceof ApiError && error.status === 409) setStatusOverride(['live.error.busy']);
+                else setStatusOverride(describeError(error));
+                handleStop();
+            });
+        } catch (error) {
+            console.error('Microphone error:', error);
+            setStatusOverride(['live.error.microphoneDenied']);
+            statusRef.current = 'idle';
+            setStatus('idle');
+        }
+    };
+
+    const handlePause = () => {
+        if (statusRef.current !== 'recording') return;
+        elapsedBeforePauseRef.current = getElapsed();
+        finalizeInterim();
+        statusRef.current = 'paused';
+        setStatus('paused');
+        captureRef.current?.pause().catch(() => {});
+    };
+
+    const handleResume = () => {
+        if (statusRef.current !== 'paused') return;
+        resumedAtRef.current = Date.now();
+        statusRef.current = 'recording';
+        setStatus('recording');
+        captureRef.current?.resume().catch(() => {});
+    };
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(transcriptToText(segments));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (error) {
+            console.error('Copy failed:', error);
+        }
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([transcriptToText(segments)], { type: 'text/plain;charset=utf-8' });
+        downloadBlob(blob, timestampedFilename('transcript', 'txt'));
+    };
+
+    useEffect(() => {
+        return () => { handleStop(); };
+    }, [handleStop]);
+
+    // Closing or reloading the tab never reaches `handleStop`, so the metered
+    // session is ended as the page goes rather than billed until it runs out.
+    useEffect(() => {
+        const endOnPageHide = () => {
+            const sessionId = meteredSessionRef.current;
+            meteredSessionRef.current = null;
+            if (sessionId) endTranscriptionSession(sessionId, { keepalive: true }).catch(() => {});
+        };
+        window.addEventListener('pagehide', endOnPageHide);
+        return () => window.removeEventListener('pagehide', endOnPageHide);
+    }, []);
+
+    const isActive = status === 'connecting' || status === 'recording' || status === 'paused';
+    const canExport = status === 'stopped' && segments.length > 0;
+    const blocked = !isActive && isUsageBlocked('live', usage.usage, limit);
+
+    return (
+        <div className="flex flex-col h-[80vh] bg-brand-surface rounded-lg shadow-2xl overflow-hidden border border-brand-bg-alt">
+            <div className="flex-grow p-6 overflow-y-auto space-y-3 bg-brand-bg-light">
+                {segments.length === 0 && !interim && !isActive && (
+                    <div className="flex flex-col items-center justify-center h-full text-center text-brand-secondary/60">
+                        <TranscribeIcon className="w-16 h-16 mb-4"/>
+                        <p className="text-lg">{t('transcribe.empty')}</p>
+                    </div>
+                )}
+                {segments.map(segment => (
+                    <div key={segment.id} className="flex gap-3">
+                        <span className="font-mono text-sm text-brand-secondary/50 pt-0.5">{formatOffset(segment.offsetMs)}</span>
+                        <p className="whitespace-pre-wrap text-brand-secondary">{segment.text}</p>
+                    </div>
+                ))}
+                {interim && (
+                    <div className="flex gap-3">
+                        <span className="font-mono text-sm text-brand-secondary/50 pt-0.5">{formatOffset(interimOffsetRef.current)}</span>
+                        <p className="whitespace-pre-wrap text-brand-secondary/60 italic">{interim}</p>
+                    </div>
+                )}
+                <div ref={transcriptEndRef} />
+            </div>
+            <div className="p-6 bg-brand-surface/90 border-t border-brand-bg-alt flex flex-col items-center justify-center space-y-4">
+                <p className="text-center text-lg text-brand-secondary/80 h-8 transition-all duration-300">{t(...(statusOverride ?? [STATUS_TEXT[status]]))}</p>
+                {!isActive && <UsageStatus kind="live" usage={usage.usage} limit={limit} />}
+                <div className="flex items-center space-x-6">
+                    {isActive && (
+                        <button
+                            onClick={status === 'paused' ? handleResume : handlePause}
+                            disabled={status === 'connecting'}
+                            className="w-14 h-14 rounded-full flex items-center justify-center bg-brand-bg-alt text-brand-primary hover:bg-brand-bg-light shadow transition-all duration-300 disabled:opacity-50"
+                            title={status === 'paused' ? t('transcribe.resume') : t('transcribe.pause')}
+                        >
+                            {status === 'paused' ? <PlayIcon className="w-7 h-7" /> : <PauseIcon className="w-7 h-7" />}
+                        </button>
+                    )}
+                    <button
+                        onClick={isActive ? handleStop : handleStart}
+                        disabled={blocked}
+                        className={`w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 ease-in-out shadow-lg text-white disabled:opacity-50 disabled:cursor-not-allowed ${status === 'recording' ? 'bg-red-500 hover:bg-red-600 animate-pulse' : isActive ? 'bg-red-500 hover:bg-red-600' : 'bg-brand-primary hover:bg-brand-primary-light'}`}
+                        title={isActive ? t('transcribe.stop') : t('transcribe.start')}
+                    >
+                        {isActive ? <StopIcon className="w-10 h-10" /> : <MicIcon className="w-10 h-10" />}
+                    </button>
+                    {canExport && (
+                        <>
+                            <button
+                                onClick={handleCopy}
+                                className="w-14 h-14 rounded-full flex items-center justify-center bg-brand-bg-alt text-brand-primary hover:bg-brand-bg-light shadow transition-all duration-300"
+                                title={copied ? t('transcribe.copied') : t('transcribe.copy')}
+                            >
+                                <CopyIcon className="w-6 h-6" />
+                            </button>
+                            <button
+                                onClick={handleDownload}
+                                className="w-14 h-14 rounded-full flex items-center justify-center bg-brand-bg-alt text-brand-primary hover:bg-brand-bg-light shadow transition-all duration-300"
+                                title={t('transcribe.download')}
+                            >
+                                <DownloadIcon className="w-6 h-6" />
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TranscribeInterface;
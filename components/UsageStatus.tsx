@@ -0,0 +1,60 @@
+import React from 'react';
+import { useLanguage } from '../hooks/useLanguage';
+import { isLimitActive, isUsageBlocked, remainingMinutes, remainingShare } from '../services/usage';
+import type { UsageLimit } from '../services/usage';
+import type { UsageKind, UsageSummary } from '../types';
+
+interface UsageStatusProps {
+  kind: UsageKind;
+  usage: UsageSummary | null;
+  /** The last limit the backend turned a request away with, if any. */
+  limit: UsageLimit | null;
+  variant?: 'dark' | 'light';
+}
+
+const THEMES = {
+  dark: {
+    muted: 'text-gray-500',
+    reached: 'bg-amber-900/30 border-amber-700 text-amber-200',
+  },
+  light: {
+    muted: 'text-brand-secondary/60',
+    reached: 'bg-amber-50 border-amber-300 text-amber-800',
+  },
+};
+
+/** How much of today's chat or call allowance is left, or why it can't be used right now. */
+const UsageStatus: React.FC<UsageStatusProps> = ({ kind, usage, limit, variant = 'light' }) => {
+  const { t } = useLanguage();
+  const theme = THEMES[variant];
+  const active = isLimitActive(limit) && limit.kind === kind ? limit : null;
+
+  if (active?.limit === 'rate') {
+    return (
+      <p role="status" className={`px-3 py-2 rounded-lg border text-sm ${theme.reached}`}>
+        {t('usage.rate', { seconds: Math.max(1, Math.ceil((active.until - Date.now()) / 1000)) })}
+      </p>
+    );
+  }
+
+  if (isUsageBlocked(kind, usage, limit)) {
+    const resetsAt = active?.until ?? Date.parse(usage!.resetsAt);
+    const time = new Date(resetsAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    return (
+      <p role="status" className={`px-3 py-2 rounded-lg border text-sm ${theme.reached}`}>
+        {t(kind === 'chat' ? 'usage.chatReached' : 'usage.liveReached', { time })}
+      </p>
+    );
+  }
+
+  if (!usage) return null;
+  return (
+    <p className={`text-xs ${theme.muted}`}>
+      {kind === 'chat'
+        ? t('usage.chatRemaining', { percent: Math.round(remainingShare(usage.chat) * 100) })
+        : t('usage.liveRemaining', { minutes: remainingMinutes(usage.live) })}
+    </p>
+  );
+};
+
+export default UsageStatus;
@@ -1,46 +1,93 @@
 
 import React from 'react';
-import type { AppMode } from '../types';
-import { MicIcon } from './icons';
+import type { AgentSummary, AppMode } from '../types';
+import { useLanguage } from '../hooks/useLanguage';
+import type { AgeGate } from '../hooks/useAgeGate';
+import { MIN_AGE } from '../services/safety';
+import AgentAvatar from './AgentAvatar';
+import LanguageSwitcher from './LanguageSwitcher';
+import { MicIcon, TranscribeIcon } from './icons';
 
 interface WelcomeScreenProps {
+  agent: AgentSummary | null;
   setMode: (mode: AppMode) => void;
+  /** The options stay hidden until the visitor confirms they are old enough. */
+  ageGate: AgeGate;
 }
 
-const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ setMode }) => {
+const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ agent, setMode, ageGate }) => {
+  const { t } = useLanguage();
+  const firstName = agent?.displayName.split(' ')[0];
+
   return (
     <div className="flex flex-col items-center justify-center h-full text-center p-4">
-      <div className="mb-10">
+      <div className="mb-10 flex flex-col items-center">
+        {agent && <AgentAvatar agent={agent} className="w-24 h-24 mb-6 text-3xl" />}
         <h1 className="text-5xl md:text-7xl font-serif font-bold text-brand-primary">
-          Rani Bhat
+          {agent?.displayName ?? t('welcome.title')}
         </h1>
         <p className="text-xl md:text-2xl text-brand-secondary/70 mt-3">
-          Your Virtual Companion
+          {agent?.tagline ?? t('welcome.tagline')}
         </p>
       </div>
 
-      <div className="space-y-6 w-full max-w-sm">
-        <button
-          onClick={() => setMode('Chat')}
-          className="w-full bg-brand-primary text-white font-bold py-4 px-6 rounded-lg shadow-lg hover:bg-brand-primary-light transform hover:-translate-y-1 transition-all duration-300 ease-in-out"
-        >
-          <span className="text-xl">Chat with Rani</span>
-          <p className="text-sm font-normal opacity-80">Type and get instant replies.</p>
-        </button>
-
-        <button
-          onClick={() => setMode('Talk')}
-          className="w-full bg-brand-surface text-brand-primary font-bold py-4 px-6 rounded-lg shadow-lg border border-brand-bg-alt hover:bg-brand-bg-alt transform hover:-translate-y-1 transition-all duration-300 ease-in-out flex items-center justify-center space-x-3"
-        >
-          <MicIcon className="w-6 h-6" />
-          <div>
-            <span className="text-xl">Talk with Rani</span>
-            <p className="text-sm font-normal opacity-80">Have a live voice conversation.</p>
+      {ageGate.status === 'declined' ? (
+        <p className="text-lg text-brand-secondary/80 max-w-sm">{t('age.declined', { age: MIN_AGE })}</p>
+      ) : ageGate.status === 'unknown' ? (
+        <div className="w-full max-w-sm bg-brand-surface rounded-lg shadow-lg border border-brand-bg-alt p-6">
+          <h2 className="text-2xl font-serif font-bold text-brand-primary">{t('age.title', { age: MIN_AGE })}</h2>
+          <p className="text-brand-secondary/70 mt-2 mb-6">{t('age.body')}</p>
+          <div className="space-y-3">
+            <button
+              onClick={ageGate.confirm}
+              className="w-full bg-brand-primary text-white font-bold py-3 px-6 rounded-lg shadow hover:bg-brand-primary-light transition-all duration-300"
+            >
+              {t('age.confirm', { age: MIN_AGE })}
+            </button>
+            <button
+              onClick={ageGate.decline}
+              className="w-full text-brand-secondary/70 font-medium py-2 px-6 rounded-lg hover:bg-brand-bg-alt transition-all duration-300"
+            >
+              {t('age.decline', { age: MIN_AGE })}
+            </button>
           </div>
-        </button>
-      </div>
-       <p className="mt-16 text-center text-brand-secondary/50 text-sm max-w-xs">
-        Choose an option to start a conversation. You can end the chat anytime from the header.
+        </div>
+      ) : (
+        <div className="space-y-6 w-full max-w-sm">
+          <button
+            onClick={() => setMode('Chat')}
+            className="w-full bg-brand-primary text-white font-bold py-4 px-6 rounded-lg shadow-lg hover:bg-brand-primary-light transform hover:-translate-y-1 transition-all duration-300 ease-in-out"
+          >
+            <span className="text-xl">{firstName ? t('welcome.chatWith', { name: firstName }) : t('mode.Chat')}</span>
+            <p className="text-sm font-normal opacity-80">{t('welcome.chatHint')}</p>
+          </button>
+
+          <button
+            onClick={() => setMode('Talk')}
+            className="w-full bg-brand-surface text-brand-primary font-bold py-4 px-6 rounded-lg shadow-lg border border-brand-bg-alt hover:bg-brand-bg-alt transform hover:-translate-y-1 transition-all duration-300 ease-in-out flex items-center justify-center space-x-3"
+          >
+            <MicIcon className="w-6 h-6" />
+            <div>
+              <span className="text-xl">{firstName ? t('welcome.talkWith', { name: firstName }) : t('mode.Talk')}</span>
+              <p className="text-sm font-normal opacity-80">{t('welcome.talkHint')}</p>
+            </div>
+          </button>
+
+          <button
+            onClick={() => setMode('Transcribe')}
+            className="w-full bg-brand-surface text-brand-primary font-bold py-4 px-6 rounded-lg shadow-lg border border-brand-bg-alt hover:bg-brand-bg-alt transform hover:-translate-y-1 transition-all duration-300 ease-in-out flex items-center justify-center space-x-3"
+          >
+            <TranscribeIcon className="w-6 h-6" />
+            <div>
+              <span className="text-xl">{t('mode.Transcribe')}</span>
+              <p className="text-sm font-normal opacity-80">{t('welcome.transcribeHint')}</p>
+            </div>
+          </button>
+        </div>
+      )}
+      <LanguageSwitcher className="mt-10" />
+       <p className="mt-6 text-center text-brand-secondary/50 text-sm max-w-xs">
+        {t('welcome.footer')}
       </p>
     </div>
   );
@@ -0,0 +1,45 @@
+import { useState, useCallback } from 'react';
+import { reportAgeGateDeclined } from '../services/geminiService';
+
+const AGE_CONFIRMED_KEY = 'ageConfirmed';
+
+export type AgeGateStatus = 'unknown' | 'confirmed' | 'declined';
+
+export interface AgeGate {
+  status: AgeGateStatus;
+  confirm: () => void;
+  decline: () => void;
+}
+
+function readConfirmed(): boolean {
+  try {
+    return localStorage.getItem(AGE_CONFIRMED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether the visitor has said they are old enough for companion chats. A
+ * confirmation is remembered across reloads; a decline lasts for the visit
+ * and is reported for the audit log.
+ */
+export function useAgeGate(): AgeGate {
+  const [status, setStatus] = useState<AgeGateStatus>(() => (readConfirmed() ? 'confirmed' : 'unknown'));
+
+  const confirm = useCallback(() => {
+    setStatus('confirmed');
+    try {
+      localStorage.setItem(AGE_CONFIRMED_KEY, 'true');
+    } catch {
+      // Not persisted; the visitor will be asked again next time.
+    }
+  }, []);
+
+  const decline = useCallback(() => {
+    setStatus('declined');
+    reportAgeGateDeclined().catch(err => console.error('Error recording age check:', err));
+  }, []);
+
+  return { status, confirm, decline };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getAvailableAgents } from '../services/geminiService';
+import { describeError } from '../services/apiErrors';
+import type { MessageRef } from '../services/i18n';
+import type { AgentSummary } from '../types';
+
+const SELECTED_AGENT_KEY = 'selectedAgent';
+
+function readSelectedName(): string | null {
+  try {
+    return localStorage.getItem(SELECTED_AGENT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The agents the backend offers and the one the user is currently talking
+ * to. The choice is shared by every mode and remembered across reloads.
+ */
+export interface AgentDirectory {
+  agents: AgentSummary[];
+  selected: AgentSummary | null;
+  select: (agent: AgentSummary) => void;
+  loading: boolean;
+  /** Why the list couldn't be loaded. */
+  error: MessageRef | null;
+  reload: () => Promise<void>;
+}
+
+export function useAgents(): AgentDirectory {
+  const [agents, setAgents] = useState<AgentSummary[]>([]);
+  const [selected, setSelected] = useState<AgentSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<MessageRef | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const list = await getAvailableAgents();
+      const remembered = readSelectedName();
+      setAgents(list);
+      setSelected(current =>
+        list.find(agent => agent.name === (current?.name ?? remembered)) ?? list[0] ?? null);
+    } catch (err) {
+      setError(describeError(err));
+      console.error('Error fetching agents:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const select = useCallback((agent: AgentSummary) => {
+    setSelected(agent);
+    try {
+      localStorage.setItem(SELECTED_AGENT_KEY, agent.name);
+    } catch {
+      // Storage may be unavailable (private mode); the choice just won't survive a reload.
+    }
+  }, []);
+
+  return { agents, selected, select, loading, error, reload };
+}
@@ -0,0 +1,76 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { getCurrentAccount, signIn as requestSignIn, signOut as requestSignOut, signUp as requestSignUp } from '../services/geminiService';
+import type { SignUpDetails } from '../services/geminiService';
+import { endSession, getSession, startSession, subscribeSession } from '../services/authSession';
+import type { SessionEndReason } from '../services/authSession';
+import type { Account } from '../types';
+
+export interface AuthContextValue {
+  /** The signed-in account, or `null` when signed out. */
+  account: Account | null;
+  /** Why the last session ended, until the user signs in again. */
+  endReason: SessionEndReason | null;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (details: SignUpDetails) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  account: null,
+  endReason: null,
+  signIn: async () => {},
+  signUp: async () => {},
+  signOut: async () => {},
+});
+
+/**
+ * Holds the signed-in account for the whole app. Whenever the backend turns
+ * the session down, the account is cleared here and the gated modes fall
+ * back to the sign-in screen.
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [account, setAccount] = useState<Account | null>(() => getSession()?.account ?? null);
+  const [endReason, setEndReason] = useState<SessionEndReason | null>(null);
+
+  useEffect(() => subscribeSession((session, reason) => {
+    setAccount(session?.account ?? null);
+    setEndReason(session ? null : reason ?? null);
+  }), []);
+
+  // A stored session may have been revoked since the last visit; a 401 here ends it.
+  useEffect(() => {
+    if (!getSession()) return;
+    getCurrentAccount()
+      .then(setAccount)
+      .catch(err => console.error('Error checking session:', err));
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    startSession(await requestSignIn(email, password));
+  }, []);
+
+  const signUp = useCallback(async (details: SignUpDetails) => {
+    startSession(await requestSignUp(details));
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await requestSignOut();
+    } catch (err) {
+      // Signed out locally regardless; the token lapses on its own.
+      console.error('Error signing out:', err);
+    }
+    endSession('signedOut');
+  }, []);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ account, endReason, signIn, signUp, signOut }),
+    [account, endReason, signIn, signUp, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export function useAuth(): AuthContextValue {
+  return useContext(AuthContext);
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { deleteConversation, listConversations, renameConversation } from '../services/conversationStore';
+import type { Conversation, ConversationKind } from '../types';
+
+/** Lists an agent's saved conversations of one kind and keeps the list fresh after edits. */
+export function useConversationHistory(agentName: string | null, kind: ConversationKind) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!agentName) {
+      setConversations([]);
+      return;
+    }
+    try {
+      setConversations(await listConversations(agentName, kind));
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  }, [agentName, kind]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    await renameConversation(id, title);
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteConversation(id);
+    await refresh();
+  }, [refresh]);
+
+  return { conversations, refresh, rename, remove };
+}
@@ -0,0 +1,60 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_LANGUAGE, detectLanguage, isLanguage, translate } from '../services/i18n';
+import type { Translate } from '../services/i18n';
+import type { Language } from '../types';
+
+const LANGUAGE_KEY = 'language';
+
+function readLanguage(): Language {
+  try {
+    const saved = localStorage.getItem(LANGUAGE_KEY);
+    if (isLanguage(saved)) return saved;
+  } catch {
+    // Storage unavailable; fall back to the browser's preference.
+  }
+  return detectLanguage(navigator.languages ?? [navigator.language]);
+}
+
+export interface LanguageContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  /** Translates into the current language. */
+  t: Translate;
+}
+
+// Components rendered outside a provider (e.g. in isolation) get English.
+const LanguageContext = createContext<LanguageContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  t: (key, params) => translate(DEFAULT_LANGUAGE, key, params),
+});
+
+/** Holds the UI language for the whole app, remembered across reloads. */
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(readLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    try {
+      localStorage.setItem(LANGUAGE_KEY, next);
+    } catch {
+      // Not persisted; the choice still applies for this visit.
+    }
+  }, []);
+
+  const value = useMemo<LanguageContextValue>(() => ({
+    language,
+    setLanguage,
+    t: (key, params) => translate(language, key, params),
+  }), [language, setLanguage]);
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+};
+
+export function useLanguage(): LanguageContextValue {
+  return useContext(LanguageContext);
+}
@@ -0,0 +1,529 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import type { Content, LiveServerMessage, Session } from '@google/genai';
+import { endLiveSession, moderateTranscript, rememberTranscript, startLiveConversation } from '../services/geminiService';
+import { decode, decodeAudioData, pcmToBlob } from '../services/audioUtils';
+import { startAudioCapture } from '../services/audioCapture';
+import type { AudioCapture } from '../services/audioCapture';
+import { createVoiceActivityDetector } from '../services/voiceActivity';
+import { ApiError, describeError } from '../services/apiErrors';
+import type { MessageRef } from '../services/i18n';
+import { backoffDelay } from '../services/apiClient';
+import { limitFromError } from '../services/usage';
+import type { UsageLimit } from '../services/usage';
+import { createCallRecorder } from '../services/callRecorder';
+import type { CallRecorder } from '../services/callRecorder';
+import { CAMERA_FRAME_MAX_DIMENSION, THUMBNAIL_MAX_DIMENSION, captureVideoFrame } from '../services/imageUtils';
+import type { ChatHistoryItem, Language, Message, SafetyIntervention } from '../types';
+
+export type LiveSessionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'ended';
+
+export interface LiveSessionOptions {
+  /** Receives the transcribed user and bot messages of each finished or interrupted turn. */
+  onTurn: (messages: Message[]) => void;
+  /** Earlier messages to hand the model when the session opens, so a call continues the thread. */
+  getContext?: () => ChatHistoryItem[];
+  /** Record both sides of the next call, with a transcript cue per turn. */
+  record?: boolean;
+  /** What the user will speak, so recognition and the agent's voice match. Fixed for the length of a call. */
+  language?: Language;
+  /**
+   * Each turn's transcripts are checked by the backend after the fact; this
+   * receives the message to mark when the safety layer steps in.
+   */
+  onIntervention?: (messageId: string, intervention: SafetyIntervention) => void;
+  /** Recorded with any intervention, so it can be traced back to the thread. */
+  conversationId?: string;
+}
+
+/** Playback volume while the user is speaking over the agent. */
+const DUCKED_GAIN = 0.2;
+const DUCK_RAMP_SECONDS = 0.08;
+/** Only the tail of a long thread is replayed into a new call. */
+const MAX_CONTEXT_MESSAGES = 20;
+/** Consecutive failed reconnects before the call is given up. */
+const MAX_RECONNECT_ATTEMPTS = 5;
+/** Camera frames are throttled to one per second, which the live API handles comfortably. */
+const CAMERA_FRAME_INTERVAL_MS = 1000;
+
+function toContextTurns(history: ChatHistoryItem[]): Content[] {
+  return history
+    .filter(item => item.text.trim())
+    .slice(-MAX_CONTEXT_MESSAGES)
+    .map(item => ({ role: item.sender === 'user' ? 'user' : 'model', parts: [{ text: item.text }] }));
+}
+
+/**
+ * Runs a two-way voice call with an agent: streams the microphone up, plays
+ * the agent's audio back (ducked while the user talks, flushed when the
+ * server reports an interruption) and turns both transcriptions into chat
+ * messages, one batch per turn. While the call is open the camera can be
+ * switched on to stream downscaled frames alongside the audio. Dropped or
+ * recycled sockets are replaced transparently using session resumption.
+ */
+export function useLiveSession(agentName: string | null, { onTurn, getContext, record = false, language, onIntervention, conversationId }: LiveSessionOptions) {
+  const [status, setStatus] = useState<LiveSessionStatus>('idle');
+  const [error, setError] = useState<MessageRef | null>(null);
+  const [camera, setCamera] = useState<MediaStream | null>(null);
+  const [recording, setRecording] = useState<CallRecorder | null>(null);
+  const [limit, setLimit] = useState<UsageLimit | null>(null);
+
+  const sessionPromiseRef = useRef<Promise<Session> | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const outputAudioContextRef = useRef<AudioContext | null>(null);
+  const outputGainRef = useRef<GainNode | null>(null);
+  // Bumped on every interruption so audio decoded for a cancelled turn is dropped.
+  const playbackGenerationRef = useRef(0);
+  const nextStartTimeRef = useRef(0);
+  const sourcesRef = useRef(new Set<AudioBufferSourceNode>());
+  const isLiveRef = useRef(false);
+  // False while a dropped socket is being replaced.
+  const sessionOpenRef = useRef(false);
+  const reconnectTimerRef = useRef<number | null>(null);
+  // Emits whatever was said in the unfinished turn; set while a call runs.
+  const flushTurnRef = useRef<((interrupted: boolean) => void) | null>(null);
+  // Hands the finished call's transcript to the backend to remember; set while a call runs.
+  const rememberCallRef = useRef<(() => void) | null>(null);
+  // The backend bills call time until told the session is over.
+  const meteredSessionRef = useRef<{ agentName: string; sessionId: string } | null>(null);
+  // Hangs up when the day's call allowance runs out mid-call.
+  const quotaTimerRef = useRef<number | null>(null);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
+  // Off-screen element the camera plays into so frames can be grabbed.
+  const cameraVideoRef = useRef<HTMLVideoElement | null>(null);
+  const frameTimerRef = useRef<number | null>(null);
+  // Latest callbacks, so a running session never calls into a stale render.
+  const onTurnRef = useRef(onTurn);
+  const getContextRef = useRef(getContext);
+  const recordRef = useRef(record);
+  const languageRef = useRef(language);
+  const onInterventionRef = useRef(onIntervention);
+  const conversationIdRef = useRef(conversationId);
+  onTurnRef.current = onTurn;
+  getContextRef.current = getContext;
+  recordRef.current = record;
+  languageRef.current = language;
+  onInterventionRef.current = onIntervention;
+  conversationIdRef.current = conversationId;
+
+  const flushPlayback = useCallback(() => {
+    playbackGenerationRef.current++;
+    sourcesRef.current.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped.
+      }
+    });
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  }, []);
+
+  const setDucked = useCallback((ducked: boolean) => {
+    const ctx = outputAudioContextRef.current;
+    const gain = outputGainRef.current;
+    if (!ctx || !gain) return;
+    gain.gain.setTargetAtTime(ducked ? DUCKED_GAIN : 1, ctx.currentTime, DUCK_RAMP_SECONDS);
+  }, []);
+
+  const stopCamera = useCallback(() => {
+    if (frameTimerRef.current !== null) window.clearInterval(frameTimerRef.current);
+    cameraStreamRef.current?.getTracks().forEach(track => track.stop());
+    frameTimerRef.current = null;
+    cameraStreamRef.current = null;
+    cameraVideoRef.current = null;
+    setCamera(null);
+  }, []);
+
+  const stop = useCallback(() => {
+    if (!isLiveRef.current) return;
+    // Keep whatever was said before the call ended.
+    flushTurnRef.current?.(false);
+    flushTurnRef.current = null;
+    rememberCallRef.current?.();
+    rememberCallRef.current = null;
+    isLiveRef.current = false;
+    sessionOpenRef.current = false;
+    setStatus('ended');
+    if (reconnectTimerRef.current !== null) window.clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    if (quotaTimerRef.current !== null) window.clearTimeout(quotaTimerRef.current);
+    quotaTimerRef.current = null;
+    const metered = meteredSessionRef.current;
+    meteredSessionRef.current = null;
+    if (metered) endLiveSession(metered.agentName, metered.sessionId).catch(e => console.error('Error ending live session:', e));
+
+    sessionPromiseRef.current?.then(session => session.close()).catch(e => console.error('Error closing:', e));
+    streamRef.current?.getTracks().forEach(track => track.stop());
+
+    captureRef.current?.stop();
+    stopCamera();
+    flushPlayback();
+    outputAudioContextRef.current?.close().catch(() => {});
+
+    sessionPromiseRef.current = null;
+    streamRef.current = null;
+    captureRef.current = null;
+    outputAudioContextRef.current = null;
+    outputGainRef.current = null;
+  }, [flushPlayback, stopCamera]);
+
+  const fail = useCallback((message: MessageRef) => {
+    setError(message);
+    stop();
+  }, [stop]);
+
+  const start = useCallback(async () => {
+    if (!agentName || isLiveRef.current) return;
+    setError(null);
+    setLimit(null);
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      isLiveRef.current = true;
+      setStatus('connecting');
+
+      // Runs at the device rate; 24 kHz model audio is resampled on playback.
+      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      outputGainRef.current = outputAudioContextRef.current.createGain();
+      outputGainRef.current.connect(outputAudioContextRef.current.destination);
+
+      let currentUserTranscription = '';
+      let currentBotTranscription = '';
+      const callLanguage = languageRef.current;
+      const detectVoice = createVoiceActivityDetector();
+      let userSpeaking = false;
+      // When each side of the current turn started speaking, for the recording's transcript cues.
+      let userTurnStart: number | null = null;
+      let botTurnStart: number | null = null;
+
+      const recorder = recordRef.current ? createCallRecorder(performance.now()) : null;
+      setRecording(recorder);
+
+      // When the audio queued so far will have finished playing, in `performance.now()` time.
+      const playbackEnd = () => {
+        const ctx = outputAudioContextRef.current;
+        const now = performance.now();
+        if (!ctx || nextStartTimeRef.current === 0) return now;
+        return Math.max(now, now + (nextStartTimeRef.current - ctx.currentTime) * 1000);
+      };
+
+      // Every turn of the call, and whether the safety layer stepped in on it.
+      const callTurns: { turn: Message[]; flagged: boolean }[] = [];
+      const pendingChecks: Promise<void>[] = [];
+
+      // What the user said is marked on the reply to it, where the helpline card belongs.
+      const moderateTurn = (entry: { turn: Message[]; flagged: boolean }) => {
+        const userMessage = entry.turn.find(msg => msg.sender === 'user');
+        const botMessage = entry.turn.find(msg => msg.sender === 'bot');
+        const check = (message: Message, direction: SafetyIntervention['direction'], target: Message) => {
+          pendingChecks.push(moderateTranscript(agentName, { text: message.text, direction, conversationId: conversationIdRef.current })
+            .then(intervention => {
+              if (!intervention) return;
+              entry.flagged = true;
+              onInterventionRef.current?.(target.id, intervention);
+            })
+            .catch(err => console.error('Error checking transcript:', err)));
+        };
+        if (userMessage) check(userMessage, 'input', botMessage ?? userMessage);
+        if (botMessage) check(botMessage, 'output', botMessage);
+      };
+
+      const flushTurn = (interrupted: boolean) => {
+        const userText = currentUserTranscription.trim();
+        const botText = currentBotTranscription.trim();
+        currentUserTranscription = '';
+        currentBotTranscription = '';
+        const now = performance.now();
+        if (recorder) {
+          if (userText) recorder.addCue('user', userText, userTurnStart ?? now, botTurnStart ?? now);
+          if (botText) recorder.addCue('bot', botText, botTurnStart ?? now, interrupted ? now : playbackEnd());
+        }
+        userTurnStart = null;
+        botTurnStart = null;
+        if (!userText && !botText) return;
+        const turn: Message[] = [];
+        if (userText) {
+          const userMessage: Message = { id: crypto.randomUUID(), text: userText, sender: 'user', spoken: true };
+          // Keep a small picture of what the camera saw as the user finished speaking.
+          const snapshot = cameraVideoRef.current && captureVideoFrame(cameraVideoRef.current, THUMBNAIL_MAX_DIMENSION);
+          if (snapshot) userMessage.attachments = [snapshot];
+          turn.push(userMessage);
+        }
+        if (botText) turn.push({ id: crypto.randomUUID(), text: botText, sender: 'bot', spoken: true, interrupted: interrupted || undefined });
+        onTurnRef.current(turn);
+        const entry = { turn, flagged: false };
+        callTurns.push(entry);
+        moderateTurn(entry);
+      };
+      flushTurnRef.current = flushTurn;
+
+      // Waits for the last turns' safety checks so flagged exchanges are never remembered.
+      rememberCallRef.current = () => {
+        Promise.all(pendingChecks)
+          .then(() => {
+            const transcript = callTurns
+              .filter(entry => !entry.flagged)
+              .flatMap(entry => entry.turn.map(({ sender, text }) => ({ sender, text })));
+            if (transcript.some(item => item.sender === 'user')) return rememberTranscript(agentName, transcript);
+          })
+          .catch(err => console.error('Error saving memories:', err));
+      };
+
+      let resumptionHandle: string | undefined;
+      let reconnectAttempt = 0;
+      let hasOpened = false;
+      // Identifies the current socket; callbacks from a replaced one are ignored.
+      let connectionId = 0;
+
+      const startCapture = (stream: MediaStream) => {
+        startAudioCapture(stream, (pcm) => {
+          if (!isLiveRef.current) return;
+          // Duck the agent while the user talks; the server decides whether it's a real interruption.
+          const now = performance.now();
+          recorder?.addInput(pcm, now);
+          const speaking = detectVoice(pcm, now);
+          if (speaking !== userSpeaking) {
+            userSpeaking = speaking;
+            setDucked(speaking && sourcesRef.current.size > 0);
+            if (speaking && userTurnStart === null) userTurnStart = now;
+          }
+          // Audio captured while reconnecting is dropped rather than queued.
+          if (!sessionOpenRef.current) return;
+          sessionPromiseRef.current?.then((session) => {
+            session.sendRealtimeInput({ media: pcmToBlob(pcm) });
+          });
+        }).then((capture) => {
+          if (isLiveRef.current) captureRef.current = capture;
+          else capture.stop();
+        }).catch((err) => {
+          console.error('Audio capture error:', err);
+          fail(['live.error.microphone']);
+        });
+      };
+
+      // Drops the current socket and opens a new one after a backoff, resuming
+      // the same conversation when the server has issued a handle. The mic,
+      // playback and transcript carry on untouched.
+      const reconnect = () => {
+        if (!isLiveRef.current) return;
+        connectionId++;
+        sessionOpenRef.current = false;
+        sessionPromiseRef.current?.then(session => session.close()).catch(() => {});
+        sessionPromiseRef.current = null;
+        flushTurn(false);
+
+        if (reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+          fail(['live.error.lost']);
+          return;
+        }
+        setStatus('reconnecting');
+        reconnectTimerRef.current = window.setTimeout(connect, backoffDelay(reconnectAttempt++));
+      };
+
+      const connect = () => {
+        reconnectTimerRef.current = null;
+        if (!isLiveRef.current) return;
+        const id = ++connectionId;
+        const isCurrent = () => id === connectionId && isLiveRef.current;
+        const resuming = resumptionHandle !== undefined;
+
+        const sessionPromise = startLiveConversation(agentName, {
+          onopen: () => {
+            if (!isCurrent()) return;
+            hasOpened = true;
+            reconnectAttempt = 0;
+            sessionOpenRef.current = true;
+            setStatus('open');
+
+            // A resumed session already has the conversation; a fresh one gets the transcript so far.
+            const context = resuming ? [] : toContextTurns(getContextRef.current?.() ?? []);
+            if (context.length > 0) {
+              sessionPromise.then(session => {
+                session.sendClientContent({ turns: context, turnComplete: false });
+              });
+            }
+
+            if (!captureRef.current && streamRef.current) startCapture(streamRef.current);
+          },
+          onmessage: async (message: LiveServerMessage) => {
+            if (!isCurrent()) return;
+            try {
+              if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+                resumptionHandle = message.sessionResumptionUpdate.newHandle;
+              }
+              // The server is about to recycle the socket; move to a new one before it drops.
+              if (message.goAway) {
+                reconnect();
+                return;
+              }
+
+              if (message.serverContent?.interrupted) {
+                recorder?.cutOutput(performance.now());
+                flushPlayback();
+                setDucked(false);
+                flushTurn(true);
+              }
+
+              const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+              if (base64Audio && outputAudioContextRef.current?.state === 'running' && outputGainRef.current) {
+                const generation = playbackGenerationRef.current;
+                const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContextRef.current);
+                if (generation !== playbackGenerationRef.current || !outputAudioContextRef.current || !outputGainRef.current) return;
+                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputAudioContextRef.current.currentTime);
+                const sourceNode = outputAudioContextRef.current.createBufferSource();
+                sourceNode.buffer = audioBuffer;
+                sourceNode.connect(outputGainRef.current);
+                sourceNode.addEventListener('ended', () => sourcesRef.current.delete(sourceNode));
+                sourceNode.start(nextStartTimeRef.current);
+                const startsAt = performance.now() + (nextStartTimeRef.current - outputAudioContextRef.current.currentTime) * 1000;
+                recorder?.addOutput(audioBuffer.getChannelData(0), startsAt);
+                if (botTurnStart === null) botTurnStart = startsAt;
+                nextStartTimeRef.current += audioBuffer.duration;
+                sourcesRef.current.add(sourceNode);
+              }
+
+              if (message.serverContent?.inputTranscription) {
+                currentUserTranscription += message.serverContent.inputTranscription.text;
+                userTurnStart ??= performance.now();
+              }
+              if (message.serverContent?.outputTranscription) {
+                currentBotTranscription += message.serverContent.outputTranscription.text;
+                botTurnStart ??= performance.now();
+              }
+
+              if (message.serverContent?.turnComplete) {
+                flushTurn(false);
+              }
+            } catch (err) {
+              console.error('Error processing message:', err);
+              fail(['live.error.generic']);
+            }
+          },
+          onerror: (e: ErrorEvent) => {
+            if (!isCurrent()) return;
+            console.error('Live session error:', e);
+            reconnect();
+          },
+          onclose: () => {
+            if (!isCurrent()) return;
+            reconnect();
+          },
+        }, {
+          resumptionHandle,
+          // A reconnect takes over the dropped socket's metered session.
+          replacesSessionId: meteredSessionRef.current?.sessionId,
+          language: callLanguage,
+          onAllowance: allowance => {
+            const session = { agentName, sessionId: allowance.sessionId };
+            if (!isCurrent()) {
+              endLiveSession(session.agentName, session.sessionId).catch(() => {});
+              return;
+            }
+            // Each new token replaces the last one's session and allowance.
+            meteredSessionRef.current = session;
+            if (quotaTimerRef.current !== null) window.clearTimeout(quotaTimerRef.current);
+            quotaTimerRef.current = null;
+            if (!allowance.limitedByQuota) return;
+            quotaTimerRef.current = window.setTimeout(() => {
+              quotaTimerRef.current = null;
+              setLimit({ limit: 'quota', kind: 'live', until: Date.parse(allowance.resetsAt) });
+              stop();
+            }, Math.max(0, Date.parse(allowance.endsAt) - Date.now()));
+          },
+        });
+        sessionPromiseRef.current = sessionPromise;
+
+        sessionPromise.catch((err) => {
+          if (!isCurrent()) return;
+          // Out of allowance: no point retrying, and the limit replaces the error.
+          const limited = limitFromError(err);
+          if (limited) {
+            setLimit(limited);
+            stop();
+            return;
+          }
+          // A call that never connected is reported at once; a dropped one keeps retrying.
+          if (hasOpened) reconnect();
+          else if (err instanceof ApiError && err.status === 409) fail(['live.error.busy']);
+          else fail(describeError(err));
+        });
+      };
+
+      connect();
+    } catch (err) {
+      console.error('Microphone error:', err);
+      setError(['live.error.microphoneDenied']);
+      isLiveRef.current = false;
+      setStatus('idle');
+    }
+  }, [agentName, fail, flushPlayback, setDucked, stop]);
+
+  const toggleCamera = useCallback(async () => {
+    if (cameraStreamRef.current) {
+      stopCamera();
+      return;
+    }
+    if (!isLiveRef.current) return;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 640 }, height: { ideal: 480 } } });
+      if (!isLiveRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = stream;
+      await video.play();
+
+      cameraStreamRef.current = stream;
+      cameraVideoRef.current = video;
+      setCamera(stream);
+      frameTimerRef.current = window.setInterval(() => {
+        const frame = captureVideoFrame(video, CAMERA_FRAME_MAX_DIMENSION);
+        if (!frame || !sessionOpenRef.current) return;
+        sessionPromiseRef.current?.then((session) => {
+          session.sendRealtimeInput({ media: frame });
+        });
+      }, CAMERA_FRAME_INTERVAL_MS);
+    } catch (err) {
+      console.error('Camera error:', err);
+      setError(['live.error.cameraDenied']);
+    }
+  }, [stopCamera]);
+
+  useEffect(() => {
+    return () => { stop(); };
+  }, [stop]);
+
+  // Closing or reloading the tab never reaches `stop`, so the call's metered
+  // session is ended as the page goes; otherwise it is billed, and blocks the
+  // next call, until it runs out.
+  useEffect(() => {
+    const endOnPageHide = () => {
+      const metered = meteredSessionRef.current;
+      meteredSessionRef.current = null;
+      if (metered) endLiveSession(metered.agentName, metered.sessionId, { keepalive: true }).catch(() => {});
+    };
+    window.addEventListener('pagehide', endOnPageHide);
+    return () => window.removeEventListener('pagehide', endOnPageHide);
+  }, []);
+
+  return {
+    status,
+    error,
+    isLive: status === 'connecting' || status === 'open' || status === 'reconnecting',
+    /** The camera stream while it is on, for a local preview. */
+    camera,
+    /** The recording of the current or last call, when recording was on. */
+    recording,
+    /** Set when a call couldn't start, or was ended, because of a usage limit. */
+    limit,
+    start,
+    stop,
+    toggleCamera,
+  };
+}
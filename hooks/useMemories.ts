@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { deleteMemory, listMemories, updateMemory } from '../services/geminiService';
+import type { Memory } from '../types';
+
+/** Lists what an agent remembers about the user and keeps the list fresh after edits. */
+export function useMemories(agentName: string | null) {
+  const [memories, setMemories] = useState<Memory[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!agentName) {
+      setMemories([]);
+      return;
+    }
+    try {
+      setMemories(await listMemories(agentName));
+    } catch (error) {
+      console.error('Error loading memories:', error);
+    }
+  }, [agentName]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const update = useCallback(async (id: string, text: string) => {
+    if (!agentName) return;
+    await updateMemory(agentName, id, text);
+    await refresh();
+  }, [agentName, refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    if (!agentName) return;
+    await deleteMemory(agentName, id);
+    await refresh();
+  }, [agentName, refresh]);
+
+  return { memories, refresh, update, remove };
+}
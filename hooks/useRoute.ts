@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { parseRoute, routeToPath } from '../services/router';
+import type { Route } from '../services/router';
+
+/**
+ * The current route, kept in sync with the address bar. `navigate` pushes a
+ * history entry unless `replace` is set (for corrections the user shouldn't
+ * have to step back through, like filling in the agent name).
+ */
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const onPopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = useCallback((next: Route, { replace = false }: { replace?: boolean } = {}) => {
+    const path = routeToPath(next);
+    if (path !== window.location.pathname) {
+      if (replace) window.history.replaceState(null, '', path);
+      else window.history.pushState(null, '', path);
+    }
+    setRoute(parseRoute(path));
+  }, []);
+
+  return { route, navigate };
+}
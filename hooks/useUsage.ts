@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getUsage } from '../services/geminiService';
+import type { UsageSummary } from '../types';
+
+/** Today's usage against the daily allowances; `setUsage` takes fresher figures from a reply or a 429. */
+export function useUsage() {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsage(await getUsage());
+    } catch (error) {
+      console.error('Error loading usage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { usage, refresh, setUsage };
+}
@@ -0,0 +1,171 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SESSION_TTL_MS, createFileAccountStore, parseCredentials } from './accounts';
+import { startTestServer, testAgent } from '../test/testServer';
+import type { TestServer } from '../test/testServer';
+import type { AuthSession } from '../types';
+
+const PASSWORD = 'correct horse';
+
+/** Locks an account out the way an operator would, by editing the file. */
+async function disable(file: string, email: string) {
+  const data = JSON.parse(await readFile(file, 'utf8'));
+  data.accounts.find((account: { email: string }) => account.email === email).disabled = true;
+  await writeFile(file, JSON.stringify(data), 'utf8');
+}
+
+describe('parseCredentials', () => {
+  it('accepts a valid body and rejects bad emails and short passwords', () => {
+    expect(parseCredentials({ email: 'asha@example.com', password: PASSWORD })).toEqual({ email: 'asha@example.com', password: PASSWORD });
+    expect(parseCredentials({ email: 'not-an-email', password: PASSWORD })).toBe('"email" must be a valid email address');
+    expect(parseCredentials({ email: 'asha@example.com', password: 'short' })).toMatch(/"password" must be between 8 and/);
+    expect(parseCredentials(null)).toBe('Body must be a JSON object');
+  });
+});
+
+describe('createFileAccountStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'accounts-'));
+    file = path.join(dir, 'accounts.json');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('signs up, signs in with either case of email and looks the token up', async () => {
+    const store = createFileAccountStore(file);
+    const created = await store.signUp(' Asha@Example.com ', PASSWORD, ' Asha ');
+    expect(created?.account).toMatchObject({ email: 'asha@example.com', displayName: 'Asha' });
+
+    const session = await store.signIn('ASHA@example.com', PASSWORD) as AuthSession;
+    expect(session.token).not.toBe(created!.token);
+    expect(await store.lookup(session.token)).toEqual({ status: 'valid', account: created!.account });
+    expect(await store.signUp('asha@example.com', 'another password')).toBeUndefined();
+  });
+
+  it('refuses a wrong password or unknown email', async () => {
+    const store = createFileAccountStore(file);
+    await store.signUp('asha@example.com', PASSWORD);
+
+    expect(await store.signIn('asha@example.com', 'wrong password')).toBeUndefined();
+    expect(await store.signIn('meera@example.com', PASSWORD)).toBeUndefined();
+  });
+
+  it('keeps only hashes on disk, and sessions across restarts', async () => {
+    const { token } = (await createFileAccountStore(file).signUp('asha@example.com', PASSWORD))!;
+
+    const text = await readFile(file, 'utf8');
+    expect(text).not.toContain(token);
+    expect(text).not.toContain(PASSWORD);
+    expect((await createFileAccountStore(file).lookup(token)).status).toBe('valid');
+  });
+
+  it('ends a session on sign-out or once it expires', async () => {
+    const store = createFileAccountStore(file);
+    const first = (await store.signUp('asha@example.com', PASSWORD))!;
+    const second = await store.signIn('asha@example.com', PASSWORD) as AuthSession;
+
+    await store.signOut(first.token);
+    expect(await store.lookup(first.token)).toEqual({ status: 'invalid' });
+    expect((await store.lookup(second.token)).status).toBe('valid');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + SESSION_TTL_MS + 1);
+    expect(await store.lookup(second.token)).toEqual({ status: 'invalid' });
+  });
+
+  it('reports a disabled account on sign-in and lookup', async () => {
+    const { token } = (await createFileAccountStore(file).signUp('asha@example.com', PASSWORD))!;
+    await disable(file, 'asha@example.com');
+    const store = createFileAccountStore(file);
+
+    expect(await store.signIn('asha@example.com', PASSWORD)).toBe('disabled');
+    expect(await store.lookup(token)).toMatchObject({ status: 'disabled' });
+  });
+});
+
+describe('auth routes', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const signUp = (body: object) => server.request('/api/auth/signup', { method: 'POST', body });
+  const signIn = (body: object) => server.request('/api/auth/signin', { method: 'POST', body });
+  const me = (token?: string) => server.request('/api/auth/me', { token });
+
+  it('signs up, signs in and reports who is signed in', async () => {
+    const created = await signUp({ email: 'asha@example.com', password: PASSWORD, displayName: 'Asha' });
+    expect(created.status).toBe(201);
+    const { account } = await created.json();
+
+    const signedIn = await signIn({ email: 'asha@example.com', password: PASSWORD });
+    expect(signedIn.status).toBe(200);
+    const { token } = await signedIn.json();
+    expect(await (await me(token)).json()).toEqual({ account });
+  });
+
+  it('rejects bad bodies, taken emails and wrong passwords', async () => {
+    await signUp({ email: 'asha@example.com', password: PASSWORD });
+
+    expect((await signUp({ email: 'asha@example.com', password: 'short' })).status).toBe(400);
+    expect((await signUp({ email: 'asha@example.com', password: PASSWORD })).status).toBe(409);
+    const wrong = await signIn({ email: 'asha@example.com', password: 'wrong password' });
+    expect(wrong.status).toBe(401);
+    expect(await wrong.json()).toEqual({ error: 'Wrong email or password.' });
+  });
+
+  it('revokes the token on sign-out', async () => {
+    const token = await server.signUp();
+
+    const signedOut = await server.request('/api/auth/signout', { method: 'POST', token });
+
+    expect(signedOut.status).toBe(204);
+    expect((await me(token)).status).toBe(401);
+  });
+
+  it('needs an account for everything but the agent directory', async () => {
+    expect((await server.request('/api/agents')).status).toBe(200);
+    expect((await me()).status).toBe(401);
+    expect((await server.request(`/api/agents/${testAgent.name}/config`)).status).toBe(401);
+    expect((await server.request('/api/usage')).status).toBe(401);
+
+    const token = await server.signUp();
+    expect((await server.request(`/api/agents/${testAgent.name}/config`, { token })).status).toBe(200);
+  });
+
+  it('answers an unknown token with 401 even on public routes', async () => {
+    const response = await server.request('/api/agents', { token: 'not-a-real-token' });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Your session has expired. Please sign in again.' });
+  });
+
+  it('answers a disabled account with 403', async () => {
+    const token = await server.signUp('meera@example.com');
+    const file = path.join(server.dir, 'accounts.json');
+    await disable(file, 'meera@example.com');
+    // A fresh store, as after the operator restarts the server.
+    const restarted = await startTestServer({ accounts: createFileAccountStore(file) });
+
+    try {
+      expect((await restarted.request(`/api/agents/${testAgent.name}/config`, { token })).status).toBe(403);
+      const signedIn = await restarted.request('/api/auth/signin', { method: 'POST', body: { email: 'meera@example.com', password: PASSWORD } });
+      expect(signedIn.status).toBe(403);
+    } finally {
+      await restarted.close();
+    }
+  });
+});
@@ -0,0 +1,165 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import path from 'path';
+import type { Account, AuthSession } from '../types';
+
+/** How long a sign-in lasts before the user has to sign in again. */
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+interface StoredAccount extends Account {
+  /** Hex scrypt hash of the password with `salt`. */
+  passwordHash: string;
+  salt: string;
+  /** Set by an operator to lock the account out; its requests are refused with 403. */
+  disabled?: boolean;
+}
+
+interface StoredSession {
+  /** SHA-256 of the bearer token, so a leaked file can't be replayed. */
+  tokenHash: string;
+  accountId: string;
+  expiresAt: string;
+}
+
+interface AccountsFile {
+  accounts: StoredAccount[];
+  sessions: StoredSession[];
+}
+
+export type SessionLookup =
+  | { status: 'valid'; account: Account }
+  | { status: 'invalid' }
+  | { status: 'disabled'; account: Account };
+
+export interface AccountStore {
+  /** Creates an account and signs it in, or `undefined` when the email is taken. */
+  signUp(email: string, password: string, displayName?: string): Promise<AuthSession | undefined>;
+  /** `undefined` for a wrong email or password; `disabled` for a locked-out account. */
+  signIn(email: string, password: string): Promise<AuthSession | 'disabled' | undefined>;
+  signOut(token: string): Promise<void>;
+  lookup(token: string): Promise<SessionLookup>;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const hashPassword = (password: string, salt: string) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+const toAccount = ({ id, email, displayName, createdAt }: StoredAccount): Account => ({ id, email, displayName, createdAt });
+
+/**
+ * Accounts and their sign-in sessions in one JSON file, held in memory and
+ * written through a queue with an atomic rename, like the memory store.
+ * Expired sessions are dropped whenever the file is next written.
+ */
+export function createFileAccountStore(file: string): AccountStore {
+  let loaded: Promise<AccountsFile> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = () => {
+    loaded ??= readFile(file, 'utf8')
+      .then(text => JSON.parse(text) as AccountsFile)
+      .catch(error => {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { accounts: [], sessions: [] };
+        loaded = null;
+        throw error;
+      });
+    return loaded;
+  };
+
+  const modify = <T>(change: (data: AccountsFile) => T | Promise<T>): Promise<T> => {
+    const next = queue.then(async () => {
+      const data = await load();
+      const result = await change(data);
+      const now = new Date().toISOString();
+      data.sessions = data.sessions.filter(session => session.expiresAt > now);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(`${file}.tmp`, JSON.stringify(data, null, 2), 'utf8');
+      await rename(`${file}.tmp`, file);
+      return result;
+    });
+    queue = next.catch(() => {});
+    return next;
+  };
+
+  const openSession = (data: AccountsFile, account: StoredAccount): AuthSession => {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+    data.sessions.push({ tokenHash: hashToken(token), accountId: account.id, expiresAt });
+    return { token, expiresAt, account: toAccount(account) };
+  };
+
+  return {
+    signUp(email, password, displayName) {
+      return modify(async data => {
+        const normalised = email.trim().toLowerCase();
+        if (data.accounts.some(account => account.email === normalised)) return undefined;
+        const salt = randomBytes(16).toString('hex');
+        const account: StoredAccount = {
+          id: randomUUID(),
+          email: normalised,
+          displayName: displayName?.trim() || undefined,
+          createdAt: new Date().toISOString(),
+          passwordHash: (await hashPassword(password, salt)).toString('hex'),
+          salt,
+        };
+        data.accounts.push(account);
+        return openSession(data, account);
+      });
+    },
+    async signIn(email, password) {
+      const normalised = email.trim().toLowerCase();
+      const account = (await load()).accounts.find(candidate => candidate.email === normalised);
+      // Hash anyway for unknown emails, so timing doesn't reveal which exist.
+      const key = await hashPassword(password, account?.salt ?? 'unknown-account');
+      if (!account || !timingSafeEqual(key, Buffer.from(account.passwordHash, 'hex'))) return undefined;
+      if (account.disabled) return 'disabled';
+      return modify(data => openSession(data, account));
+    },
+    async signOut(token) {
+      const tokenHash = hashToken(token);
+      await modify(data => {
+        data.sessions = data.sessions.filter(session => session.tokenHash !== tokenHash);
+      });
+    },
+    async lookup(token) {
+      const data = await load();
+      const tokenHash = hashToken(token);
+      const session = data.sessions.find(candidate => candidate.tokenHash === tokenHash);
+      if (!session || session.expiresAt <= new Date().toISOString()) return { status: 'invalid' };
+      const account = data.accounts.find(candidate => candidate.id === session.accountId);
+      if (!account) return { status: 'invalid' };
+      return account.disabled ? { status: 'disabled', account: toAccount(account) } : { status: 'valid', account: toAccount(account) };
+    },
+  };
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254;
+export const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 128;
+const MAX_DISPLAY_NAME_LENGTH = 60;
+
+export interface Credentials {
+  email: string;
+  password: string;
+  displayName?: string;
+}
+
+/** Validates a sign-up or sign-in body, returning an error message or the credentials. */
+export function parseCredentials(raw: any): Credentials | string {
+  if (!raw || typeof raw !== 'object') return 'Body must be a JSON object';
+  if (typeof raw.email !== 'string' || raw.email.length > MAX_EMAIL_LENGTH || !EMAIL.test(raw.email.trim())) {
+    return '"email" must be a valid email address';
+  }
+  if (typeof raw.password !== 'string' || raw.password.length < MIN_PASSWORD_LENGTH || raw.password.length > MAX_PASSWORD_LENGTH) {
+    return `"password" must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters`;
+  }
+  if (raw.displayName !== undefined && (typeof raw.displayName !== 'string' || raw.displayName.length > MAX_DISPLAY_NAME_LENGTH)) {
+    return `"displayName" must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`;
+  }
+  return { email: raw.email, password: raw.password, displayName: raw.displayName };
+}
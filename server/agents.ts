@@ -0,0 +1,75 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+
+export interface LiveAgentConfig {
+  model: string;
+  systemInstruction: string;
+  voiceName?: string;
+}
+
+export interface AgentDefinition {
+  name: string;
+  displayName: string;
+  /** Image URL shown next to the agent's name; the UI falls back to initials. */
+  avatar?: string;
+  /** One-line description for the agent picker. */
+  tagline?: string;
+  /** Opening line shown before the first message of a chat or call. */
+  greeting?: string;
+  model: string;
+  chatPrompt?: string;
+  /** Ground chat replies with Google Search and stream back the sources. */
+  groundingSearch: boolean;
+  live: LiveAgentConfig;
+}
+
+export interface AgentRegistry {
+  list(): AgentDefinition[];
+  get(name: string): AgentDefinition | undefined;
+}
+
+function validateAgent(raw: any, file: string): AgentDefinition {
+  if (!raw || typeof raw !== 'object') throw new Error(`${file}: agent definition must be an object`);
+  if (typeof raw.name !== 'string' || !raw.name) throw new Error(`${file}: "name" is required`);
+  if (typeof raw.model !== 'string' || !raw.model) throw new Error(`${file}: "model" is required`);
+  if (!raw.live || typeof raw.live.model !== 'string' || typeof raw.live.systemInstruction !== 'string') {
+    throw new Error(`${file}: "live.model" and "live.systemInstruction" are required`);
+  }
+  const optionalString = (key: string) => (typeof raw[key] === 'string' && raw[key] ? raw[key] : undefined);
+  return {
+    name: raw.name,
+    displayName: typeof raw.displayName === 'string' ? raw.displayName : raw.name,
+    avatar: optionalString('avatar'),
+    tagline: optionalString('tagline'),
+    greeting: optionalString('greeting'),
+    model: raw.model,
+    chatPrompt: optionalString('chatPrompt'),
+    groundingSearch: raw.groundingSearch === true,
+    live: {
+      model: raw.live.model,
+      systemInstruction: raw.live.systemInstruction,
+      voiceName: typeof raw.live.voiceName === 'string' ? raw.live.voiceName : undefined,
+    },
+  };
+}
+
+/**
+ * Loads every `*.json` file in `dir` as an agent definition.
+ * The file name is ignored; the agent is addressed by its `name` field.
+ */
+export async function loadAgents(dir: string): Promise<AgentRegistry> {
+  const files = (await readdir(dir)).filter(file => file.endsWith('.json')).sort();
+  const agents = new Map<string, AgentDefinition>();
+
+  for (const file of files) {
+    const raw = JSON.parse(await readFile(path.join(dir, file), 'utf8'));
+    const agent = validateAgent(raw, file);
+    if (agents.has(agent.name)) throw new Error(`${file}: duplicate agent name "${agent.name}"`);
+    agents.set(agent.name, agent);
+  }
+
+  return {
+    list: () => [...agents.values()],
+    get: (name: string) => agents.get(name),
+  };
+}
@@ -0,0 +1,593 @@
+import express from 'express';
+import cors from 'cors';
+import type { AccountStore } from './accounts';
+import { parseCredentials } from './accounts';
+import type { AgentDefinition, AgentRegistry } from './agents';
+import { parseFeedback } from './feedback';
+import type { FeedbackStore } from './feedback';
+import type { AuditLog } from './audit';
+import { MAX_MEMORY_LENGTH, formatMemories, selectRelevantMemories } from './memory';
+import type { MemoryStore } from './memory';
+import { estimateTokens } from './usage';
+import type { UsageDenial, UsageMeter } from './usage';
+import type { ModerationDirection, ModerationVerdict, Moderator } from './moderation';
+import { LIVE_LANGUAGES, buildAgentLiveConfig, buildTranscribeLiveConfig, isLiveLanguage } from './live';
+import type { LiveSessionGrant } from './live';
+import type { ChatAttachment, ChatTurn, ModelProvider } from './providers';
+import type { Account, MemorySource, SafetyIntervention, StreamResponse, UsageLimitResponse } from '../types';
+
+export interface TranscribeConfig {
+  model: string;
+  systemInstruction: string;
+}
+
+export interface AppOptions {
+  agents: AgentRegistry;
+  provider: ModelProvider;
+  transcribe: TranscribeConfig;
+  feedback: FeedbackStore;
+  moderator: Moderator;
+  audit: AuditLog;
+  memories: MemoryStore;
+  accounts: AccountStore;
+  usage: UsageMeter;
+  corsOrigin?: string;
+}
+
+/**
+ * Accepts both the model's `{ role, text }` shape and the UI's
+ * `{ sender, text }` shape so older clients keep working.
+ */
+function parseHistory(raw: unknown): ChatTurn[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item: unknown): ChatTurn[] => {
+    if (typeof item !== 'object' || item === null || !('text' in item)) return [];
+    const { text } = item;
+    if (typeof text !== 'string' || !text.trim()) return [];
+    const isUser = ('role' in item && item.role === 'user') || ('sender' in item && item.sender === 'user');
+    return [{ role: isUser ? 'user' : 'model', text }];
+  });
+}
+
+const MAX_ATTACHMENTS = 4;
+/** Per image, after base64 decoding. */
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+const MAX_RESUMPTION_HANDLE_LENGTH = 1024;
+/** Longest live transcript turn accepted for moderation. */
+const MAX_MODERATION_TEXT_LENGTH = 8000;
+/** Memories offered to the model per chat reply, chosen by relevance to the prompt. */
+const MAX_CHAT_MEMORIES = 12;
+/** Memories written into a live session's instruction, most recent first. */
+const MAX_LIVE_MEMORIES = 20;
+/** Turns of a voice transcript considered for memory extraction at once. */
+const MAX_EXTRACTION_TURNS = 200;
+/** Longest running summary accepted with a chat request. */
+const MAX_SUMMARY_LENGTH = 4000;
+/** Turns folded into a summary per request; the client sends longer overflows in batches of this many. */
+const MAX_SUMMARY_TURNS = 400;
+/** Transcription is metered as call time, under this name in place of an agent's. */
+const TRANSCRIBE_USAGE_NAME = 'transcribe';
+
+/** The token from an `Authorization: Bearer <token>` header, if one was sent. */
+function readBearerToken(req: express.Request): string | undefined {
+  const match = req.get('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+const LANGUAGE_ERROR = `"language" must be one of: ${Object.keys(LIVE_LANGUAGES).join(', ')}`;
+
+/** Validates chat image attachments, returning an error message for the client on bad input. */
+function parseAttachments(raw: unknown): ChatAttachment[] | string {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) return '"attachments" must be an array';
+  if (raw.length > MAX_ATTACHMENTS) return `At most ${MAX_ATTACHMENTS} attachments are allowed`;
+
+  const attachments: ChatAttachment[] = [];
+  for (const item of raw) {
+    if (!item || typeof item.mimeType !== 'string' || !item.mimeType.startsWith('image/')) {
+      return 'Only image attachments are supported';
+    }
+    if (typeof item.data !== 'string' || !BASE64.test(item.data)) {
+      return 'Attachment "data" must be base64-encoded';
+    }
+    if (Math.floor(item.data.length * 3 / 4) > MAX_ATTACHMENT_BYTES) {
+      return `Attachments must be under ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`;
+    }
+    attachments.push({ mimeType: item.mimeType, data: item.data });
+  }
+  return attachments;
+}
+
+// Added to the agent's chat prompt for a reply to a message flagged as a crisis.
+const CRISIS_GUIDANCE =
+  'The user may be in crisis. Set the persona aside: respond with warmth and care, take what they said seriously, ' +
+  'encourage them to reach out to someone they trust or to a helpline, and do not joke or role-play about it.';
+
+const LIMIT_MESSAGES: Record<UsageDenial['limit'], Record<UsageDenial['kind'], string>> = {
+  quota: {
+    chat: 'You have used up today\'s chat allowance.',
+    live: 'You have used up today\'s call time.',
+  },
+  rate: {
+    chat: 'You are sending messages too quickly. Please wait a moment.',
+    live: 'You are starting calls too quickly. Please wait a moment.',
+  },
+};
+
+// Each open session is billed, so a user runs one call or transcription at a time.
+const LIVE_BUSY_ERROR = 'You already have a call or transcription in progress. End it before starting another.';
+
+/** What the client is told about a verdict; `flag` is only audited. */
+function toIntervention(verdict: ModerationVerdict, direction: ModerationDirection): SafetyIntervention | undefined {
+  if (verdict.action !== 'block' && verdict.action !== 'crisis') return undefined;
+  return { action: verdict.action, direction, category: verdict.category };
+}
+
+export function createApp({ agents, provider, transcribe, feedback, moderator, audit, memories, accounts, usage, corsOrigin }: AppOptions) {
+  const app = express();
+  app.use(cors(corsOrigin ? { origin: corsOrigin } : undefined));
+  // Room for a few inline images on a chat request.
+  app.use(express.json({ limit: '25mb' }));
+
+  const mintGrant = async (model: string, config: LiveSessionGrant['config'], sessionTtlMs?: number): Promise<LiveSessionGrant> => {
+    const { token, expiresAt } = await provider.createLiveToken({ model, config, sessionTtlMs });
+    return { token, expiresAt, model, config };
+  };
+
+  // Opens the metered session and mints its token. A session whose token
+  // could not be minted is closed again at once, so it is neither billed nor
+  // left blocking the retry as a call in progress.
+  const grantLiveSession = async (
+    res: express.Response,
+    accountId: string,
+    usageName: string,
+    model: string,
+    config: LiveSessionGrant['config'],
+    replaces?: string
+  ) => {
+    const allowance = await usage.openLiveSession(accountId, usageName, replaces);
+    if (allowance === 'busy') {
+      res.status(409).json({ error: LIVE_BUSY_ERROR });
+      return;
+    }
+    let grant: LiveSessionGrant;
+    try {
+      grant = await mintGrant(model, config, Date.parse(allowance.endsAt) - Date.now());
+    } catch (error) {
+      await usage.closeLiveSession(accountId, allowance.sessionId);
+      throw error;
+    }
+    res.json({ ...grant, allowance });
+  };
+
+  // The summary and memory calls don't report their tokens, so they are billed
+  // by estimate; like the chat stream, a metering failure is only logged.
+  const billEstimate = (accountId: string, agentName: string, texts: string[]) =>
+    usage.recordChat(accountId, agentName, estimateTokens(texts.join('')))
+      .catch(error => console.error(`Failed to meter ${agentName}:`, error));
+
+  const rejectOverLimit = async (res: express.Response, accountId: string, denial: UsageDenial) => {
+    const body: UsageLimitResponse = {
+      error: LIMIT_MESSAGES[denial.limit][denial.kind],
+      ...denial,
+      usage: await usage.summary(accountId),
+    };
+    res.setHeader('Retry-After', String(Math.ceil(denial.retryAfterMs / 1000)));
+    res.status(429).json(body);
+  };
+
+  // Never fails the request it runs alongside; a missed memory is only logged.
+  const recall = (userId: string, agentName: string) =>
+    memories.list(userId, agentName).catch(error => {
+      console.error(`Failed to load memories for ${agentName}:`, error);
+      return [];
+    });
+
+  const remember = (userId: string, agent: AgentDefinition, transcript: ChatTurn[], source: MemorySource) =>
+    memories.list(userId, agent.name)
+      .then(known => provider.extractMemories({ agent, transcript, known: known.map(memory => memory.text) }))
+      .then(facts => memories.add(userId, agent.name, facts, source));
+
+  // Requests without a token go through anonymously; a token that was sent must be valid.
+  const identify: express.RequestHandler = async (req, res, next) => {
+    const token = readBearerToken(req);
+    if (!token) {
+      next();
+      return;
+    }
+    const session = await accounts.lookup(token);
+    if (session.status === 'invalid') {
+      res.status(401).json({ error: 'Your session has expired. Please sign in again.' });
+      return;
+    }
+    if (session.status === 'disabled') {
+      res.status(403).json({ error: 'This account has been disabled.' });
+      return;
+    }
+    res.locals.account = session.account;
+    next();
+  };
+
+  const requireAccount: express.RequestHandler = (_req, res, next) => {
+    if (!res.locals.account) {
+      res.status(401).json({ error: 'Please sign in to continue.' });
+      return;
+    }
+    next();
+  };
+
+  // Stops billing a call or transcription the client has hung up.
+  const endLiveSession: express.RequestHandler = async (req, res) => {
+    const sessionId = req.body?.sessionId;
+    if (typeof sessionId !== 'string' || !sessionId) {
+      res.status(400).json({ error: '"sessionId" is required' });
+      return;
+    }
+    await usage.closeLiveSession((res.locals.account as Account).id, sessionId);
+    res.status(204).end();
+  };
+
+  const authRouter = express.Router();
+
+  authRouter.post('/signup', async (req, res) => {
+    const credentials = parseCredentials(req.body);
+    if (typeof credentials === 'string') {
+      res.status(400).json({ error: credentials });
+      return;
+    }
+    const session = await accounts.signUp(credentials.email, credentials.password, credentials.displayName);
+    if (!session) {
+      res.status(409).json({ error: 'An account with that email already exists.' });
+      return;
+    }
+    res.status(201).json(session);
+  });
+
+  authRouter.post('/signin', async (req, res) => {
+    const credentials = parseCredentials(req.body);
+    if (typeof credentials === 'string') {
+      res.status(400).json({ error: credentials });
+      return;
+    }
+    const session = await accounts.signIn(credentials.email, credentials.password);
+    if (session === 'disabled') {
+      res.status(403).json({ error: 'This account has been disabled.' });
+      return;
+    }
+    if (!session) {
+      res.status(401).json({ error: 'Wrong email or password.' });
+      return;
+    }
+    res.json(session);
+  });
+
+  authRouter.post('/signout', async (req, res) => {
+    const token = readBearerToken(req);
+    if (token) await accounts.signOut(token);
+    res.status(204).end();
+  });
+
+  authRouter.get('/me', identify, requireAccount, (_req, res) => {
+    res.json({ account: res.locals.account as Account });
+  });
+
+  const agentRouter = express.Router();
+
+  agentRouter.param('name', (req, res, next, name: string) => {
+    const agent = agents.get(name);
+    if (!agent) {
+      res.status(404).json({ error: `Unknown agent "${name}"` });
+      return;
+    }
+    res.locals.agent = agent;
+    next();
+  });
+
+  // The directory is public so the welcome screen can introduce the agents; everything else needs an account.
+  agentRouter.get('/', (_req, res) => {
+    res.json({
+      agents: agents.list().map(({ name, displayName, avatar, tagline }) => ({ name, displayName, avatar, tagline })),
+    });
+  });
+
+  agentRouter.use(requireAccount);
+
+  agentRouter.get('/:name/config', (_req, res) => {
+    const { name, displayName, avatar, tagline, greeting, model, chatPrompt } = res.locals.agent as AgentDefinition;
+    res.json({ name, displayName, avatar, tagline, greeting, model, chatPrompt });
+  });
+
+  agentRouter.get('/:name/live/config', (_req, res) => {
+    const { live } = res.locals.agent as AgentDefinition;
+    res.json(live);
+  });
+
+  agentRouter.post('/:name/live/token', async (req, res) => {
+    const { name, live } = res.locals.agent as AgentDefinition;
+    const handle = req.body?.resumptionHandle;
+    if (handle !== undefined && (typeof handle !== 'string' || !handle || handle.length > MAX_RESUMPTION_HANDLE_LENGTH)) {
+      res.status(400).json({ error: '"resumptionHandle" must be a non-empty string' });
+      return;
+    }
+    const language = req.body?.language;
+    if (language !== undefined && !isLiveLanguage(language)) {
+      res.status(400).json({ error: LANGUAGE_ERROR });
+      return;
+    }
+    const replaces = req.body?.replacesSessionId;
+    if (replaces !== undefined && (typeof replaces !== 'string' || !replaces)) {
+      res.status(400).json({ error: '"replacesSessionId" must be a non-empty string' });
+      return;
+    }
+    const accountId = (res.locals.account as Account).id;
+    const denial = await usage.admit(accountId, 'live');
+    if (denial) {
+      await rejectOverLimit(res, accountId, denial);
+      return;
+    }
+    const known = await recall(accountId, name);
+    const remembered = formatMemories(selectRelevantMemories(known, '', MAX_LIVE_MEMORIES));
+    const config = buildAgentLiveConfig(live, { resumptionHandle: handle, language, memories: remembered });
+    await grantLiveSession(res, accountId, name, live.model, config, replaces);
+  });
+
+  agentRouter.post('/:name/live/end', endLiveSession);
+
+  agentRouter.post('/:name/feedback', async (req, res) => {
+    const agent = res.locals.agent as AgentDefinition;
+    const parsed = parseFeedback(req.body);
+    if (typeof parsed === 'string') {
+      res.status(400).json({ error: parsed });
+      return;
+    }
+    await feedback.record({ ...parsed, agentName: agent.name, receivedAt: new Date().toISOString() });
+    res.status(204).end();
+  });
+
+  agentRouter.post('/:name/chat/stream', async (req, res) => {
+    const agent = res.locals.agent as AgentDefinition;
+    const prompt = req.body?.prompt ?? '';
+    const attachments = parseAttachments(req.body?.attachments);
+    if (typeof attachments === 'string') {
+      res.status(400).json({ error: attachments });
+      return;
+    }
+    if (typeof prompt !== 'string' || (!prompt.trim() && attachments.length === 0)) {
+      res.status(400).json({ error: '"prompt" must be a non-empty string unless images are attached' });
+      return;
+    }
+    const summary = req.body.summary;
+    if (summary !== undefined && (typeof summary !== 'string' || summary.length > MAX_SUMMARY_LENGTH)) {
+      res.status(400).json({ error: `"summary" must be a string of at most ${MAX_SUMMARY_LENGTH} characters` });
+      return;
+    }
+    const userId = (res.locals.account as Account).id;
+    const denial = await usage.admit(userId, 'chat');
+    if (denial) {
+      await rejectOverLimit(res, userId, denial);
+      return;
+    }
+    const conversationId = typeof req.body.conversationId === 'string' ? req.body.conversationId : undefined;
+    const context = { agentName: agent.name, channel: 'chat' as const, conversationId };
+    const inputVerdict = await moderator.moderate(prompt, { ...context, direction: 'input' });
+
+    // One StreamResponse JSON object per line (NDJSON). Failures after this
+    // point are reported as an `error` frame rather than an HTTP status.
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+
+    const writeFrame = (frame: StreamResponse) => res.write(`${JSON.stringify(frame)}\n`);
+    // A client that goes away stops the reply; only what was streamed to it is billed.
+    const disconnect = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) disconnect.abort();
+    });
+
+    const inputIntervention = toIntervention(inputVerdict, 'input');
+    if (inputIntervention) writeFrame({ intervention: inputIntervention });
+    if (inputIntervention?.action === 'block') {
+      res.end();
+      return;
+    }
+    // Memories and the summary of older turns go in as opening exchanges, so
+    // the agent's own prompt stays untouched.
+    const history = parseHistory(req.body.history);
+    const query = [...history.slice(-4).map(turn => turn.text), prompt].join(' ');
+    const remembered = formatMemories(selectRelevantMemories(await recall(userId, agent.name), query, MAX_CHAT_MEMORIES));
+    const modelHistory: ChatTurn[] = [
+      ...(remembered ? [{ role: 'user' as const, text: remembered }, { role: 'model' as const, text: 'I remember.' }] : []),
+      ...(summary?.trim()
+        ? [{ role: 'user' as const, text: `Summary of our conversation so far:\n${summary.trim()}` }, { role: 'model' as const, text: 'Understood.' }]
+        : []),
+      ...history,
+    ];
+    const chatAgent = inputIntervention?.action === 'crisis'
+      ? { ...agent, chatPrompt: agent.chatPrompt ? `${agent.chatPrompt}\n\n${CRISIS_GUIDANCE}` : CRISIS_GUIDANCE }
+      : agent;
+
+    // The reply so far is re-checked as each chunk arrives and withheld from
+    // the chunk that crosses a rule; anything milder is audited once at the end.
+    const outputContext = { ...context, direction: 'output' as const };
+    let reply = '';
+    let outputVerdict: ModerationVerdict = { action: 'allow' };
+    let billedTokens: number | undefined;
+    try {
+      const chunks = provider.streamChat({ agent: chatAgent, prompt, history: modelHistory, attachments, signal: disconnect.signal });
+      for await (const chunk of chunks) {
+        if (disconnect.signal.aborted) break;
+        if (chunk.text) {
+          reply += chunk.text;
+          outputVerdict = await moderator.check(reply, outputContext);
+          const intervention = toIntervention(outputVerdict, 'output');
+          if (intervention) {
+            writeFrame({ intervention });
+            break;
+          }
+        }
+        const frame: StreamResponse = {};
+        if (chunk.text) frame.textChunk = chunk.text;
+        if (chunk.sources?.length) frame.sources = chunk.sources;
+        if (chunk.finishReason) frame.finishReason = chunk.finishReason;
+        if (chunk.totalTokens !== undefined) billedTokens = chunk.totalTokens;
+        if (Object.keys(frame).length > 0) writeFrame(frame);
+      }
+      await moderator.record(outputVerdict, reply, outputContext);
+      // Exchanges the safety layer stepped in on, and replies cut short, are never mined for memories.
+      if (!inputIntervention && outputVerdict.action === 'allow' && !disconnect.signal.aborted && prompt.trim()) {
+        remember(userId, agent, [{ role: 'user', text: prompt }, { role: 'model', text: reply }], 'chat')
+          .catch(error => console.error(`Memory extraction failed for ${agent.name}:`, error));
+      }
+    } catch (error) {
+      if (!disconnect.signal.aborted) {
+        console.error(`Chat stream failed for ${agent.name}:`, error);
+        writeFrame({ error: 'The model failed to respond. Please try again.' });
+      }
+    }
+    // Billed even when the reply failed or was cut off part-way, estimated when the model doesn't say.
+    try {
+      const tokens = billedTokens ?? estimateTokens([...modelHistory.map(turn => turn.text), prompt, reply].join(''));
+      await usage.recordChat(userId, agent.name, tokens);
+      if (!disconnect.signal.aborted) writeFrame({ usage: await usage.summary(userId) });
+    } catch (error) {
+      console.error(`Failed to meter chat for ${agent.name}:`, error);
+    }
+    res.end();
+  });
+
+  // Chats that outgrow the client's history budget have their older turns folded in here.
+  agentRouter.post('/:name/chat/summarize', async (req, res) => {
+    const agent = res.locals.agent as AgentDefinition;
+    const summary = req.body?.summary;
+    if (summary !== undefined && (typeof summary !== 'string' || summary.length > MAX_SUMMARY_LENGTH)) {
+      res.status(400).json({ error: `"summary" must be a string of at most ${MAX_SUMMARY_LENGTH} characters` });
+      return;
+    }
+    const transcript = parseHistory(req.body?.transcript);
+    if (transcript.length === 0 || transcript.length > MAX_SUMMARY_TURNS) {
+      res.status(400).json({ error: `"transcript" must have between 1 and ${MAX_SUMMARY_TURNS} turns` });
+      return;
+    }
+    const userId = (res.locals.account as Account).id;
+    const denial = await usage.admit(userId, 'chat');
+    if (denial) {
+      await rejectOverLimit(res, userId, denial);
+      return;
+    }
+    const next = await provider.summarizeChat({ agent, summary: summary || undefined, transcript });
+    await billEstimate(userId, agent.name, [summary ?? '', ...transcript.map(turn => turn.text), next]);
+    res.json({ summary: next.slice(0, MAX_SUMMARY_LENGTH) });
+  });
+
+  agentRouter.get('/:name/memories', async (req, res) => {
+    const userId = (res.locals.account as Account).id;
+    res.json({ memories: await memories.list(userId, (res.locals.agent as AgentDefinition).name) });
+  });
+
+  agentRouter.patch('/:name/memories/:id', async (req, res) => {
+    const userId = (res.locals.account as Account).id;
+    const text = req.body?.text;
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_MEMORY_LENGTH) {
+      res.status(400).json({ error: `"text" must be a non-empty string of at most ${MAX_MEMORY_LENGTH} characters` });
+      return;
+    }
+    const memory = await memories.update(userId, (res.locals.agent as AgentDefinition).name, req.params.id, text);
+    if (!memory) {
+      res.status(404).json({ error: 'Memory not found' });
+      return;
+    }
+    res.json({ memory });
+  });
+
+  agentRouter.delete('/:name/memories/:id', async (req, res) => {
+    const userId = (res.locals.account as Account).id;
+    if (!(await memories.remove(userId, (res.locals.agent as AgentDefinition).name, req.params.id))) {
+      res.status(404).json({ error: 'Memory not found' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  // Voice calls never pass through the server, so the client submits the transcript when a call ends.
+  agentRouter.post('/:name/memories/extract', async (req, res) => {
+    const userId = (res.locals.account as Account).id;
+    const transcript = parseHistory(req.body?.transcript).slice(-MAX_EXTRACTION_TURNS);
+    if (!transcript.some(turn => turn.role === 'user')) {
+      res.status(400).json({ error: '"transcript" must include at least one user turn' });
+      return;
+    }
+    const denial = await usage.admit(userId, 'chat');
+    if (denial) {
+      await rejectOverLimit(res, userId, denial);
+      return;
+    }
+    const agent = res.locals.agent as AgentDefinition;
+    const added = await remember(userId, agent, transcript, 'voice');
+    await billEstimate(userId, agent.name, [...transcript.map(turn => turn.text), ...added.map(memory => memory.text)]);
+    res.json({ memories: added });
+  });
+
+  // Live audio goes straight to the model, so the client submits each transcribed turn here.
+  agentRouter.post('/:name/moderate', async (req, res) => {
+    const agent = res.locals.agent as AgentDefinition;
+    const { text, direction, conversationId } = req.body ?? {};
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_MODERATION_TEXT_LENGTH) {
+      res.status(400).json({ error: `"text" must be a non-empty string of at most ${MAX_MODERATION_TEXT_LENGTH} characters` });
+      return;
+    }
+    if (direction !== 'input' && direction !== 'output') {
+      res.status(400).json({ error: '"direction" must be "input" or "output"' });
+      return;
+    }
+    const verdict = await moderator.moderate(text, {
+      agentName: agent.name,
+      channel: 'live',
+      direction,
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+    });
+    res.json({ intervention: toIntervention(verdict, direction) ?? null });
+  });
+
+  app.use('/api/auth', authRouter);
+  app.use(identify);
+
+  app.post('/api/safety/age-gate', async (req, res) => {
+    if (req.body?.outcome !== 'declined') {
+      res.status(400).json({ error: '"outcome" must be "declined"' });
+      return;
+    }
+    await audit.record({ type: 'age-gate', outcome: 'declined', recordedAt: new Date().toISOString() });
+    res.status(204).end();
+  });
+
+  app.get('/api/usage', requireAccount, async (_req, res) => {
+    res.json(await usage.summary((res.locals.account as Account).id));
+  });
+
+  app.post('/api/transcribe/token', requireAccount, async (req, res) => {
+    const language = req.body?.language;
+    if (language !== undefined && !isLiveLanguage(language)) {
+      res.status(400).json({ error: LANGUAGE_ERROR });
+      return;
+    }
+    const accountId = (res.locals.account as Account).id;
+    const denial = await usage.admit(accountId, 'live');
+    if (denial) {
+      await rejectOverLimit(res, accountId, denial);
+      return;
+    }
+    const config = buildTranscribeLiveConfig(transcribe.systemInstruction, language);
+    await grantLiveSession(res, accountId, TRANSCRIBE_USAGE_NAME, transcribe.model, config);
+  });
+
+  app.post('/api/transcribe/end', requireAccount, endLiveSession);
+
+  app.use('/api/agents', agentRouter);
+
+  app.use((error: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    console.error('Request failed:', error);
+    if (!res.headersSent) res.status(500).json({ error: 'Internal server error' });
+  });
+
+  return app;
+}
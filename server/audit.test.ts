@@ -0,0 +1,43 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileAuditLog } from './audit';
+import type { AuditEntry } from './audit';
+
+describe('createFileAuditLog', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'audit-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per entry, creating the directory on first write', async () => {
+    const file = path.join(dir, 'logs', 'audit.jsonl');
+    const log = createFileAuditLog(file);
+    const entries: AuditEntry[] = [
+      { type: 'age-gate', outcome: 'declined', recordedAt: '2026-03-10T10:00:00.000Z' },
+      {
+        type: 'moderation',
+        agentName: 'asha',
+        channel: 'chat',
+        direction: 'input',
+        action: 'crisis',
+        category: 'self-harm',
+        source: 'self-harm-explicit',
+        excerpt: 'I want to end it all',
+        recordedAt: '2026-03-10T10:01:00.000Z',
+      },
+    ];
+
+    for (const entry of entries) await log.record(entry);
+
+    const lines = (await readFile(file, 'utf8')).split('\n');
+    expect(lines.pop()).toBe('');
+    expect(lines.map(line => JSON.parse(line))).toEqual(entries);
+  });
+});
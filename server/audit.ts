@@ -0,0 +1,42 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+
+/** A safety intervention on a chat or live message. */
+export interface ModerationAuditEntry {
+  type: 'moderation';
+  agentName: string;
+  channel: 'chat' | 'live';
+  direction: 'input' | 'output';
+  action: 'flag' | 'block' | 'crisis';
+  category: string;
+  /** What decided it: a rule id, or `classifier:<name>`. */
+  source: string;
+  score?: number;
+  conversationId?: string;
+  /** The start of the offending text, for review. */
+  excerpt: string;
+}
+
+/** A visitor who said they are under the minimum age and was turned away. */
+export interface AgeGateAuditEntry {
+  type: 'age-gate';
+  outcome: 'declined';
+}
+
+export type AuditEntry = (ModerationAuditEntry | AgeGateAuditEntry) & { recordedAt: string };
+
+export interface AuditLog {
+  record(entry: AuditEntry): Promise<void>;
+}
+
+/** Appends one JSON line per intervention, so every one can be reviewed later. */
+export function createFileAuditLog(file: string): AuditLog {
+  let ready: Promise<unknown> | null = null;
+  return {
+    async record(entry: AuditEntry) {
+      ready ??= mkdir(path.dirname(file), { recursive: true });
+      await ready;
+      await appendFile(file, `${JSON.stringify(entry)}\n`, 'utf8');
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import type { MessageFeedback } from '../types';
+
+export interface FeedbackEntry extends MessageFeedback {
+  agentName: string;
+  receivedAt: string;
+}
+
+export interface FeedbackStore {
+  record(entry: FeedbackEntry): Promise<void>;
+}
+
+/** Appends one JSON line per feedback event, for offline analysis per agent. */
+export function createFileFeedbackStore(file: string): FeedbackStore {
+  let ready: Promise<unknown> | null = null;
+  return {
+    async record(entry: FeedbackEntry) {
+      ready ??= mkdir(path.dirname(file), { recursive: true });
+      await ready;
+      await appendFile(file, `${JSON.stringify(entry)}\n`, 'utf8');
+    },
+  };
+}
+
+const MAX_REACTION_LENGTH = 16;
+const MAX_TEXT_LENGTH = 4000;
+
+/** Validates a feedback body, returning an error message or the normalised feedback. */
+export function parseFeedback(raw: any): MessageFeedback | string {
+  if (!raw || typeof raw !== 'object') return 'Body must be a JSON object';
+  if (typeof raw.messageId !== 'string' || !raw.messageId) return '"messageId" is required';
+  if (raw.rating !== undefined && raw.rating !== null && raw.rating !== 'up' && raw.rating !== 'down') {
+    return '"rating" must be "up", "down" or null';
+  }
+  if (raw.reaction !== undefined && raw.reaction !== null
+    && (typeof raw.reaction !== 'string' || !raw.reaction || raw.reaction.length > MAX_REACTION_LENGTH)) {
+    return `"reaction" must be a short string or null`;
+  }
+  if (raw.rating === undefined && raw.reaction === undefined) return 'Provide "rating" or "reaction"';
+
+  return {
+    messageId: raw.messageId,
+    conversationId: typeof raw.conversationId === 'string' ? raw.conversationId : undefined,
+    rating: raw.rating,
+    reaction: raw.reaction,
+    messageText: typeof raw.messageText === 'string' ? raw.messageText.slice(0, MAX_TEXT_LENGTH) : undefined,
+  };
+}
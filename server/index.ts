@@ -0,0 +1,74 @@
+/**
+ * Local backend for the frontend in `services/geminiService.ts`.
+ *
+ *   MODEL_PROVIDER=mock|gemini   (default: mock)
+ *   GEMINI_API_KEY               required for MODEL_PROVIDER=gemini
+ *   AGENTS_DIR                   agent definitions (default: ./agents)
+ *   PORT                         (default: 8080)
+ *   CORS_ORIGIN                  restrict CORS to one origin
+ *   TRANSCRIBE_MODEL             live model used by Transcribe mode
+ *   FEEDBACK_FILE                reply feedback log (default: ./data/feedback.jsonl)
+ *   MODERATION_RULES             moderation rules and classifier thresholds (default: ./moderation/rules.json)
+ *   MODERATION_CLASSIFIER        local|none (default: local)
+ *   AUDIT_FILE                   safety intervention log (default: ./data/audit.jsonl)
+ *   MEMORY_DIR                   per-user memories (default: ./data/memories)
+ *   ACCOUNTS_FILE                accounts and sign-in sessions (default: ./data/accounts.json)
+ *   USAGE_FILE                   metered chat tokens and call time (default: ./data/usage.json)
+ *   USAGE_CHAT_TOKENS_PER_DAY    daily chat allowance per user (default: 200000)
+ *   USAGE_LIVE_SECONDS_PER_DAY   daily call time per user (default: 3600)
+ *   USAGE_REQUESTS_PER_MINUTE    chat messages and call starts per user per minute (default: 20)
+ *
+ * Point the frontend at it with VITE_API_URL=http://localhost:8080.
+ */
+import path from 'path';
+import { createFileAccountStore } from './accounts';
+import { loadAgents } from './agents';
+import { createApp } from './app';
+import { createFileFeedbackStore } from './feedback';
+import { createFileAuditLog } from './audit';
+import { createFileMemoryStore } from './memory';
+import { createFileUsageMeter, usageLimitsFromEnv } from './usage';
+import { createClassifier, createModerator, loadModerationConfig } from './moderation';
+import { createProvider } from './providers';
+
+const DEFAULT_TRANSCRIBE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const TRANSCRIBE_INSTRUCTION =
+  'You are a silent dictation service. Do not answer, comment on or repeat what you hear; stay silent.';
+
+async function main() {
+  const agentsDir = path.resolve(process.env.AGENTS_DIR || 'agents');
+  const port = Number(process.env.PORT) || 8080;
+
+  const agents = await loadAgents(agentsDir);
+  const provider = createProvider(process.env.MODEL_PROVIDER);
+  const audit = createFileAuditLog(path.resolve(process.env.AUDIT_FILE || 'data/audit.jsonl'));
+  const moderator = createModerator({
+    config: await loadModerationConfig(path.resolve(process.env.MODERATION_RULES || 'moderation/rules.json')),
+    classifier: createClassifier(process.env.MODERATION_CLASSIFIER),
+    audit,
+  });
+  const app = createApp({
+    agents,
+    provider,
+    transcribe: {
+      model: process.env.TRANSCRIBE_MODEL || DEFAULT_TRANSCRIBE_MODEL,
+      systemInstruction: TRANSCRIBE_INSTRUCTION,
+    },
+    feedback: createFileFeedbackStore(path.resolve(process.env.FEEDBACK_FILE || 'data/feedback.jsonl')),
+    moderator,
+    audit,
+    memories: createFileMemoryStore(path.resolve(process.env.MEMORY_DIR || 'data/memories')),
+    accounts: createFileAccountStore(path.resolve(process.env.ACCOUNTS_FILE || 'data/accounts.json')),
+    usage: createFileUsageMeter(path.resolve(process.env.USAGE_FILE || 'data/usage.json'), usageLimitsFromEnv()),
+    corsOrigin: process.env.CORS_ORIGIN,
+  });
+
+  app.listen(port, () => {
+    console.log(`Server listening on http://localhost:${port} (provider: ${provider.name}, agents: ${agents.list().length})`);
+  });
+}
+
+main().catch(error => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+import { Modality } from '@google/genai';
+import type { LiveConnectConfig } from '@google/genai';
+import type { LiveAgentConfig } from './agents';
+import type { Language, LiveAllowance } from '../types';
+
+/** How long a minted token may be used to open its one session. */
+export const LIVE_TOKEN_NEW_SESSION_TTL_MS = 60 * 1000;
+/** How long a session opened with the token may keep running. */
+export const LIVE_TOKEN_SESSION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * What the browser needs to open one live session. The model and config are
+ * locked into the token, so the client cannot swap in its own prompt.
+ */
+export interface LiveSessionGrant {
+  token: string;
+  expiresAt: string;
+  model: string;
+  config: LiveConnectConfig;
+  /** The metered session; the client ends it by its id. */
+  allowance?: LiveAllowance;
+}
+
+interface LiveLanguageSettings {
+  /** BCP-47 code the agent speaks in. */
+  speechLanguageCode: string;
+  /** Hints for input transcription; Hindi speakers switch into English mid-sentence. */
+  transcriptionLanguageCodes: string[];
+  /** Appended to the agent's prompt so its replies follow the user's choice. */
+  instruction: string;
+}
+
+export const LIVE_LANGUAGES: Record<Language, LiveLanguageSettings> = {
+  en: {
+    speechLanguageCode: 'en-IN',
+    transcriptionLanguageCodes: ['en-IN'],
+    instruction: 'The user has chosen English. Speak in English unless they switch language.',
+  },
+  hi: {
+    speechLanguageCode: 'hi-IN',
+    transcriptionLanguageCodes: ['hi-IN', 'en-IN'],
+    instruction: 'The user has chosen Hindi. Speak in Hindi; mixing in English words the way Hinglish speakers do is fine.',
+  },
+};
+
+export function isLiveLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LIVE_LANGUAGES, value);
+}
+
+export interface AgentLiveOptions {
+  /** The last handle the server issued, to resume that session. */
+  resumptionHandle?: string;
+  /** The user's language; without it the model detects the language itself. */
+  language?: Language;
+  /** What the agent remembers about the user, appended to its instruction. */
+  memories?: string;
+}
+
+/**
+ * Conversations opt into session resumption, so a dropped or recycled socket
+ * can pick up where it left off, and into sliding-window compression, so long
+ * calls are not cut off when the context window fills. A chosen language sets
+ * the voice's speech language and the transcription hints, and memories of
+ * earlier conversations follow the agent's own instruction.
+ */
+export function buildAgentLiveConfig(
+  live: LiveAgentConfig,
+  { resumptionHandle, language, memories }: AgentLiveOptions = {}
+): LiveConnectConfig {
+  const settings = language ? LIVE_LANGUAGES[language] : undefined;
+  const instruction = [live.systemInstruction, memories, settings?.instruction].filter(Boolean).join('\n\n');
+  return {
+    responseModalities: [Modality.AUDIO],
+    systemInstruction: instruction,
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: live.voiceName || 'Puck' } },
+      languageCode: settings?.speechLanguageCode,
+    },
+    inputAudioTranscription: settings ? { languageCodes: settings.transcriptionLanguageCodes } : {},
+    outputAudioTranscription: {},
+    sessionResumption: { handle: resumptionHandle },
+    contextWindowCompression: { slidingWindow: {} },
+  };
+}
+
+export function buildTranscribeLiveConfig(systemInstruction: string, language?: Language): LiveConnectConfig {
+  return {
+    responseModalities: [Modality.AUDIO],
+    systemInstruction,
+    inputAudioTranscription: language ? { languageCodes: LIVE_LANGUAGES[language].transcriptionLanguageCodes } : {},
+  };
+}
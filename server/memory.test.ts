@@ -0,0 +1,156 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MAX_MEMORY_LENGTH, createFileMemoryStore, formatMemories, selectRelevantMemories } from './memory';
+import { startTestServer, testAgent } from '../test/testServer';
+import type { TestServer } from '../test/testServer';
+import type { Memory } from '../types';
+
+const memory = (id: string, text: string, createdAt: string, updatedAt = createdAt): Memory =>
+  ({ id, agentName: 'asha', text, source: 'chat', createdAt, updatedAt });
+
+describe('createFileMemoryStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'memory-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('skips facts already known, ignoring case and punctuation, and keeps them across restarts', async () => {
+    const store = createFileMemoryStore(dir);
+    await store.add('u1', 'asha', ['The user\'s name is Meera.'], 'chat');
+
+    const added = await store.add('u1', 'asha', ['the USER\'S name is meera!!', '  ', 'The user likes chai.', 'The user likes chai!'], 'voice');
+
+    expect(added.map(fact => fact.text)).toEqual(['The user likes chai.']);
+    expect(added[0].source).toBe('voice');
+    expect((await createFileMemoryStore(dir).list('u1', 'asha')).map(fact => fact.text))
+      .toEqual(['The user\'s name is Meera.', 'The user likes chai.']);
+  });
+
+  it('keeps each user\'s and each agent\'s memories apart', async () => {
+    const store = createFileMemoryStore(dir);
+    await store.add('u1', 'asha', ['The user likes chai.'], 'chat');
+
+    expect(await store.add('u1', 'rani', ['The user likes chai.'], 'chat')).toHaveLength(1);
+    expect(await store.list('u2', 'asha')).toEqual([]);
+    expect(await store.list('u1', 'asha')).toHaveLength(1);
+  });
+
+  it('drops the oldest memories past 100 per agent, leaving other agents alone', async () => {
+    const store = createFileMemoryStore(dir);
+    await store.add('u1', 'rani', ['The user lives in Pune.'], 'chat');
+    // Added concurrently, as overlapping extractions would; the queue keeps every write.
+    await Promise.all(Array.from({ length: 105 }, (_, i) => store.add('u1', 'asha', [`Fact number ${i}`], 'chat')));
+
+    const kept = await store.list('u1', 'asha');
+    expect(kept).toHaveLength(100);
+    expect(kept[0].text).toBe('Fact number 5');
+    expect(kept.at(-1)!.text).toBe('Fact number 104');
+    expect(await store.list('u1', 'rani')).toHaveLength(1);
+  });
+
+  it('trims text to the length limit', async () => {
+    const [added] = await createFileMemoryStore(dir).add('u1', 'asha', [`  ${'a'.repeat(MAX_MEMORY_LENGTH + 10)}  `], 'chat');
+    expect(added.text).toHaveLength(MAX_MEMORY_LENGTH);
+  });
+
+  it('updates and removes only the owner\'s memory with that agent', async () => {
+    const store = createFileMemoryStore(dir);
+    const [fact] = await store.add('u1', 'asha', ['The user likes chai.'], 'chat');
+
+    expect(await store.update('u2', 'asha', fact.id, 'Changed')).toBeUndefined();
+    expect(await store.update('u1', 'rani', fact.id, 'Changed')).toBeUndefined();
+    expect(await store.remove('u2', 'asha', fact.id)).toBe(false);
+    expect(await store.remove('u1', 'rani', fact.id)).toBe(false);
+
+    expect(await store.update('u1', 'asha', fact.id, ' The user likes coffee. ')).toMatchObject({ id: fact.id, text: 'The user likes coffee.' });
+    expect(await store.remove('u1', 'asha', fact.id)).toBe(true);
+    expect(await store.list('u1', 'asha')).toEqual([]);
+  });
+});
+
+describe('selectRelevantMemories', () => {
+  const memories = [
+    memory('name', 'The user\'s name is Meera.', '2026-01-01T00:00:00.000Z'),
+    memory('cricket', 'The user loves cricket and plays on Sundays.', '2026-01-02T00:00:00.000Z'),
+    memory('work', 'The user works as a nurse.', '2026-01-03T00:00:00.000Z', '2026-02-01T00:00:00.000Z'),
+    memory('city', 'The user lives in Pune.', '2026-01-04T00:00:00.000Z'),
+  ];
+
+  it('prefers memories sharing words with the query, returned oldest first', () => {
+    const picked = selectRelevantMemories(memories, 'Did you watch the cricket in Pune?', 2);
+    expect(picked.map(fact => fact.id)).toEqual(['cricket', 'city']);
+  });
+
+  it('falls back to the most recently updated, ignoring common words', () => {
+    const picked = selectRelevantMemories(memories, 'What is the user doing?', 2);
+    expect(picked.map(fact => fact.id)).toEqual(['work', 'city']);
+    expect(selectRelevantMemories(memories, '', 10)).toHaveLength(4);
+  });
+
+  it('formats the block given to the model, or nothing at all', () => {
+    expect(formatMemories([])).toBeUndefined();
+    expect(formatMemories(memories.slice(0, 1))).toBe('What you remember about the user from earlier conversations:\n- The user\'s name is Meera.');
+  });
+});
+
+describe('memory routes', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    server = await startTestServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const route = (suffix = '') => `/api/agents/${testAgent.name}/memories${suffix}`;
+
+  it('extracts facts from a call transcript and lists them for that user only', async () => {
+    const token = await server.signUp();
+    const extracted = await server.request(route('/extract'), {
+      method: 'POST',
+      token,
+      body: { transcript: [{ role: 'user', text: 'My name is Meera and I live in Pune.' }, { role: 'model', text: 'Nice to meet you!' }] },
+    });
+
+    expect(extracted.status).toBe(200);
+    const { memories } = await extracted.json();
+    expect(memories.map((fact: Memory) => fact.text)).toEqual(['The user\'s name is Meera.', 'The user lives in Pune.']);
+    expect((await (await server.request(route(), { token })).json()).memories).toEqual(memories);
+    expect((await (await server.request(route(), { token: await server.signUp() })).json()).memories).toEqual([]);
+  });
+
+  it('rejects a transcript with nothing the user said', async () => {
+    const response = await server.request(route('/extract'), {
+      method: 'POST',
+      token: await server.signUp(),
+      body: { transcript: [{ role: 'model', text: 'Hello!' }] },
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('lets only the owner edit or delete a memory', async () => {
+    const owner = await server.signUp();
+    const other = await server.signUp();
+    const { account } = await (await server.request('/api/auth/me', { token: owner })).json();
+    const [fact] = await server.options.memories.add(account.id, testAgent.name, ['The user likes chai.'], 'chat');
+
+    expect((await server.request(route(`/${fact.id}`), { method: 'PATCH', token: other, body: { text: 'Hacked' } })).status).toBe(404);
+    expect((await server.request(route(`/${fact.id}`), { method: 'DELETE', token: other })).status).toBe(404);
+    expect((await server.request(route(`/${fact.id}`), { method: 'PATCH', token: owner, body: { text: '' } })).status).toBe(400);
+
+    const updated = await server.request(route(`/${fact.id}`), { method: 'PATCH', token: owner, body: { text: 'The user likes masala chai.' } });
+    expect(updated.status).toBe(200);
+    expect((await updated.json()).memory.text).toBe('The user likes masala chai.');
+    expect((await server.request(route(`/${fact.id}`), { method: 'DELETE', token: owner })).status).toBe(204);
+    expect((await (await server.request(route(), { token: owner })).json()).memories).toEqual([]);
+  });
+});
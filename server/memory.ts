@@ -0,0 +1,131 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { Memory, MemorySource } from '../types';
+
+/** Oldest memories are dropped once a user has this many with one agent. */
+const MAX_MEMORIES_PER_AGENT = 100;
+export const MAX_MEMORY_LENGTH = 300;
+
+/**
+ * Durable facts about a user (name, preferences, events in their life),
+ * kept per user and agent so each companion remembers its own relationship.
+ */
+export interface MemoryStore {
+  list(userId: string, agentName: string): Promise<Memory[]>;
+  /** Adds facts that aren't already known, returning the ones added. */
+  add(userId: string, agentName: string, texts: string[], source: MemorySource): Promise<Memory[]>;
+  update(userId: string, agentName: string, id: string, text: string): Promise<Memory | undefined>;
+  remove(userId: string, agentName: string, id: string): Promise<boolean>;
+}
+
+const normalise = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * One JSON file per user. Writes for a user are queued so concurrent
+ * extractions can't lose each other's facts, and land via a rename so a crash
+ * never leaves a half-written file.
+ */
+export function createFileMemoryStore(dir: string): MemoryStore {
+  const queues = new Map<string, Promise<unknown>>();
+  const fileFor = (userId: string) => path.join(dir, `${userId}.json`);
+
+  const read = async (userId: string): Promise<Memory[]> => {
+    try {
+      return JSON.parse(await readFile(fileFor(userId), 'utf8')).memories ?? [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const write = async (userId: string, memories: Memory[]) => {
+    await mkdir(dir, { recursive: true });
+    const file = fileFor(userId);
+    await writeFile(`${file}.tmp`, JSON.stringify({ memories }, null, 2), 'utf8');
+    await rename(`${file}.tmp`, file);
+  };
+
+  const modify = <T>(userId: string, change: (memories: Memory[]) => { memories?: Memory[]; result: T }): Promise<T> => {
+    const next = (queues.get(userId) ?? Promise.resolve()).then(async () => {
+      const { memories, result } = change(await read(userId));
+      if (memories) await write(userId, memories);
+      return result;
+    });
+    queues.set(userId, next.catch(() => {}));
+    return next;
+  };
+
+  return {
+    async list(userId, agentName) {
+      return (await read(userId)).filter(memory => memory.agentName === agentName);
+    },
+    add(userId, agentName, texts, source) {
+      return modify(userId, memories => {
+        const known = new Set(memories.filter(memory => memory.agentName === agentName).map(memory => normalise(memory.text)));
+        const now = new Date().toISOString();
+        const added: Memory[] = [];
+        for (const raw of texts) {
+          const text = raw.trim().slice(0, MAX_MEMORY_LENGTH);
+          if (!text || known.has(normalise(text))) continue;
+          known.add(normalise(text));
+          added.push({ id: randomUUID(), agentName, text, source, createdAt: now, updatedAt: now });
+        }
+        if (added.length === 0) return { result: added };
+
+        const mine = [...memories.filter(memory => memory.agentName === agentName), ...added];
+        const kept = new Set(mine.slice(-MAX_MEMORIES_PER_AGENT));
+        return {
+          memories: [...memories, ...added].filter(memory => memory.agentName !== agentName || kept.has(memory)),
+          result: added,
+        };
+      });
+    },
+    update(userId, agentName, id, text) {
+      return modify(userId, memories => {
+        const existing = memories.find(memory => memory.id === id && memory.agentName === agentName);
+        if (!existing) return { result: undefined };
+        const updated = { ...existing, text: text.trim().slice(0, MAX_MEMORY_LENGTH), updatedAt: new Date().toISOString() };
+        return { memories: memories.map(memory => (memory === existing ? updated : memory)), result: updated };
+      });
+    },
+    remove(userId, agentName, id) {
+      return modify(userId, memories => {
+        const remaining = memories.filter(memory => memory.id !== id || memory.agentName !== agentName);
+        return remaining.length === memories.length
+          ? { result: false }
+          : { memories: remaining, result: true };
+      });
+    },
+  };
+}
+
+/** Words too common to say that a memory and the conversation are about the same thing. */
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'is', 'are', 'was', 'to', 'of', 'in', 'on', 'for', 'user', 'users', 'their', 'they', 'my', 'i', 'me', 'you']);
+
+const keywords = (text: string) => new Set(normalise(text).split(' ').filter(word => word.length > 1 && !STOP_WORDS.has(word)));
+
+/**
+ * Picks up to `limit` memories to remind the model of: those sharing the most
+ * words with `query` first, then the most recently updated. Returned oldest
+ * first so they read naturally.
+ */
+export function selectRelevantMemories(memories: Memory[], query: string, limit: number): Memory[] {
+  const wanted = keywords(query);
+  const scored = memories.map(memory => {
+    let overlap = 0;
+    for (const word of keywords(memory.text)) if (wanted.has(word)) overlap++;
+    return { memory, overlap };
+  });
+  scored.sort((a, b) => b.overlap - a.overlap || b.memory.updatedAt.localeCompare(a.memory.updatedAt));
+  return scored
+    .slice(0, limit)
+    .map(({ memory }) => memory)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** The memory block given to the model, or `undefined` when there is nothing to remember. */
+export function formatMemories(memories: Memory[]): string | undefined {
+  if (memories.length === 0) return undefined;
+  return `What you remember about the user from earlier conversations:\n${memories.map(memory => `- ${memory.text}`).join('\n')}`;
+}
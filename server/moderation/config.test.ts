@@ -0,0 +1,49 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { loadModerationConfig, parseModerationConfig } from './config';
+
+const FILE = 'rules.json';
+const rule = (overrides: object = {}) => ({
+  id: 'insults',
+  category: 'harassment',
+  action: 'flag',
+  patterns: ['\\bidiot\\b'],
+  ...overrides,
+});
+
+describe('parseModerationConfig', () => {
+  it('compiles patterns case-insensitively and applies rules both ways by default', () => {
+    const config = parseModerationConfig({ rules: [rule()] }, FILE);
+
+    expect(config.classifier).toEqual([]);
+    expect(config.rules[0]).toMatchObject({ id: 'insults', action: 'flag', appliesTo: ['input', 'output'] });
+    expect(config.rules[0].patterns[0].test('What an IDIOT')).toBe(true);
+  });
+
+  it('matches Devanagari patterns', () => {
+    const config = parseModerationConfig({ rules: [rule({ patterns: ['आत्महत्या कर'] })] }, FILE);
+    expect(config.rules[0].patterns[0].test('मैं आत्महत्या करना चाहता हूँ')).toBe(true);
+  });
+
+  it.each([
+    [{ rules: [rule({ action: 'warn' })] }, /rules\[0\] \(insults\): "action" must be one of flag, block, crisis/],
+    [{ rules: [rule({ appliesTo: [] })] }, /"appliesTo" must list "input" and\/or "output"/],
+    [{ rules: [rule({ patterns: [] })] }, /"patterns" must be a non-empty list/],
+    [{ rules: [rule({ patterns: ['(unclosed'] })] }, /invalid pattern "\(unclosed"/],
+    [{ rules: [rule({ id: '' })] }, /rules\[0\]: "id" is required/],
+    [{ rules: [rule(), rule()] }, /duplicate rule id "insults"/],
+    [{ rules: {} }, /"rules" and "classifier" must be lists/],
+    [{ classifier: [{ category: 'self-harm', threshold: 1.5, action: 'crisis' }] }, /classifier\[0\]: "threshold" must be a number in \(0, 1\]/],
+  ])('rejects %j', (raw, message) => {
+    expect(() => parseModerationConfig(raw, FILE)).toThrow(message);
+  });
+});
+
+describe('loadModerationConfig', () => {
+  it('loads the shipped rules', async () => {
+    const config = await loadModerationConfig(path.resolve(__dirname, '../../moderation/rules.json'));
+
+    expect(config.rules.map(candidate => candidate.id)).toContain('self-harm-explicit');
+    expect(config.classifier.length).toBeGreaterThan(0);
+  });
+});
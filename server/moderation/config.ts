@@ -0,0 +1,84 @@
+import { readFile } from 'fs/promises';
+import type { ClassifierPolicy, ModerationAction, ModerationConfig, ModerationDirection, ModerationRule } from './types';
+
+const ACTIONS: ModerationAction[] = ['flag', 'block', 'crisis'];
+const DIRECTIONS: ModerationDirection[] = ['input', 'output'];
+
+function parseAppliesTo(raw: any, where: string): ModerationDirection[] {
+  if (raw === undefined) return DIRECTIONS;
+  if (!Array.isArray(raw) || raw.length === 0 || !raw.every(item => DIRECTIONS.includes(item))) {
+    throw new Error(`${where}: "appliesTo" must list "input" and/or "output"`);
+  }
+  return raw;
+}
+
+function parseAction(raw: any, where: string): ModerationAction {
+  if (!ACTIONS.includes(raw)) throw new Error(`${where}: "action" must be one of ${ACTIONS.join(', ')}`);
+  return raw;
+}
+
+function parseRule(raw: any, where: string): ModerationRule {
+  if (!raw || typeof raw !== 'object') throw new Error(`${where}: rule must be an object`);
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error(`${where}: "id" is required`);
+  where = `${where} (${raw.id})`;
+  if (typeof raw.category !== 'string' || !raw.category) throw new Error(`${where}: "category" is required`);
+  if (!Array.isArray(raw.patterns) || raw.patterns.length === 0 || !raw.patterns.every((p: unknown) => typeof p === 'string' && p)) {
+    throw new Error(`${where}: "patterns" must be a non-empty list of regular expressions`);
+  }
+  const patterns = raw.patterns.map((pattern: string) => {
+    try {
+      return new RegExp(pattern, 'iu');
+    } catch (error) {
+      throw new Error(`${where}: invalid pattern ${JSON.stringify(pattern)}: ${(error as Error).message}`);
+    }
+  });
+  return {
+    id: raw.id,
+    category: raw.category,
+    action: parseAction(raw.action, where),
+    appliesTo: parseAppliesTo(raw.appliesTo, where),
+    patterns,
+  };
+}
+
+function parsePolicy(raw: any, where: string): ClassifierPolicy {
+  if (!raw || typeof raw !== 'object') throw new Error(`${where}: classifier policy must be an object`);
+  if (typeof raw.category !== 'string' || !raw.category) throw new Error(`${where}: "category" is required`);
+  if (typeof raw.threshold !== 'number' || raw.threshold <= 0 || raw.threshold > 1) {
+    throw new Error(`${where}: "threshold" must be a number in (0, 1]`);
+  }
+  return {
+    category: raw.category,
+    threshold: raw.threshold,
+    action: parseAction(raw.action, where),
+    appliesTo: parseAppliesTo(raw.appliesTo, where),
+  };
+}
+
+/**
+ * Validates a moderation config. Patterns are case-insensitive Unicode
+ * regular expressions; `\b` only works for Latin script, so Devanagari
+ * patterns should match on the words themselves.
+ */
+export function parseModerationConfig(raw: any, file: string): ModerationConfig {
+  if (!raw || typeof raw !== 'object') throw new Error(`${file}: moderation config must be an object`);
+  const rules = raw.rules ?? [];
+  const classifier = raw.classifier ?? [];
+  if (!Array.isArray(rules) || !Array.isArray(classifier)) {
+    throw new Error(`${file}: "rules" and "classifier" must be lists`);
+  }
+  const parsedRules = rules.map((rule: any, index: number) => parseRule(rule, `${file}: rules[${index}]`));
+  const ids = new Set<string>();
+  for (const rule of parsedRules) {
+    if (ids.has(rule.id)) throw new Error(`${file}: duplicate rule id "${rule.id}"`);
+    ids.add(rule.id);
+  }
+  return {
+    rules: parsedRules,
+    classifier: classifier.map((policy: any, index: number) => parsePolicy(policy, `${file}: classifier[${index}]`)),
+  };
+}
+
+export async function loadModerationConfig(file: string): Promise<ModerationConfig> {
+  return parseModerationConfig(JSON.parse(await readFile(file, 'utf8')), file);
+}
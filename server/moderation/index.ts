@@ -0,0 +1,34 @@
+import { createLocalClassifier } from './localClassifier';
+import type { ModerationClassifier } from './types';
+
+export { loadModerationConfig, parseModerationConfig } from './config';
+export { createModerator } from './moderator';
+export type { Moderator, ModeratorOptions } from './moderator';
+export type {
+  ClassifierPolicy,
+  ClassifierScore,
+  ModerationAction,
+  ModerationClassifier,
+  ModerationConfig,
+  ModerationContext,
+  ModerationDirection,
+  ModerationRule,
+  ModerationVerdict,
+} from './types';
+
+/**
+ * Picks a classifier by name. `none` scores nothing, leaving only the
+ * configured rules; leaving the name unset selects the local stand-in.
+ */
+export function createClassifier(name: string | undefined): ModerationClassifier {
+  switch (name) {
+    case 'local':
+    case undefined:
+    case '':
+      return createLocalClassifier();
+    case 'none':
+      return { name: 'none', classify: async () => [] };
+    default:
+      throw new Error(`Unknown MODERATION_CLASSIFIER "${name}"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createLocalClassifier } from './localClassifier';
+
+const scoreOf = async (text: string, category: string) =>
+  (await createLocalClassifier().classify(text)).find(score => score.category === category)?.score;
+
+describe('createLocalClassifier', () => {
+  it('scores an explicit phrase over the crisis threshold in English, Hinglish and Hindi', async () => {
+    expect(await scoreOf('I keep thinking about suicide', 'self-harm')).toBeGreaterThanOrEqual(0.5);
+    expect(await scoreOf('kabhi kabhi khudkushi ka khayal aata hai', 'self-harm')).toBeGreaterThanOrEqual(0.5);
+    expect(await scoreOf('मैं मरना चाहती हूँ', 'self-harm')).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('adds up softer signals, capped at 1', async () => {
+    expect(await scoreOf('I feel hopeless', 'self-harm')).toBeCloseTo(0.15);
+    expect(await scoreOf('I feel hopeless and worthless and I can\'t go on', 'self-harm')).toBeCloseTo(0.6);
+    expect(await scoreOf('I want to die, suicide, kill myself, end it all', 'self-harm')).toBe(1);
+  });
+
+  it('scores every category, and ordinary talk at zero', async () => {
+    const scores = await createLocalClassifier().classify('The monsoon reached Kerala early this year.');
+
+    expect(scores).toEqual([{ category: 'self-harm', score: 0 }, { category: 'harassment', score: 0 }]);
+    expect(await scoreOf('Shut up, you idiot', 'harassment')).toBeCloseTo(0.7);
+  });
+});
@@ -0,0 +1,52 @@
+import type { ClassifierScore, ModerationClassifier } from './types';
+
+interface WeightedTerm {
+  pattern: RegExp;
+  weight: number;
+}
+
+const term = (pattern: string, weight: number): WeightedTerm => ({ pattern: new RegExp(pattern, 'iu'), weight });
+
+// Small English, Hinglish and Hindi lexicons. Each distinct match adds its
+// weight, so one explicit phrase or a few softer signals cross a threshold.
+const LEXICONS: Record<string, WeightedTerm[]> = {
+  'self-harm': [
+    term('\\bsuicid(e|al)\\b', 0.7),
+    term('\\bkill(ing)? myself\\b', 0.7),
+    term('\\bend (it all|my life)\\b', 0.6),
+    term('\\b(khud ?kushi|aatm ?hatya)\\b', 0.7),
+    term('आत्महत्या|ख़ुदकुशी|खुदकुशी', 0.7),
+    term('\\b(hurt|cut|harm)(ing)? myself\\b', 0.6),
+    term('\\bwant(ed)? to die\\b', 0.5),
+    term('\\bmarna chaht[ai]\\b', 0.5),
+    term('मरना चाहत|मर जाना चाहत', 0.5),
+    term('\\bno reason to live\\b', 0.4),
+    term('\\b(jeena|jina) nahi? chaht[ai]\\b', 0.4),
+    term('जीना नहीं चाहत', 0.4),
+    term('\\bbetter off without me\\b', 0.4),
+    term("\\bcan'?t go on\\b", 0.3),
+    term('\\bhopeless\\b', 0.15),
+    term('\\bworthless\\b', 0.15),
+  ],
+  harassment: [
+    term('\\b(idiot|stupid|loser|pathetic)\\b', 0.3),
+    term('\\b(shut up|nobody cares about you)\\b', 0.4),
+    term('\\b(bewakoof|pagal|nalayak)\\b', 0.3),
+  ],
+};
+
+/**
+ * Keyword stand-in for a real classifier: deterministic, offline and good
+ * enough for development and CI, but it misses anything phrased indirectly.
+ */
+export function createLocalClassifier(): ModerationClassifier {
+  return {
+    name: 'local',
+    async classify(text: string): Promise<ClassifierScore[]> {
+      return Object.entries(LEXICONS).map(([category, terms]) => ({
+        category,
+        score: Math.min(1, terms.reduce((sum, { pattern, weight }) => (pattern.test(text) ? sum + weight : sum), 0)),
+      }));
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseModerationConfig } from './config';
+import { createModerator } from './moderator';
+import type { AuditEntry, AuditLog } from '../audit';
+import type { ModerationClassifier, ModerationContext } from './types';
+import type { ChatChunk } from '../providers';
+import { createMockProvider } from '../providers/mock';
+import { readFrames, startTestServer, testAgent } from '../../test/testServer';
+import type { TestServer } from '../../test/testServer';
+
+const config = parseModerationConfig({
+  rules: [
+    { id: 'rude', category: 'harassment', action: 'flag', patterns: ['\\brude\\b'] },
+    { id: 'secret', category: 'secrets', action: 'block', appliesTo: ['output'], patterns: ['\\bpassword\\b'] },
+    { id: 'crisis', category: 'self-harm', action: 'crisis', appliesTo: ['input'], patterns: ['\\bend it all\\b'] },
+  ],
+  classifier: [{ category: 'self-harm', threshold: 0.5, action: 'crisis', appliesTo: ['input'] }],
+}, 'rules.json');
+
+const input: ModerationContext = { agentName: 'asha', channel: 'chat', direction: 'input', conversationId: 'c1' };
+const output: ModerationContext = { ...input, direction: 'output' };
+
+/** Scores self-harm at whatever the test says, and counts the calls. */
+function fakeClassifier(score = 0): ModerationClassifier & { classify: ReturnType<typeof vi.fn> } {
+  return { name: 'fake', classify: vi.fn(async () => [{ category: 'self-harm', score }]) };
+}
+
+function memoryAudit(): AuditLog & { entries: AuditEntry[] } {
+  const entries: AuditEntry[] = [];
+  return { entries, record: async entry => { entries.push(entry); } };
+}
+
+describe('createModerator', () => {
+  it('allows text no rule or policy matches', async () => {
+    const moderator = createModerator({ config, classifier: fakeClassifier(0.2), audit: memoryAudit() });
+    expect(await moderator.check('Hello there', input)).toEqual({ action: 'allow' });
+  });
+
+  it('returns the most severe verdict when several match', async () => {
+    const moderator = createModerator({ config, classifier: fakeClassifier(0.8), audit: memoryAudit() });
+
+    expect(await moderator.check('Sorry to be rude, but I want to end it all', input))
+      .toEqual({ action: 'crisis', category: 'self-harm', source: 'crisis' });
+    expect(await moderator.check('That was rude', input)).toEqual({ action: 'crisis', category: 'self-harm', source: 'classifier:fake', score: 0.8 });
+    expect(await moderator.check('A rude reply with the password', output)).toEqual({ action: 'block', category: 'secrets', source: 'secret' });
+  });
+
+  it('applies rules and policies only in their direction', async () => {
+    const classifier = fakeClassifier(0.9);
+    const moderator = createModerator({ config, classifier, audit: memoryAudit() });
+
+    expect(await moderator.check('I want to end it all', output)).toEqual({ action: 'allow' });
+    // No output policy, so the classifier isn't asked about replies at all.
+    expect(classifier.classify).not.toHaveBeenCalled();
+    const calm = createModerator({ config, classifier: fakeClassifier(0), audit: memoryAudit() });
+    expect(await calm.check('The password is hunter2', input)).toEqual({ action: 'allow' });
+  });
+
+  it('audits every verdict but allow, and survives a failing log', async () => {
+    const audit = memoryAudit();
+    const moderator = createModerator({ config, classifier: fakeClassifier(), audit });
+
+    await moderator.moderate('Hello there', input);
+    await moderator.moderate(`So rude! ${'x'.repeat(300)}`, input);
+
+    expect(audit.entries).toEqual([expect.objectContaining({
+      type: 'moderation',
+      ...input,
+      action: 'flag',
+      category: 'harassment',
+      source: 'rude',
+      excerpt: `So rude! ${'x'.repeat(191)}`,
+    })]);
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = createModerator({ config, classifier: fakeClassifier(), audit: { record: async () => { throw new Error('disk full'); } } });
+    expect(await broken.moderate('So rude!', input)).toMatchObject({ action: 'flag' });
+  });
+});
+
+describe('moderated chat stream', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  const chat = async (prompt: string, token: string) =>
+    readFrames(await server.request(`/api/agents/${testAgent.name}/chat/stream`, { method: 'POST', body: { prompt }, token }));
+
+  it('answers a crisis with an intervention frame, then a reply with crisis guidance', async () => {
+    const mock = createMockProvider();
+    const streamChat = vi.fn(mock.streamChat);
+    server = await startTestServer({ provider: { ...mock, streamChat } });
+
+    const frames = await chat('Some days I just want to end it all', await server.signUp());
+
+    expect(frames[0]).toEqual({ intervention: { action: 'crisis', direction: 'input', category: 'self-harm' } });
+    expect(frames.some(frame => frame.textChunk)).toBe(true);
+    expect(streamChat.mock.calls[0][0].agent.chatPrompt).toMatch(/^You are Asha, a friendly companion\.\n\nThe user may be in crisis/);
+    expect(await server.auditEntries()).toEqual([expect.objectContaining({ action: 'crisis', direction: 'input', source: 'self-harm-explicit' })]);
+  });
+
+  it('withholds a blocked message without asking the model', async () => {
+    const mock = createMockProvider();
+    const streamChat = vi.fn(mock.streamChat);
+    server = await startTestServer({ provider: { ...mock, streamChat } });
+
+    const frames = await chat('I am 15 years old', await server.signUp());
+
+    expect(frames).toEqual([{ intervention: { action: 'block', direction: 'input', category: 'underage' } }]);
+    expect(streamChat).not.toHaveBeenCalled();
+    expect(await server.auditEntries()).toEqual([expect.objectContaining({ action: 'block', source: 'underage-user' })]);
+  });
+
+  it('stops a reply at the chunk that crosses a rule and never sends that chunk', async () => {
+    server = await startTestServer({
+      provider: {
+        ...createMockProvider(),
+        async *streamChat(): AsyncIterable<ChatChunk> {
+          yield { text: 'Here is how to ' };
+          yield { text: 'kill yourself quickly.' };
+          yield { text: ' More detail.' };
+          yield { finishReason: 'STOP' };
+        },
+      },
+    });
+
+    const frames = await chat('Tell me something', await server.signUp());
+
+    expect(frames.filter(frame => frame.textChunk).map(frame => frame.textChunk)).toEqual(['Here is how to ']);
+    expect(frames).toContainEqual({ intervention: { action: 'block', direction: 'output', category: 'self-harm' } });
+    expect(frames.some(frame => frame.finishReason)).toBe(false);
+    expect(frames.at(-1).usage).toBeDefined();
+    expect(await server.auditEntries()).toEqual([expect.objectContaining({
+      action: 'block',
+      direction: 'output',
+      source: 'self-harm-methods',
+      excerpt: 'Here is how to kill yourself quickly.',
+    })]);
+  });
+});
@@ -0,0 +1,72 @@
+import type { AuditLog } from '../audit';
+import type { ModerationClassifier, ModerationConfig, ModerationContext, ModerationVerdict } from './types';
+
+const SEVERITY: Record<ModerationVerdict['action'], number> = { allow: 0, flag: 1, block: 2, crisis: 3 };
+const EXCERPT_LENGTH = 200;
+
+export interface Moderator {
+  /** The most severe verdict from the rules and classifier, with no side effects. */
+  check(text: string, context: ModerationContext): Promise<ModerationVerdict>;
+  /** Writes the audit entry for a verdict other than `allow`. */
+  record(verdict: ModerationVerdict, text: string, context: ModerationContext): Promise<void>;
+  /** `check` then `record`. */
+  moderate(text: string, context: ModerationContext): Promise<ModerationVerdict>;
+}
+
+export interface ModeratorOptions {
+  config: ModerationConfig;
+  classifier: ModerationClassifier;
+  audit: AuditLog;
+}
+
+export function createModerator({ config, classifier, audit }: ModeratorOptions): Moderator {
+  const check = async (text: string, { direction }: ModerationContext): Promise<ModerationVerdict> => {
+    const verdicts: ModerationVerdict[] = [];
+    for (const rule of config.rules) {
+      if (rule.appliesTo.includes(direction) && rule.patterns.some(pattern => pattern.test(text))) {
+        verdicts.push({ action: rule.action, category: rule.category, source: rule.id });
+      }
+    }
+
+    const policies = config.classifier.filter(policy => policy.appliesTo.includes(direction));
+    if (policies.length > 0 && text.trim()) {
+      const scores = await classifier.classify(text);
+      for (const policy of policies) {
+        const score = scores.find(candidate => candidate.category === policy.category)?.score ?? 0;
+        if (score >= policy.threshold) {
+          verdicts.push({ action: policy.action, category: policy.category, source: `classifier:${classifier.name}`, score });
+        }
+      }
+    }
+
+    return verdicts.reduce<ModerationVerdict>(
+      (worst, verdict) => (SEVERITY[verdict.action] > SEVERITY[worst.action] ? verdict : worst),
+      { action: 'allow' }
+    );
+  };
+
+  const record = async (verdict: ModerationVerdict, text: string, context: ModerationContext) => {
+    if (verdict.action === 'allow') return;
+    // The intervention still applies if the log is unavailable.
+    await audit.record({
+      type: 'moderation',
+      ...context,
+      action: verdict.action,
+      category: verdict.category,
+      source: verdict.source,
+      score: verdict.score,
+      excerpt: text.slice(0, EXCERPT_LENGTH),
+      recordedAt: new Date().toISOString(),
+    }).catch(error => console.error('Failed to write moderation audit entry:', error));
+  };
+
+  return {
+    check,
+    record,
+    async moderate(text, context) {
+      const verdict = await check(text, context);
+      await record(verdict, text, context);
+      return verdict;
+    },
+  };
+}
@@ -0,0 +1,52 @@
+/** `flag` only audits; `block` withholds the message; `crisis` answers with helplines. */
+export type ModerationAction = 'flag' | 'block' | 'crisis';
+
+/** `input` is what the user said, `output` is the agent's reply. */
+export type ModerationDirection = 'input' | 'output';
+
+export interface ModerationRule {
+  id: string;
+  category: string;
+  action: ModerationAction;
+  appliesTo: ModerationDirection[];
+  patterns: RegExp[];
+}
+
+/** What to do when the classifier scores a category at or above `threshold`. */
+export interface ClassifierPolicy {
+  category: string;
+  threshold: number;
+  action: ModerationAction;
+  appliesTo: ModerationDirection[];
+}
+
+export interface ModerationConfig {
+  rules: ModerationRule[];
+  classifier: ClassifierPolicy[];
+}
+
+export interface ClassifierScore {
+  category: string;
+  /** Confidence in [0, 1]. */
+  score: number;
+}
+
+/**
+ * Scores text per category. The moderator only talks to classifiers through
+ * this interface, so a hosted model can replace the local keyword stand-in.
+ */
+export interface ModerationClassifier {
+  readonly name: string;
+  classify(text: string): Promise<ClassifierScore[]>;
+}
+
+export interface ModerationContext {
+  agentName: string;
+  channel: 'chat' | 'live';
+  direction: ModerationDirection;
+  conversationId?: string;
+}
+
+export type ModerationVerdict =
+  | { action: 'allow' }
+  | { action: ModerationAction; category: string; source: string; score?: number };
@@ -0,0 +1,106 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { LIVE_TOKEN_NEW_SESSION_TTL_MS, LIVE_TOKEN_SESSION_TTL_MS } from '../live';
+import type { ChatChunk, ChatRequest, ChatSource, ChatSummaryRequest, LiveToken, LiveTokenRequest, MemoryExtractionRequest, ModelProvider } from './types';
+
+// A small, fast model is plenty for pulling facts out of a transcript.
+const MEMORY_MODEL = 'gemini-2.5-flash-lite';
+const MEMORY_INSTRUCTION = [
+  'You maintain long-term memory for a companion app.',
+  'From the transcript, list durable facts about the user worth remembering in later conversations:',
+  'their name, relationships, preferences, plans and important events in their life.',
+  'Write each as a short third-person statement in English, e.g. "The user\'s sister is called Meera."',
+  'Leave out small talk, passing moods, anything about the assistant and anything already known.',
+  'Return an empty list when there is nothing new.',
+].join(' ');
+
+const SUMMARY_MODEL = 'gemini-2.5-flash-lite';
+const SUMMARY_INSTRUCTION = [
+  'You keep the running summary of a long conversation between a user and a companion.',
+  'Fold the new transcript into the existing summary and return the updated summary only.',
+  'Keep what the companion needs to carry on naturally: topics discussed, what the user shared,',
+  'questions still open and anything promised. Drop greetings and small talk.',
+  'Write in the language of the conversation, in at most 200 words.',
+].join(' ');
+
+export function createGeminiProvider(apiKey: string): ModelProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    async *streamChat({ agent, prompt, history, attachments, signal }: ChatRequest): AsyncIterable<ChatChunk> {
+      const promptParts = [
+        ...attachments.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } })),
+        ...(prompt ? [{ text: prompt }] : []),
+      ];
+      const contents = [
+        ...history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        { role: 'user', parts: promptParts },
+      ];
+
+      const stream = await ai.models.generateContentStream({
+        model: agent.model,
+        contents,
+        config: {
+          systemInstruction: agent.chatPrompt,
+          tools: agent.groundingSearch ? [{ googleSearch: {} }] : undefined,
+          abortSignal: signal,
+        },
+      });
+
+      for await (const chunk of stream) {
+        const candidate = chunk.candidates?.[0];
+        const sources = (candidate?.groundingMetadata?.groundingChunks ?? []).flatMap((grounding): ChatSource[] =>
+          grounding.web?.uri ? [{ uri: grounding.web.uri, title: grounding.web.title || grounding.web.uri }] : []
+        );
+        yield {
+          text: chunk.text || undefined,
+          sources: sources.length > 0 ? sources : undefined,
+          finishReason: candidate?.finishReason,
+          totalTokens: chunk.usageMetadata?.totalTokenCount,
+        };
+      }
+    },
+    async createLiveToken({ model, config, sessionTtlMs = LIVE_TOKEN_SESSION_TTL_MS }: LiveTokenRequest): Promise<LiveToken> {
+      const now = Date.now();
+      const expiresAt = new Date(now + Math.min(sessionTtlMs, LIVE_TOKEN_SESSION_TTL_MS)).toISOString();
+      const token = await ai.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime: expiresAt,
+          newSessionExpireTime: new Date(now + LIVE_TOKEN_NEW_SESSION_TTL_MS).toISOString(),
+          liveConnectConstraints: { model, config },
+          httpOptions: { apiVersion: 'v1alpha' },
+        },
+      });
+      if (!token.name) throw new Error('Gemini did not return a token');
+      return { token: token.name, expiresAt };
+    },
+    async extractMemories({ transcript, known }: MemoryExtractionRequest): Promise<string[]> {
+      const lines = transcript.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`).join('\n');
+      const knownBlock = known.length > 0 ? `Already known:\n${known.map(fact => `- ${fact}`).join('\n')}\n\n` : '';
+      const response = await ai.models.generateContent({
+        model: MEMORY_MODEL,
+        contents: `${knownBlock}Transcript:\n${lines}`,
+        config: {
+          systemInstruction: MEMORY_INSTRUCTION,
+          responseMimeType: 'application/json',
+          responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+      });
+      const facts: unknown = JSON.parse(response.text || '[]');
+      return Array.isArray(facts) ? facts.filter((fact): fact is string => typeof fact === 'string') : [];
+    },
+    async summarizeChat({ agent, summary, transcript }: ChatSummaryRequest): Promise<string> {
+      const lines = transcript.map(turn => `${turn.role === 'user' ? 'User' : agent.displayName}: ${turn.text}`).join('\n');
+      const summaryBlock = summary ? `Summary so far:\n${summary}\n\n` : '';
+      const response = await ai.models.generateContent({
+        model: SUMMARY_MODEL,
+        contents: `${summaryBlock}New transcript:\n${lines}`,
+        config: { systemInstruction: SUMMARY_INSTRUCTION },
+      });
+      const text = response.text?.trim();
+      if (!text) throw new Error('Gemini returned an empty summary');
+      return text;
+    },
+  };
+}
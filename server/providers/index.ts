@@ -0,0 +1,36 @@
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import type { ModelProvider } from './types';
+
+export type {
+  ChatAttachment,
+  ChatChunk,
+  ChatRequest,
+  ChatSource,
+  ChatSummaryRequest,
+  ChatTurn,
+  LiveToken,
+  LiveTokenRequest,
+  MemoryExtractionRequest,
+  ModelProvider,
+} from './types';
+
+/**
+ * Picks a provider by name. `gemini` requires `GEMINI_API_KEY`; leaving the
+ * name unset selects the mock.
+ */
+export function createProvider(name: string | undefined, env: NodeJS.ProcessEnv = process.env): ModelProvider {
+  switch (name) {
+    case 'gemini': {
+      const apiKey = env.GEMINI_API_KEY;
+      if (!apiKey) throw new Error('MODEL_PROVIDER=gemini requires GEMINI_API_KEY');
+      return createGeminiProvider(apiKey);
+    }
+    case 'mock':
+    case undefined:
+    case '':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown MODEL_PROVIDER "${name}"`);
+  }
+}
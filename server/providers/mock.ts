@@ -0,0 +1,59 @@
+import { LIVE_TOKEN_SESSION_TTL_MS } from '../live';
+import type { ChatChunk, ChatRequest, ChatSummaryRequest, LiveToken, LiveTokenRequest, MemoryExtractionRequest, ModelProvider } from './types';
+
+// First-person statements the mock turns into memories.
+const MEMORY_PATTERNS: [RegExp, (match: RegExpMatchArray) => string][] = [
+  [/\bmy name is (\p{L}+)/iu, match => `The user's name is ${match[1]}.`],
+  [/\bi live in ([\p{L} ]+?)(?:[.,!?]|$)/iu, match => `The user lives in ${match[1]}.`],
+  [/\bi (?:really )?(?:love|like|enjoy) ([^.,!?]+)/iu, match => `The user likes ${match[1]}.`],
+  [/\bi work as (?:an? )?([^.,!?]+)/iu, match => `The user works as ${match[1]}.`],
+];
+/** The mock bills a token per four characters, close enough to exercise metering. */
+const CHARS_PER_TOKEN = 4;
+/** The mock's summaries keep only their tail, so they stay bounded like a real one. */
+const MOCK_SUMMARY_LENGTH = 600;
+
+/**
+ * Deterministic provider for local development and CI. Replies echo the
+ * prompt word by word so the client's streaming path is exercised, and
+ * agents with grounding enabled get a fixed source.
+ */
+export function createMockProvider(): ModelProvider {
+  return {
+    name: 'mock',
+    async *streamChat({ agent, prompt, history, attachments }: ChatRequest): AsyncIterable<ChatChunk> {
+      const images = attachments.length > 0 ? ` with ${attachments.length} image(s)` : '';
+      const reply = `[${agent.displayName}] You said: "${prompt}"${images} (turn ${history.length + 1})`;
+      for (const word of reply.split(/(?<= )/)) {
+        yield { text: word };
+      }
+      if (agent.groundingSearch) {
+        yield { sources: [{ uri: `https://example.com/mock/${agent.name}`, title: 'Mock source' }] };
+      }
+      const characters = [prompt, reply, ...history.map(turn => turn.text)].join('').length;
+      yield { finishReason: 'STOP', totalTokens: Math.ceil(characters / CHARS_PER_TOKEN) };
+    },
+    async createLiveToken({ sessionTtlMs = LIVE_TOKEN_SESSION_TTL_MS }: LiveTokenRequest): Promise<LiveToken> {
+      return {
+        token: 'mock-live-token',
+        expiresAt: new Date(Date.now() + Math.min(sessionTtlMs, LIVE_TOKEN_SESSION_TTL_MS)).toISOString(),
+      };
+    },
+    async extractMemories({ transcript, known }: MemoryExtractionRequest): Promise<string[]> {
+      const facts = new Set<string>();
+      for (const turn of transcript) {
+        if (turn.role !== 'user') continue;
+        for (const [pattern, toFact] of MEMORY_PATTERNS) {
+          const match = turn.text.match(pattern);
+          if (match) facts.add(toFact(match));
+        }
+      }
+      return [...facts].filter(fact => !known.includes(fact));
+    },
+    async summarizeChat({ summary, transcript }: ChatSummaryRequest): Promise<string> {
+      const said = transcript.filter(turn => turn.role === 'user').map(turn => turn.text).join(' / ');
+      const next = [summary, said && `The user said: ${said}.`].filter(Boolean).join(' ');
+      return next.slice(-MOCK_SUMMARY_LENGTH);
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import type { LiveConnectConfig } from '@google/genai';
+import type { ChatTurn } from '../../types';
+import type { AgentDefinition } from '../agents';
+
+export type { ChatTurn };
+
+/** An inline file sent alongside the prompt; only images are accepted. */
+export interface ChatAttachment {
+  mimeType: string;
+  /** Base64-encoded file contents. */
+  data: string;
+}
+
+export interface ChatRequest {
+  agent: AgentDefinition;
+  prompt: string;
+  history: ChatTurn[];
+  attachments: ChatAttachment[];
+  /** Aborted when the client goes away, so the model stops generating. */
+  signal?: AbortSignal;
+}
+
+export interface ChatSource {
+  uri: string;
+  title: string;
+}
+
+export interface ChatChunk {
+  text?: string;
+  sources?: ChatSource[];
+  finishReason?: string;
+  /** Tokens billed for the whole request so far, prompt and history included, when the model reports it. */
+  totalTokens?: number;
+}
+
+export interface MemoryExtractionRequest {
+  agent: AgentDefinition;
+  transcript: ChatTurn[];
+  /** Facts already remembered, so they aren't extracted again. */
+  known: string[];
+}
+
+export interface ChatSummaryRequest {
+  agent: AgentDefinition;
+  /** The running summary the turns follow on from, if any. */
+  summary?: string;
+  transcript: ChatTurn[];
+}
+
+export interface LiveTokenRequest {
+  model: string;
+  config: LiveConnectConfig;
+  /** How long the session may run, when shorter than `LIVE_TOKEN_SESSION_TTL_MS`. */
+  sessionTtlMs?: number;
+}
+
+export interface LiveToken {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * A model backend. The server only talks to models through this interface so
+ * that local runs and CI can swap in the deterministic mock.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  streamChat(request: ChatRequest): AsyncIterable<ChatChunk>;
+  /**
+   * Mints a short-lived, single-use credential for one live session locked
+   * to `model` and `config`. The long-lived key never leaves the server.
+   */
+  createLiveToken(request: LiveTokenRequest): Promise<LiveToken>;
+  /**
+   * Pulls durable facts about the user (name, preferences, life events) out
+   * of a transcript, as short third-person statements. Small talk and
+   * anything already `known` is left out.
+   */
+  extractMemories(request: MemoryExtractionRequest): Promise<string[]>;
+  /**
+   * Folds older chat turns into the running summary, returning the new
+   * summary: short prose the agent can pick the conversation back up from.
+   */
+  summarizeChat(request: ChatSummaryRequest): Promise<string>;
+}
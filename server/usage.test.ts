@@ -0,0 +1,277 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFileUsageMeter, estimateTokens } from './usage';
+import type { UsageLimits } from './usage';
+import type { ChatChunk, ChatRequest } from './providers';
+import { createMockProvider } from './providers/mock';
+import { readFrames, startTestServer, testAgent } from '../test/testServer';
+import type { TestServer } from '../test/testServer';
+import type { LiveAllowance } from '../types';
+
+const limits: UsageLimits = { chatTokensPerDay: 1000, liveSecondsPerDay: 40 * 60, requestsPerMinute: 3 };
+const START = Date.parse('2026-03-10T22:00:00.000Z');
+const MIDNIGHT = Date.parse('2026-03-11T00:00:00.000Z');
+
+describe('createFileUsageMeter', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'usage-'));
+    file = path.join(dir, 'usage.json');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+  it('turns chat away once the day\'s tokens are used, until UTC midnight', async () => {
+    const meter = createFileUsageMeter(file, limits);
+    await meter.recordChat('a1', 'asha', 600);
+    expect(await meter.admit('a1', 'chat')).toBeUndefined();
+    await meter.recordChat('a1', 'asha', 400);
+
+    expect(await meter.admit('a1', 'chat')).toEqual({ limit: 'quota', kind: 'chat', retryAfterMs: MIDNIGHT - START });
+    // Call time is a separate allowance, and other users are unaffected.
+    expect(await meter.admit('a1', 'live')).toBeUndefined();
+    expect(await meter.admit('a2', 'chat')).toBeUndefined();
+
+    vi.setSystemTime(MIDNIGHT);
+    expect(await meter.admit('a1', 'chat')).toBeUndefined();
+    expect((await meter.summary('a1')).chat.used).toBe(0);
+  });
+
+  it('limits requests per minute across chat and calls', async () => {
+    const meter = createFileUsageMeter(file, limits);
+    expect(await meter.admit('a1', 'chat')).toBeUndefined();
+    advance(10_000);
+    expect(await meter.admit('a1', 'live')).toBeUndefined();
+    expect(await meter.admit('a1', 'chat')).toBeUndefined();
+
+    expect(await meter.admit('a1', 'chat')).toEqual({ limit: 'rate', kind: 'chat', retryAfterMs: 50_000 });
+    advance(50_000);
+    expect(await meter.admit('a1', 'chat')).toBeUndefined();
+  });
+
+  it('bills a call by the clock until it is closed', async () => {
+    const meter = createFileUsageMeter(file, limits);
+    const allowance = await meter.openLiveSession('a1', 'asha') as LiveAllowance;
+    advance(90_000);
+    expect((await meter.summary('a1')).live.used).toBe(90);
+
+    await meter.closeLiveSession('a1', allowance.sessionId);
+    advance(60_000);
+    expect((await meter.summary('a1')).live.used).toBe(90);
+  });
+
+  it('bills a call that never reports back until it runs out', async () => {
+    const meter = createFileUsageMeter(file, limits);
+    const allowance = await meter.openLiveSession('a1', 'asha') as LiveAllowance;
+    expect(allowance.limitedByQuota).toBe(false);
+    expect(Date.parse(allowance.endsAt) - START).toBe(30 * 60 * 1000);
+
+    advance(60 * 60 * 1000);
+    expect((await meter.summary('a1')).live.used).toBe(30 * 60);
+    // The 10 minutes left are less than a session, so the next one is cut to fit.
+    const next = await meter.openLiveSession('a1', 'asha') as LiveAllowance;
+    expect(next.limitedByQuota).toBe(true);
+    expect(Date.parse(next.endsAt) - Date.now()).toBe(10 * 60 * 1000);
+  });
+
+  it('allows one call at a time, handing over only to its own reconnect', async () => {
+    const meter = createFileUsageMeter(file, limits);
+    const first = await meter.openLiveSession('a1', 'asha') as LiveAllowance;
+    advance(60_000);
+
+    expect(await meter.openLiveSession('a1', 'asha')).toBe('busy');
+    expect(await meter.openLiveSession('a1', 'transcribe', first.sessionId)).toBe('busy');
+    expect(await meter.openLiveSession('a2', 'asha')).not.toBe('busy');
+
+    const second = await meter.openLiveSession('a1', 'asha', first.sessionId) as LiveAllowance;
+    advance(60_000);
+    // The replaced session stopped at the handover; only the new one runs on.
+    expect((await meter.summary('a1')).live.used).toBe(120);
+    await meter.closeLiveSession('a1', second.sessionId);
+    expect(await meter.openLiveSession('a1', 'asha')).not.toBe('busy');
+  });
+
+  it('keeps totals and open calls across restarts', async () => {
+    await createFileUsageMeter(file, limits).recordChat('a1', 'asha', 250);
+    await createFileUsageMeter(file, limits).openLiveSession('a1', 'asha');
+    advance(30_000);
+
+    const summary = await createFileUsageMeter(file, limits).summary('a1');
+    expect(summary).toEqual({
+      chat: { used: 250, limit: 1000 },
+      live: { used: 30, limit: 40 * 60 },
+      resetsAt: new Date(MIDNIGHT).toISOString(),
+    });
+  });
+});
+
+describe('metered routes', () => {
+  let server: TestServer;
+  let token: string;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const chat = (prompt: string, signal?: AbortSignal) =>
+    server.request(`/api/agents/${testAgent.name}/chat/stream`, { method: 'POST', body: { prompt }, token, signal });
+  const liveToken = (body: object = {}) =>
+    server.request(`/api/agents/${testAgent.name}/live/token`, { method: 'POST', body, token });
+
+  it('bills each reply and reports the new totals in the last frame', async () => {
+    server = await startTestServer({ limits });
+    token = await server.signUp();
+
+    const frames = await readFrames(await chat('Hello there'));
+
+    const billed = frames.at(-1).usage.chat.used;
+    expect(billed).toBeGreaterThan(0);
+    expect(frames.some(frame => frame.finishReason === 'STOP')).toBe(true);
+    await readFrames(await chat('And again'));
+    expect((await (await server.request('/api/usage', { token })).json()).chat.used).toBeGreaterThan(billed);
+  });
+
+  it('answers a spent quota with 429, Retry-After and the current totals', async () => {
+    server = await startTestServer({ limits: { chatTokensPerDay: 10 } });
+    token = await server.signUp();
+    await readFrames(await chat('This reply uses up the whole allowance'));
+
+    const response = await chat('One more?');
+
+    expect(response.status).toBe(429);
+    const body = await response.json();
+    expect(body).toMatchObject({ error: 'You have used up today\'s chat allowance.', limit: 'quota', kind: 'chat' });
+    expect(body.usage.chat.used).toBeGreaterThanOrEqual(10);
+    expect(Number(response.headers.get('Retry-After'))).toBe(Math.ceil(body.retryAfterMs / 1000));
+    expect(Date.now() + body.retryAfterMs).toBeCloseTo(Date.parse(body.usage.resetsAt), -4);
+  });
+
+  it('bills summaries and memory extraction as chat, and refuses them once it is used up', async () => {
+    server = await startTestServer({ limits: { chatTokensPerDay: 40 } });
+    token = await server.signUp();
+    const used = async () => (await (await server.request('/api/usage', { token })).json()).chat.used;
+    const summarize = () => server.request(`/api/agents/${testAgent.name}/chat/summarize`, {
+      method: 'POST',
+      body: { transcript: [{ role: 'user', text: 'We talked about the monsoon.' }, { role: 'model', text: 'It came early.' }] },
+      token,
+    });
+    const extract = () => server.request(`/api/agents/${testAgent.name}/memories/extract`, {
+      method: 'POST',
+      body: { transcript: [{ role: 'user', text: 'My name is Meera and I live in Pune, where the rains came early this year.' }] },
+      token,
+    });
+
+    expect((await summarize()).status).toBe(200);
+    const afterSummary = await used();
+    expect(afterSummary).toBeGreaterThan(0);
+    expect((await extract()).status).toBe(200);
+    expect(await used()).toBeGreaterThan(afterSummary);
+
+    const refused = [await summarize(), await extract()];
+    expect(refused.map(response => response.status)).toEqual([429, 429]);
+    expect(await refused[0].json()).toMatchObject({ limit: 'quota', kind: 'chat' });
+  });
+
+  it('answers too many call starts in a minute with a rate limit', async () => {
+    server = await startTestServer({ limits: { requestsPerMinute: 1 } });
+    token = await server.signUp();
+    expect((await liveToken()).status).toBe(200);
+
+    const response = await liveToken();
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ limit: 'rate', kind: 'live' });
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('meters a call from its token to its end', async () => {
+    server = await startTestServer();
+    token = await server.signUp();
+
+    const grant = await (await liveToken()).json();
+    expect(grant.allowance).toMatchObject({ limitedByQuota: false });
+    expect((await liveToken()).status).toBe(409);
+    const reconnect = await liveToken({ replacesSessionId: grant.allowance.sessionId });
+    expect(reconnect.status).toBe(200);
+
+    const { allowance } = await reconnect.json();
+    const end = await server.request(`/api/agents/${testAgent.name}/live/end`, { method: 'POST', body: { sessionId: allowance.sessionId }, token });
+    expect(end.status).toBe(204);
+    expect((await liveToken()).status).toBe(200);
+  });
+
+  it('closes the session again when its token cannot be minted', async () => {
+    const mock = createMockProvider();
+    const createLiveToken = vi.fn(mock.createLiveToken).mockRejectedValueOnce(new Error('Provider unavailable'));
+    server = await startTestServer({ provider: { ...mock, createLiveToken } });
+    token = await server.signUp();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await liveToken()).status).toBe(500);
+
+    // The retry is not turned away as a call in progress, and nothing was billed.
+    expect((await liveToken()).status).toBe(200);
+    expect((await (await server.request('/api/usage', { token })).json()).live.used).toBe(0);
+    vi.restoreAllMocks();
+  });
+
+  it('meters transcription as call time and needs an account for it', async () => {
+    server = await startTestServer();
+    expect((await server.request('/api/transcribe/token', { method: 'POST', body: {} })).status).toBe(401);
+    token = await server.signUp();
+
+    const response = await server.request('/api/transcribe/token', { method: 'POST', body: {}, token });
+
+    expect(response.status).toBe(200);
+    const { allowance } = await response.json();
+    expect((await liveToken()).status).toBe(409);
+    await server.request('/api/transcribe/end', { method: 'POST', body: { sessionId: allowance.sessionId }, token });
+    expect((await liveToken()).status).toBe(200);
+  });
+
+  it('stops a reply the client walked away from and bills only what was sent', async () => {
+    let stopped = false;
+    const mock = createMockProvider();
+    const extractMemories = vi.fn(mock.extractMemories);
+    server = await startTestServer({
+      limits,
+      provider: {
+        ...mock,
+        extractMemories,
+        async *streamChat({ signal }: ChatRequest): AsyncIterable<ChatChunk> {
+          yield { text: 'Once upon ' };
+          await new Promise(resolve => signal?.addEventListener('abort', resolve));
+          stopped = true;
+          yield { text: 'a time, a very long story followed.' };
+          yield { finishReason: 'STOP', totalTokens: 5000 };
+        },
+      },
+    });
+    token = await server.signUp();
+    const controller = new AbortController();
+
+    const response = await chat('My name is Meera. Tell me a story', controller.signal);
+    const reader = response.body!.getReader();
+    await reader.read();
+    controller.abort();
+
+    await vi.waitFor(async () => {
+      expect((await (await server.request('/api/usage', { token })).json()).chat.used).toBeGreaterThan(0);
+    });
+    expect(stopped).toBe(true);
+    expect((await (await server.request('/api/usage', { token })).json()).chat.used)
+      .toBe(estimateTokens('My name is Meera. Tell me a storyOnce upon '));
+    expect(extractMemories).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { LIVE_TOKEN_SESSION_TTL_MS } from './live';
+import type { LiveAllowance, UsageKind, UsageLimitResponse, UsageSummary } from '../types';
+
+export interface UsageLimits {
+  /** Chat tokens (prompt, history and reply) per user per day. */
+  chatTokensPerDay: number;
+  /** Seconds of live calls per user per day. */
+  liveSecondsPerDay: number;
+  /** Chat messages and live session starts per user per minute. */
+  requestsPerMinute: number;
+}
+
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  chatTokensPerDay: 200_000,
+  liveSecondsPerDay: 60 * 60,
+  requestsPerMinute: 20,
+};
+
+/** Used to bill a reply when the model doesn't report its token count. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** Days of per-agent totals kept for reporting. */
+const RETENTION_DAYS = 31;
+const MINUTE_MS = 60 * 1000;
+
+export type UsageDenial = Pick<UsageLimitResponse, 'limit' | 'kind' | 'retryAfterMs'>;
+
+/** A metered live session; see `openLiveSession`. */
+export interface UsageMeter {
+  summary(accountId: string): Promise<UsageSummary>;
+  /**
+   * Checks the daily quota for `kind` and counts one request against the
+   * per-minute limit. Resolves to `undefined` when the request may go ahead.
+   */
+  admit(accountId: string, kind: UsageKind): Promise<UsageDenial | undefined>;
+  recordChat(accountId: string, agentName: string, tokens: number): Promise<void>;
+  /**
+   * Starts metering a live session. Live clients talk to the model directly,
+   * so an open session is billed by wall-clock time until it is closed or
+   * reaches `endsAt`, whether or not the client reports back. A user has one
+   * session at a time: resolves to `'busy'` while another is open, unless it
+   * is the session named by `replaces`, which a reconnect takes over from.
+   */
+  openLiveSession(accountId: string, agentName: string, replaces?: string): Promise<LiveAllowance | 'busy'>;
+  closeLiveSession(accountId: string, sessionId: string): Promise<void>;
+}
+
+interface AgentUsage {
+  chatTokens: number;
+  liveSeconds: number;
+}
+
+interface OpenLiveSession {
+  id: string;
+  accountId: string;
+  agentName: string;
+  /** Billed up to here, in ms since the epoch. */
+  billedUntil: number;
+  endsAt: number;
+}
+
+interface UsageFile {
+  /** Totals by UTC day (`YYYY-MM-DD`), account and agent. */
+  days: Record<string, Record<string, Record<string, AgentUsage>>>;
+  sessions: OpenLiveSession[];
+}
+
+const dayOf = (time: number) => new Date(time).toISOString().slice(0, 10);
+const nextMidnight = (time: number) => {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+/**
+ * Daily totals and open live sessions in one JSON file, written through a
+ * queue with an atomic rename. The per-minute windows are held in memory
+ * only; a restart simply forgives the last minute.
+ */
+export function createFileUsageMeter(file: string, limits: UsageLimits = DEFAULT_USAGE_LIMITS): UsageMeter {
+  let loaded: Promise<UsageFile> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  const recentRequests = new Map<string, number[]>();
+
+  const load = () => {
+    loaded ??= readFile(file, 'utf8')
+      .then(text => JSON.parse(text) as UsageFile)
+      .catch(error => {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { days: {}, sessions: [] };
+        loaded = null;
+        throw error;
+      });
+    return loaded;
+  };
+
+  const usageFor = (data: UsageFile, time: number, accountId: string, agentName: string): AgentUsage => {
+    const day = (data.days[dayOf(time)] ??= {});
+    const account = (day[accountId] ??= {});
+    return (account[agentName] ??= { chatTokens: 0, liveSeconds: 0 });
+  };
+
+  // Bills open sessions up to `now` and forgets the ones that have run out.
+  const settle = (data: UsageFile, now: number) => {
+    for (const session of data.sessions) {
+      const until = Math.min(now, session.endsAt);
+      if (until > session.billedUntil) {
+        usageFor(data, until, session.accountId, session.agentName).liveSeconds += (until - session.billedUntil) / 1000;
+        session.billedUntil = until;
+      }
+    }
+    data.sessions = data.sessions.filter(session => session.endsAt > now);
+  };
+
+  const modify = <T>(change: (data: UsageFile, now: number) => T): Promise<T> => {
+    const next = queue.then(async () => {
+      const data = await load();
+      const now = Date.now();
+      settle(data, now);
+      const result = change(data, now);
+      const oldest = dayOf(now - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      for (const day of Object.keys(data.days)) if (day < oldest) delete data.days[day];
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(`${file}.tmp`, JSON.stringify(data, null, 2), 'utf8');
+      await rename(`${file}.tmp`, file);
+      return result;
+    });
+    queue = next.catch(() => {});
+    return next;
+  };
+
+  const summarize = (data: UsageFile, now: number, accountId: string): UsageSummary => {
+    const agents = Object.values(data.days[dayOf(now)]?.[accountId] ?? {});
+    return {
+      chat: { used: agents.reduce((sum, usage) => sum + usage.chatTokens, 0), limit: limits.chatTokensPerDay },
+      live: { used: Math.round(agents.reduce((sum, usage) => sum + usage.liveSeconds, 0)), limit: limits.liveSecondsPerDay },
+      resetsAt: new Date(nextMidnight(now)).toISOString(),
+    };
+  };
+
+  return {
+    summary(accountId) {
+      return modify((data, now) => summarize(data, now, accountId));
+    },
+    admit(accountId, kind) {
+      return modify((data, now): UsageDenial | undefined => {
+        const allowance = summarize(data, now, accountId)[kind];
+        if (allowance.used >= allowance.limit) return { limit: 'quota', kind, retryAfterMs: nextMidnight(now) - now };
+
+        const recent = (recentRequests.get(accountId) ?? []).filter(time => time > now - MINUTE_MS);
+        if (recent.length >= limits.requestsPerMinute) {
+          recentRequests.set(accountId, recent);
+          return { limit: 'rate', kind, retryAfterMs: recent[0] + MINUTE_MS - now };
+        }
+        recentRequests.set(accountId, [...recent, now]);
+        return undefined;
+      });
+    },
+    async recordChat(accountId, agentName, tokens) {
+      await modify((data, now) => {
+        usageFor(data, now, accountId, agentName).chatTokens += tokens;
+      });
+    },
+    openLiveSession(accountId, agentName, replaces) {
+      return modify((data, now): LiveAllowance | 'busy' => {
+        const open = data.sessions.filter(session => session.accountId === accountId);
+        const replaced = open.find(session => session.id === replaces && session.agentName === agentName);
+        if (open.some(session => session !== replaced)) return 'busy';
+        if (replaced) {
+          replaced.endsAt = now;
+          data.sessions = data.sessions.filter(session => session !== replaced);
+        }
+
+        const { live, resetsAt } = summarize(data, now, accountId);
+        const remainingMs = Math.max(0, live.limit - live.used) * 1000;
+        const limitedByQuota = remainingMs < LIVE_TOKEN_SESSION_TTL_MS;
+        const session: OpenLiveSession = {
+          id: randomUUID(),
+          accountId,
+          agentName,
+          billedUntil: now,
+          endsAt: now + (limitedByQuota ? remainingMs : LIVE_TOKEN_SESSION_TTL_MS),
+        };
+        data.sessions.push(session);
+        return { sessionId: session.id, endsAt: new Date(session.endsAt).toISOString(), limitedByQuota, resetsAt };
+      });
+    },
+    async closeLiveSession(accountId, sessionId) {
+      await modify((data, now) => {
+        const session = data.sessions.find(candidate => candidate.id === sessionId && candidate.accountId === accountId);
+        if (session) session.endsAt = now;
+        data.sessions = data.sessions.filter(candidate => candidate.endsAt > now);
+      });
+    },
+  };
+}
+
+/** Reads limit overrides from the environment, keeping the defaults for anything unset. */
+export function usageLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): UsageLimits {
+  const read = (name: string, fallback: number) => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) throw new Error(`${name} must be a non-negative number`);
+    return value;
+  };
+  return {
+    chatTokensPerDay: read('USAGE_CHAT_TOKENS_PER_DAY', DEFAULT_USAGE_LIMITS.chatTokensPerDay),
+    liveSecondsPerDay: read('USAGE_LIVE_SECONDS_PER_DAY', DEFAULT_USAGE_LIMITS.liveSecondsPerDay),
+    requestsPerMinute: read('USAGE_REQUESTS_PER_MINUTE', DEFAULT_USAGE_LIMITS.requestsPerMinute),
+  };
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiFetch, apiJson } from './apiClient';
+import { ApiError, AuthError, NetworkError, RateLimitError, ServerError } from './apiErrors';
+import { getSession, startSession, subscribeSession } from './authSession';
+import type { Account } from '../types';
+
+const account: Account = { id: 'a1', email: 'asha@example.com', createdAt: '2026-01-01T00:00:00.000Z' };
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+    new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' }, ...init });
+
+describe('apiFetch', () => {
+    const fetchMock = vi.fn<typeof fetch>();
+
+    beforeEach(() => {
+        vi.stubGlobal('fetch', fetchMock);
+        // No jitter: retries happen immediately.
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+        fetchMock.mockReset();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('returns parsed JSON on success', async () => {
+        fetchMock.mockResolvedValueOnce(json({ agents: [] }));
+        await expect(apiJson('/api/agents')).resolves.toEqual({ agents: [] });
+    });
+
+    it('retries server errors and network failures, then succeeds', async () => {
+        fetchMock
+            .mockResolvedValueOnce(json({ error: 'boom' }, { status: 503 }))
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockResolvedValueOnce(json({ ok: true }));
+
+        await expect(apiJson('/x')).resolves.toEqual({ ok: true });
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry other methods unless asked, since they may have taken effect', async () => {
+        fetchMock.mockImplementation(async () => json({ error: 'busy' }, { status: 503 }));
+        await expect(apiFetch('/x', { method: 'POST', body: {} })).rejects.toBeInstanceOf(ServerError);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        await expect(apiFetch('/x', { method: 'POST', body: {}, retries: 1 })).rejects.toBeInstanceOf(ServerError);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up after the retry budget with a ServerError', async () => {
+        fetchMock.mockImplementation(async () => json({ error: 'still down' }, { status: 500 }));
+        const error = await apiFetch('/x', { retries: 1 }).catch(e => e);
+        expect(error).toBeInstanceOf(ServerError);
+        expect(error.message).toBe('still down');
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry auth or client errors', async () => {
+        fetchMock.mockResolvedValueOnce(json({ error: 'nope' }, { status: 401 }));
+        await expect(apiFetch('/x')).rejects.toBeInstanceOf(AuthError);
+
+        fetchMock.mockResolvedValueOnce(new Response('not json', { status: 404 }));
+        const error = await apiFetch('/x', { errorMessage: 'Missing' }).catch(e => e);
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.message).toBe('Missing');
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports Retry-After on rate limits', async () => {
+        fetchMock.mockImplementation(async () => json({ error: 'slow down' }, { status: 429, headers: { 'Retry-After': '0' } }));
+        const error = await apiFetch('/x', { retries: 0 }).catch(e => e);
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error.retryAfterMs).toBe(0);
+    });
+
+    it('does not retry a used-up quota', async () => {
+        const usage = { error: 'Daily limit reached', limit: 'quota', kind: 'chat', retryAfterMs: 3600000, usage: {} };
+        fetchMock.mockImplementation(async () => json(usage, { status: 429, headers: { 'Retry-After': '3600' } }));
+        const error = await apiFetch('/x').catch(e => e);
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error.retryable).toBe(false);
+        expect(error.usage.kind).toBe('chat');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('wraps connection failures in NetworkError', async () => {
+        fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+        await expect(apiFetch('/x', { retries: 0 })).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('stops immediately when aborted', async () => {
+        const controller = new AbortController();
+        fetchMock.mockImplementation(async () => {
+            controller.abort();
+            throw new DOMException('Aborted', 'AbortError');
+        });
+        const error = await apiFetch('/x', { signal: controller.signal }).catch(e => e);
+        expect(error.name).toBe('AbortError');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends the session token and ends the session when it is refused', async () => {
+        startSession({ token: 'abc', expiresAt: new Date(Date.now() + 60_000).toISOString(), account });
+        const ended = vi.fn();
+        const unsubscribe = subscribeSession(ended);
+        fetchMock
+            .mockResolvedValueOnce(json({}))
+            .mockResolvedValueOnce(json({ error: 'expired' }, { status: 401 }));
+
+        await apiFetch('/x');
+        expect((fetchMock.mock.calls[0][1]?.headers as Record<string, string>).Authorization).toBe('Bearer abc');
+
+        await expect(apiFetch('/y')).rejects.toBeInstanceOf(AuthError);
+        expect(ended).toHaveBeenCalledWith(null, 'expired');
+        expect(getSession()).toBeNull();
+        unsubscribe();
+    });
+});
@@ -0,0 +1,95 @@
+import { AuthError, NetworkError, RateLimitError, errorFromResponse, isAbortError } from './apiErrors';
+import { endSession, getSession } from './authSession';
+
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://aadya.com:8080';
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  signal?: AbortSignal;
+  /**
+   * Extra attempts after the first on network, 429 and 5xx failures. Only GETs
+   * retry unless asked: a POST whose response was lost may still have been
+   * carried out, and billed.
+   */
+  retries?: number;
+  /** Used when the server doesn't send its own `{ error }` message. */
+  errorMessage?: string;
+  /** Lets the request finish after the page is gone, e.g. one sent on `pagehide`. */
+  keepalive?: boolean;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Exponential backoff with full jitter, capped, honouring Retry-After when given. */
+export function backoffDelay(attempt: number, error?: unknown): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  }
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * Sends a request to the backend and returns the successful `Response`.
+ * Requests carry the session token while signed in, and a 401 or 403 for it
+ * ends the session. Non-2xx responses become typed `ApiError`s; transient
+ * failures of GETs are retried with backoff. Aborting the signal rejects with the
+ * abort reason at once.
+ */
+export async function apiFetch(path: string, options: RequestOptions = {}): Promise<Response> {
+  const { method = 'GET', body, signal, retries = method === 'GET' ? 2 : 0, errorMessage = 'Request failed', keepalive } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    let error: unknown;
+    const session = getSession();
+    try {
+      const response = await fetch(`${API_BASE_URL}${path}`, {
+        method,
+        signal,
+        keepalive,
+        headers: {
+          ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (response.ok) return response;
+      error = await errorFromResponse(response, errorMessage);
+      if (error instanceof AuthError && session) endSession(error.status === 403 ? 'forbidden' : 'expired');
+    } catch (fetchError) {
+      if (isAbortError(fetchError) || signal?.aborted) throw fetchError;
+      error = new NetworkError();
+    }
+
+    const retryable = (error as { retryable?: boolean }).retryable === true;
+    // Not worth holding the caller for a limit that won't clear within the backoff cap.
+    const waitTooLong = error instanceof RateLimitError && (error.retryAfterMs ?? 0) > MAX_DELAY_MS;
+    if (!retryable || waitTooLong || attempt >= retries) throw error;
+    await sleep(backoffDelay(attempt, error), signal);
+  }
+}
+
+/** `apiFetch` for endpoints that answer with JSON. */
+export async function apiJson<T>(path: string, options?: RequestOptions): Promise<T> {
+  const response = await apiFetch(path, options);
+  return response.json() as Promise<T>;
+}
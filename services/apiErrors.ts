@@ -0,0 +1,107 @@
+import type { MessageRef } from './i18n';
+import type { UsageLimitResponse } from '../types';
+
+// Typed failures raised by the API client, so the UI can tell "you're offline"
+// apart from "sign in again" or "slow down".
+
+export class ApiError extends Error {
+  /** HTTP status, or 0 when no response was received. */
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, status: number, retryable = false) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/** The request never got a response: offline, DNS, CORS or a dropped connection. */
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the server') {
+    super(message, 0, true);
+    this.name = 'NetworkError';
+  }
+}
+
+/** 401 or 403. */
+export class AuthError extends ApiError {
+  constructor(message: string, status: 401 | 403) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * 429. `retryAfterMs` comes from the Retry-After header when present.
+ * `usage` is set when a daily quota or per-minute limit was hit; a used-up
+ * quota isn't worth retrying.
+ */
+export class RateLimitError extends ApiError {
+  readonly retryAfterMs?: number;
+  readonly usage?: UsageLimitResponse;
+
+  constructor(message: string, retryAfterMs?: number, usage?: UsageLimitResponse) {
+    super(message, 429, usage?.limit !== 'quota');
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+    this.usage = usage;
+  }
+}
+
+/** 5xx. */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status, true);
+    this.name = 'ServerError';
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** Parses a Retry-After header given in seconds or as an HTTP date. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Builds the matching error for a non-2xx response, preferring the server's `{ error }` message. */
+export async function errorFromResponse(response: Response, fallback: string): Promise<ApiError> {
+  let message = fallback;
+  let body: any;
+  try {
+    body = await response.json();
+    if (body && typeof body.error === 'string') message = body.error;
+  } catch {
+    // Not JSON; keep the fallback.
+  }
+
+  if (response.status === 401 || response.status === 403) return new AuthError(message, response.status);
+  if (response.status === 429) {
+    const usage = body && (body.limit === 'quota' || body.limit === 'rate') ? body as UsageLimitResponse : undefined;
+    return new RateLimitError(message, parseRetryAfter(response.headers.get('Retry-After')), usage);
+  }
+  if (response.status >= 500) return new ServerError(message, response.status);
+  return new ApiError(message, response.status);
+}
+
+/**
+ * A short, user-facing explanation for any error thrown by the client, as a
+ * catalog message. Other API errors carry the server's own (English) text.
+ */
+export function describeError(error: unknown): MessageRef {
+  if (error instanceof NetworkError) return ['error.network'];
+  if (error instanceof AuthError) return ['error.auth'];
+  if (error instanceof RateLimitError) {
+    return error.retryAfterMs ? ['error.rateRetry', { seconds: Math.ceil(error.retryAfterMs / 1000) }] : ['error.rate'];
+  }
+  if (error instanceof ServerError) return ['error.server'];
+  if (error instanceof ApiError) return ['error.request', { message: error.message }];
+  return ['error.unknown'];
+}
@@ -0,0 +1,55 @@
+import workletUrl from './pcmCaptureWorklet.ts?worker&url';
+import type { PcmCaptureOptions } from './pcmCaptureWorklet';
+
+/** 2048 samples at 16 kHz is 128 ms of audio per frame sent to the model. */
+const DEFAULT_FRAME_SIZE = 2048;
+
+export interface AudioCapture {
+    context: AudioContext;
+    pause(): Promise<void>;
+    resume(): Promise<void>;
+    stop(): void;
+}
+
+/**
+ * Captures a microphone stream as 16 kHz 16-bit PCM frames using an
+ * AudioWorklet. The context runs at the device's native rate; resampling,
+ * clamping and framing happen off the main thread.
+ */
+export async function startAudioCapture(
+    stream: MediaStream,
+    onFrame: (pcm: Int16Array) => void,
+    frameSize = DEFAULT_FRAME_SIZE
+): Promise<AudioCapture> {
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        await context.audioWorklet.addModule(workletUrl);
+    } catch (error) {
+        context.close().catch(() => {});
+        throw error;
+    }
+
+    const source = context.createMediaStreamSource(stream);
+    const processorOptions: PcmCaptureOptions = { frameSize };
+    const node = new AudioWorkletNode(context, 'pcm-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions,
+    });
+    node.port.onmessage = (event: MessageEvent<Int16Array>) => onFrame(event.data);
+    source.connect(node);
+
+    return {
+        context,
+        pause: () => context.suspend(),
+        resume: () => context.resume(),
+        stop: () => {
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+            context.close().catch(() => {});
+        },
+    };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createBlob,
+    createFrameBatcher,
+    createResampler,
+    decode,
+    decodeAudioData,
+    encode,
+    floatTo16BitPCM,
+    pcm16ToFloat32,
+} from './audioUtils';
+
+describe('encode / decode', () => {
+    it('round-trips arbitrary bytes through base64', () => {
+        const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+        expect(decode(encode(bytes))).toEqual(bytes);
+    });
+});
+
+describe('floatTo16BitPCM', () => {
+    it('maps the full range without wrapping', () => {
+        expect(Array.from(floatTo16BitPCM(Float32Array.from([-1, 0, 1])))).toEqual([-32768, 0, 32767]);
+    });
+
+    it('clamps out-of-range input', () => {
+        expect(Array.from(floatTo16BitPCM(Float32Array.from([-3, 1.5])))).toEqual([-32768, 32767]);
+    });
+});
+
+describe('createBlob', () => {
+    it('encodes clamped little-endian PCM with the input rate', () => {
+        const blob = createBlob(Float32Array.from([2, -2]));
+        expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+        expect(Array.from(decode(blob.data!))).toEqual([0xff, 0x7f, 0x00, 0x80]);
+    });
+});
+
+describe('pcm16ToFloat32', () => {
+    it('respects the byte offset of a view and ignores a trailing odd byte', () => {
+        const backing = Uint8Array.from([0xaa, 0x00, 0x40, 0x00, 0xc0, 0x01]);
+        const samples = pcm16ToFloat32(backing.subarray(1));
+        expect(Array.from(samples)).toEqual([0x4000 / 32768, -0x4000 / 32768]);
+    });
+});
+
+describe('decodeAudioData', () => {
+    it('creates a 24 kHz mono buffer from PCM bytes', async () => {
+        const channel = new Float32Array(2);
+        const ctx = {
+            createBuffer: (channels: number, length: number, sampleRate: number) => ({
+                channels, length, sampleRate, getChannelData: () => channel,
+            }),
+        } as unknown as BaseAudioContext;
+
+        const buffer: any = await decodeAudioData(Uint8Array.from([0x00, 0x40, 0x00, 0xc0]), ctx);
+        expect(buffer).toMatchObject({ channels: 1, length: 2, sampleRate: 24000 });
+        expect(Array.from(channel)).toEqual([0.5, -0.5]);
+    });
+});
+
+describe('createResampler', () => {
+    it('passes audio through unchanged when the rates match', () => {
+        const input = Float32Array.from([0.1, 0.2, 0.3]);
+        expect(createResampler(16000, 16000)(input)).toEqual(input);
+    });
+
+    it('produces the target number of samples across blocks', () => {
+        const resample = createResampler(48000, 16000);
+        let total = 0;
+        for (let block = 0; block < 375; block++) {
+            total += resample(new Float32Array(128)).length;
+        }
+        // One second of 48 kHz audio in 128-sample render quanta.
+        expect(total).toBe(16000);
+    });
+
+    it('handles non-integer ratios without drifting', () => {
+        const resample = createResampler(44100, 16000);
+        let total = 0;
+        for (let i = 0; i < 441; i++) total += resample(new Float32Array(100)).length;
+        expect(Math.abs(total - 16000)).toBeLessThanOrEqual(1);
+    });
+
+    it('preserves a DC signal once the filter has settled', () => {
+        const resample = createResampler(48000, 16000);
+        resample(new Float32Array(128).fill(0.5));
+        const output = resample(new Float32Array(128).fill(0.5));
+        for (const sample of output) expect(sample).toBeCloseTo(0.5, 6);
+    });
+
+    it('attenuates content at the input Nyquist frequency', () => {
+        const resample = createResampler(48000, 16000);
+        const alternating = Float32Array.from({ length: 480 }, (_, i) => (i % 2 ? 1 : -1));
+        const output = resample(alternating).slice(4);
+        expect(Math.max(...output.map(Math.abs))).toBeLessThan(0.34);
+    });
+
+    it('interpolates when upsampling', () => {
+        const output = createResampler(8000, 16000)(Float32Array.from([0, 1, 0]));
+        expect(Array.from(output)).toEqual([0, 0.5, 1, 0.5, 0]);
+    });
+});
+
+describe('createFrameBatcher', () => {
+    it('emits fixed-size frames and keeps the remainder', () => {
+        const batch = createFrameBatcher(4);
+        expect(batch(new Float32Array(3))).toEqual([]);
+
+        const frames = batch(Float32Array.from([0, 0.5, 0.5, 0.5, 0.5, 0.5]));
+        expect(frames).toHaveLength(2);
+        expect(Array.from(frames[0])).toEqual([0, 0, 0, 0]);
+        expect(frames[1]).toHaveLength(4);
+        expect(batch(new Float32Array(0))).toEqual([]);
+    });
+});
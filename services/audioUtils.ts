@@ -0,0 +1,136 @@
+import type { Blob as GeminiBlob } from '@google/genai';
+
+// PCM helpers shared by the live voice modes and the capture worklet. The
+// Live API takes 16 kHz 16-bit mono PCM in and sends 24 kHz 16-bit mono PCM back.
+
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export function encode(bytes: Uint8Array) {
+    let binary = '';
+    const len = bytes.byteLength;
+    for (let i = 0; i < len; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+export function decode(base64: string): Uint8Array {
+    const binaryString = atob(base64);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/** Converts [-1, 1] float samples to 16-bit PCM, clamping so loud input saturates instead of wrapping. */
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
+    const int16 = new Int16Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+        const sample = Math.max(-1, Math.min(1, data[i]));
+        int16[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+    return int16;
+}
+
+export function pcmToBlob(pcm: Int16Array, sampleRate = INPUT_SAMPLE_RATE): GeminiBlob {
+    return {
+        data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+        mimeType: `audio/pcm;rate=${sampleRate}`,
+    };
+}
+
+export function createBlob(data: Float32Array): GeminiBlob {
+    return pcmToBlob(floatTo16BitPCM(data));
+}
+
+/** Reads little-endian 16-bit PCM into floats, ignoring a trailing odd byte. */
+export function pcm16ToFloat32(data: Uint8Array): Float32Array {
+    const frameCount = Math.floor(data.byteLength / 2);
+    const view = new DataView(data.buffer, data.byteOffset, frameCount * 2);
+    const samples = new Float32Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+        samples[i] = view.getInt16(i * 2, true) / 32768.0;
+    }
+    return samples;
+}
+
+export async function decodeAudioData(data: Uint8Array, ctx: BaseAudioContext): Promise<AudioBuffer> {
+    const samples = pcm16ToFloat32(data);
+    const buffer = ctx.createBuffer(1, samples.length, OUTPUT_SAMPLE_RATE);
+    buffer.getChannelData(0).set(samples);
+    return buffer;
+}
+
+/**
+ * Returns a stateful resampler for a continuous stream delivered in blocks.
+ * Downsampling runs a moving-average low-pass first so content above the new
+ * Nyquist frequency is attenuated rather than folded back, then interpolates
+ * linearly. Interpolation position and filter history carry across blocks.
+ */
+export function createResampler(inputRate: number, outputRate: number): (input: Float32Array) => Float32Array {
+    const step = inputRate / outputRate;
+    const taps = step > 1 ? Math.ceil(step) : 1;
+    const history = new Float32Array(taps);
+    let historyIndex = 0;
+    let historySum = 0;
+    let previous = 0;
+    // Position of the next output sample, where 0 is `previous` and 1 is the block's first sample.
+    let position = 1;
+
+    const lowPass = (sample: number) => {
+        historySum += sample - history[historyIndex];
+        history[historyIndex] = sample;
+        historyIndex = (historyIndex + 1) % taps;
+        return historySum / taps;
+    };
+
+    return (input: Float32Array) => {
+        if (inputRate === outputRate) return input.slice();
+
+        const filtered = new Float32Array(input.length + 1);
+        filtered[0] = previous;
+        for (let i = 0; i < input.length; i++) {
+            filtered[i + 1] = taps > 1 ? lowPass(input[i]) : input[i];
+        }
+
+        const output: number[] = [];
+        const last = filtered.length - 1;
+        while (position <= last) {
+            const index = Math.floor(position);
+            const frac = position - index;
+            const next = index < last ? filtered[index + 1] : filtered[index];
+            output.push(filtered[index] + (next - filtered[index]) * frac);
+            position += step;
+        }
+
+        previous = filtered[last];
+        position -= last;
+        return Float32Array.from(output);
+    };
+}
+
+/** Collects samples into fixed-size 16-bit frames, keeping the remainder for the next call. */
+export function createFrameBatcher(frameSize: number): (samples: Float32Array) => Int16Array[] {
+    let pending = new Float32Array(frameSize);
+    let filled = 0;
+
+    return (samples: Float32Array) => {
+        const frames: Int16Array[] = [];
+        let offset = 0;
+        while (offset < samples.length) {
+            const count = Math.min(frameSize - filled, samples.length - offset);
+            pending.set(samples.subarray(offset, offset + count), filled);
+            filled += count;
+            offset += count;
+            if (filled === frameSize) {
+                frames.push(floatTo16BitPCM(pending));
+                pending = new Float32Array(frameSize);
+                filled = 0;
+            }
+        }
+        return frames;
+    };
+}
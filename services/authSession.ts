@@ -0,0 +1,58 @@
+import type { AuthSession } from '../types';
+
+// The signed-in session, kept in localStorage so it survives reloads. The API
+// client reads the token from here and ends the session when the backend
+// rejects it; the auth context listens so the UI can send the user to sign-in.
+
+const SESSION_KEY = 'session';
+
+/** Why a session ended: the user signed out, or the backend refused the token (401) or the account (403). */
+export type SessionEndReason = 'signedOut' | 'expired' | 'forbidden';
+
+type SessionListener = (session: AuthSession | null, reason?: SessionEndReason) => void;
+
+const listeners = new Set<SessionListener>();
+let current: AuthSession | null | undefined;
+
+function readSession(): AuthSession | null {
+  try {
+    const saved = localStorage.getItem(SESSION_KEY);
+    return saved ? JSON.parse(saved) as AuthSession : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The current session, or `null` when signed out or once its token has lapsed. */
+export function getSession(): AuthSession | null {
+  current ??= readSession();
+  if (current && Date.parse(current.expiresAt) <= Date.now()) endSession('expired');
+  return current;
+}
+
+export function startSession(session: AuthSession): void {
+  current = session;
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    // Not persisted; the user stays signed in for this visit only.
+  }
+  listeners.forEach(listener => listener(session));
+}
+
+export function endSession(reason: SessionEndReason): void {
+  if (current === null) return;
+  current = null;
+  try {
+    localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Nothing was persisted.
+  }
+  listeners.forEach(listener => listener(null, reason));
+}
+
+/** Calls `listener` whenever the user signs in or the session ends. Returns an unsubscribe function. */
+export function subscribeSession(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { createCallRecorder, cuesToJson, cuesToWebVtt, encodeWav, formatVttTimestamp } from './callRecorder';
+
+const NAMES = { user: 'You', bot: 'Rani' };
+
+describe('createCallRecorder', () => {
+    it('places agent audio at its scheduled time on the timeline', () => {
+        const recorder = createCallRecorder(1000, 1000);
+        recorder.addOutput(new Float32Array([1, -1]), 1003);
+        expect(Array.from(recorder.mix())).toEqual([0, 0, 0, 32767, -32768]);
+    });
+
+    it('lays contiguous mic frames end to end and mixes them with agent audio', () => {
+        const recorder = createCallRecorder(0, 16000);
+        const frame = new Int16Array(160).fill(16384);
+        recorder.addInput(frame, 10);
+        recorder.addInput(frame, 21);
+        recorder.addOutput(new Float32Array(320).fill(0.25), 0);
+        const mixed = recorder.mix();
+        expect(mixed.length).toBe(320);
+        expect(mixed[0] / 32768).toBeCloseTo(0.75, 3);
+        expect(mixed[319] / 32768).toBeCloseTo(0.75, 3);
+    });
+
+    it('clips where both sides are loud instead of wrapping around', () => {
+        const recorder = createCallRecorder(0, 16000);
+        recorder.addInput(new Int16Array(160).fill(-32768), 10);
+        recorder.addInput(new Int16Array(160).fill(32767), 20);
+        recorder.addOutput(new Float32Array(160).fill(-1), 0);
+        recorder.addOutput(new Float32Array(160).fill(1), 10);
+        const mixed = recorder.mix();
+        expect(mixed[0]).toBe(-32768);
+        expect(mixed[200]).toBe(32767);
+    });
+
+    it('starts a new run of mic audio after a gap', () => {
+        const recorder = createCallRecorder(0, 16000);
+        const frame = new Int16Array(160).fill(16384);
+        recorder.addInput(frame, 10);
+        recorder.addInput(frame, 1010);
+        const mixed = recorder.mix();
+        expect(mixed.length).toBe(16160);
+        expect(mixed[500]).toBe(0);
+    });
+
+    it('drops agent audio after an interruption', () => {
+        const recorder = createCallRecorder(0, 1000);
+        recorder.addOutput(new Float32Array(10).fill(1), 0);
+        recorder.addOutput(new Float32Array(10).fill(1), 10);
+        recorder.cutOutput(4);
+        expect(Array.from(recorder.mix())).toEqual([32767, 32767, 32767, 32767]);
+    });
+
+    it('stores cues relative to the start and never ending before they begin', () => {
+        const recorder = createCallRecorder(500);
+        recorder.addCue('user', 'Hi', 1500, 2500);
+        recorder.addCue('bot', 'Hello', 3000, 2900);
+        expect(recorder.cues).toEqual([
+            { speaker: 'user', text: 'Hi', startMs: 1000, endMs: 2000 },
+            { speaker: 'bot', text: 'Hello', startMs: 2500, endMs: 2500 },
+        ]);
+    });
+});
+
+describe('encodeWav', () => {
+    it('writes a mono 16-bit PCM header followed by the samples', () => {
+        const view = new DataView(encodeWav(new Int16Array([0, 32767, -32768]), 24000));
+        const text = (offset: number, length: number) =>
+            String.fromCharCode(...new Uint8Array(view.buffer, offset, length));
+        expect(text(0, 4)).toBe('RIFF');
+        expect(text(8, 4)).toBe('WAVE');
+        expect(view.getUint16(22, true)).toBe(1);
+        expect(view.getUint32(24, true)).toBe(24000);
+        expect(view.getUint16(34, true)).toBe(16);
+        expect(view.getUint32(40, true)).toBe(6);
+        expect(view.getInt16(46, true)).toBe(32767);
+        expect(view.getInt16(48, true)).toBe(-32768);
+    });
+});
+
+describe('transcript formats', () => {
+    const cues = [
+        { speaker: 'user' as const, text: 'Hi there', startMs: 1200, endMs: 2500 },
+        { speaker: 'bot' as const, text: 'Hello! --> welcome', startMs: 3_723_004, endMs: 3_725_000 },
+    ];
+
+    it('formats WebVTT timestamps', () => {
+        expect(formatVttTimestamp(3_723_004)).toBe('01:02:03.004');
+    });
+
+    it('writes numbered WebVTT cues with voice tags', () => {
+        expect(cuesToWebVtt(cues, NAMES)).toBe(
+            'WEBVTT\n\n'
+            + '1\n00:00:01.200 --> 00:00:02.500\n<v You>Hi there\n\n'
+            + '2\n01:02:03.004 --> 01:02:05.000\n<v Rani>Hello! --&gt; welcome\n'
+        );
+    });
+
+    it('escapes markup in WebVTT cue text and voice names', () => {
+        const vtt = cuesToWebVtt(
+            [{ speaker: 'user', text: 'Is 3 < 4 && 5 > 2? <b>yes</b>', startMs: 0, endMs: 1000 }],
+            { user: 'Me <3', bot: 'Rani' }
+        );
+        expect(vtt).toContain('<v Me &lt;3>Is 3 &lt; 4 &amp;&amp; 5 &gt; 2? &lt;b&gt;yes&lt;/b&gt;\n');
+    });
+
+    it('writes JSON cues with speaker names', () => {
+        expect(JSON.parse(cuesToJson(cues, NAMES)).cues[0]).toEqual({ ...cues[0], name: 'You' });
+    });
+});
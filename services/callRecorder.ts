@@ -0,0 +1,147 @@
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, createResampler, floatTo16BitPCM } from './audioUtils';
+
+export type TranscriptSpeaker = 'user' | 'bot';
+
+export interface TranscriptCue {
+    speaker: TranscriptSpeaker;
+    text: string;
+    /** Milliseconds from the start of the recording. */
+    startMs: number;
+    endMs: number;
+}
+
+interface Segment {
+    start: number;
+    /** Kept as 16-bit PCM, half the size of floats, since a call can run for an hour. */
+    samples: Int16Array;
+}
+
+/** A mic frame arriving this much later than expected starts a new run (e.g. after a reconnect). */
+const MIC_GAP_MS = 250;
+
+/**
+ * Mixes both sides of a live call onto one timeline. Times passed in are
+ * absolute `performance.now()` milliseconds; everything stored is relative
+ * to `startedAt`.
+ */
+export interface CallRecorder {
+    readonly startedAt: number;
+    readonly sampleRate: number;
+    readonly cues: readonly TranscriptCue[];
+    /** A captured 16 kHz mic frame that finished arriving at `at`. */
+    addInput(pcm: Int16Array, at: number): void;
+    /** Agent audio scheduled to start playing at `at`. */
+    addOutput(samples: Float32Array, at: number): void;
+    /** Drops agent audio from `at` onwards, mirroring a playback flush on interruption. */
+    cutOutput(at: number): void;
+    addCue(speaker: TranscriptSpeaker, text: string, start: number, end: number): void;
+    /** Both sides summed into a single 16-bit buffer, clipping rather than wrapping where they overlap. */
+    mix(): Int16Array;
+}
+
+export function createCallRecorder(startedAt: number, sampleRate = OUTPUT_SAMPLE_RATE): CallRecorder {
+    const resampleInput = createResampler(INPUT_SAMPLE_RATE, sampleRate);
+    const input: Segment[] = [];
+    let output: Segment[] = [];
+    const cues: TranscriptCue[] = [];
+    let inputCursor: number | null = null;
+
+    const toSample = (at: number) => Math.max(0, Math.round((at - startedAt) * sampleRate / 1000));
+    const toMs = (at: number) => Math.max(0, Math.round(at - startedAt));
+
+    return {
+        startedAt,
+        sampleRate,
+        cues,
+        addInput(pcm, at) {
+            const floats = new Float32Array(pcm.length);
+            for (let i = 0; i < pcm.length; i++) floats[i] = pcm[i] / 32768;
+            const samples = floatTo16BitPCM(resampleInput(floats));
+            // Frames are contiguous, so they're laid end to end unless arrival time shows a real gap.
+            const expected = Math.max(0, toSample(at) - samples.length);
+            if (inputCursor === null || expected - inputCursor > MIC_GAP_MS * sampleRate / 1000) {
+                inputCursor = expected;
+            }
+            input.push({ start: inputCursor, samples });
+            inputCursor += samples.length;
+        },
+        addOutput(samples, at) {
+            output.push({ start: toSample(at), samples: floatTo16BitPCM(samples) });
+        },
+        cutOutput(at) {
+            const cut = toSample(at);
+            output = output.flatMap(segment => {
+                if (segment.start >= cut) return [];
+                if (segment.start + segment.samples.length <= cut) return [segment];
+                return [{ start: segment.start, samples: segment.samples.subarray(0, cut - segment.start) }];
+            });
+        },
+        addCue(speaker, text, start, end) {
+            const startMs = toMs(start);
+            cues.push({ speaker, text, startMs, endMs: Math.max(startMs, toMs(end)) });
+        },
+        mix() {
+            const segments = [...input, ...output];
+            const length = segments.reduce((max, segment) => Math.max(max, segment.start + segment.samples.length), 0);
+            const mixed = new Int16Array(length);
+            for (const { start, samples } of segments) {
+                for (let i = 0; i < samples.length; i++) {
+                    mixed[start + i] = Math.max(-32768, Math.min(32767, mixed[start + i] + samples[i]));
+                }
+            }
+            return mixed;
+        },
+    };
+}
+
+/** Wraps mono 16-bit PCM samples in a WAV file. */
+export function encodeWav(pcm: Int16Array, sampleRate: number): ArrayBuffer {
+    const buffer = new ArrayBuffer(44 + pcm.byteLength);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + pcm.byteLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, pcm.byteLength, true);
+    for (let i = 0; i < pcm.length; i++) view.setInt16(44 + i * 2, pcm[i], true);
+    return buffer;
+}
+
+/** `HH:MM:SS.mmm`, as WebVTT requires. */
+export function formatVttTimestamp(ms: number): string {
+    const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+    const hours = Math.floor(ms / 3600000);
+    const minutes = Math.floor(ms / 60000) % 60;
+    const seconds = Math.floor(ms / 1000) % 60;
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(Math.floor(ms % 1000), 3)}`;
+}
+
+/** Escapes the characters WebVTT cue text and voice names give meaning to; this also rules out "-->". */
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function cuesToWebVtt(cues: readonly TranscriptCue[], names: Record<TranscriptSpeaker, string>): string {
+    const blocks = cues.map((cue, i) => {
+        // Cue text can't contain a blank line.
+        const text = escapeVtt(cue.text.replace(/\n\s*\n/g, '\n'));
+        return `${i + 1}\n${formatVttTimestamp(cue.startMs)} --> ${formatVttTimestamp(cue.endMs)}\n<v ${escapeVtt(names[cue.speaker])}>${text}`;
+    });
+    return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export function cuesToJson(cues: readonly TranscriptCue[], names: Record<TranscriptSpeaker, string>): string {
+    return JSON.stringify({
+        cues: cues.map(cue => ({ ...cue, name: names[cue.speaker] })),
+    }, null, 2);
+}
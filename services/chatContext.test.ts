@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { SUMMARY_BATCH_TURNS, buildChatContext, estimateTokens, toChatTurns, toSummaryBatches } from './chatContext';
+import type { Message } from '../types';
+
+// Ten exchanges of equal size, so budgets can be reasoned about in turns.
+const thread: Message[] = Array.from({ length: 20 }, (_, i) => ({
+  id: `m${i}`,
+  sender: i % 2 === 0 ? 'user' : 'bot',
+  text: `message ${String(i).padStart(2, '0')}`,
+}));
+const turnCost = estimateTokens(thread[0].text);
+
+describe('toChatTurns', () => {
+  it('maps senders to model roles and drops empty messages', () => {
+    expect(toChatTurns([
+      { id: 'a', sender: 'user', text: 'hi' },
+      { id: 'b', sender: 'bot', text: '' },
+      { id: 'c', sender: 'bot', text: 'hello' },
+    ])).toEqual([{ role: 'user', text: 'hi' }, { role: 'model', text: 'hello' }]);
+  });
+});
+
+describe('buildChatContext', () => {
+  it('sends everything when the thread fits the budget', () => {
+    const context = buildChatContext(thread, undefined, turnCost * 20);
+    expect(context.history).toHaveLength(20);
+    expect(context.summary).toBeUndefined();
+    expect(context.overflow).toEqual([]);
+  });
+
+  it('keeps half the budget of recent turns, starting on a user turn, and overflows the rest', () => {
+    const context = buildChatContext(thread, undefined, turnCost * 11);
+    // Five turns fit in half the budget; the oldest of them is a reply, so it is folded too.
+    expect(context.history.map(turn => turn.text)).toEqual(['message 16', 'message 17', 'message 18', 'message 19']);
+    expect(context.history[0].role).toBe('user');
+    expect(context.overflow.map(msg => msg.id)).toEqual(thread.slice(0, 16).map(msg => msg.id));
+  });
+
+  it('starts after the stored summary and counts it against the budget', () => {
+    const summary = { text: 'They talked about cricket.', throughMessageId: 'm9' };
+    const fits = buildChatContext(thread, summary, turnCost * 10 + estimateTokens(summary.text));
+    expect(fits.summary).toBe(summary.text);
+    expect(fits.history[0].text).toBe('message 10');
+    expect(fits.overflow).toEqual([]);
+
+    const tight = buildChatContext(thread, summary, turnCost * 10);
+    expect(tight.summary).toBe(summary.text);
+    expect(tight.overflow[0].id).toBe('m10');
+  });
+
+  it('keeps the latest user turn and its reply even when they are over budget', () => {
+    const long: Message[] = [
+      ...thread.slice(0, 4),
+      { id: 'q', sender: 'user', text: 'x'.repeat(300) },
+      { id: 'a', sender: 'bot', text: 'short answer' },
+    ];
+    const context = buildChatContext(long, undefined, turnCost * 6);
+    expect(context.history.map(turn => turn.text)).toEqual(['x'.repeat(300), 'short answer']);
+    expect(context.overflow.map(msg => msg.id)).toEqual(['m0', 'm1', 'm2', 'm3']);
+  });
+
+  it('ignores a summary of messages no longer in the thread', () => {
+    const context = buildChatContext(thread.slice(0, 4), { text: 'stale', throughMessageId: 'gone' }, 1000);
+    expect(context.summary).toBeUndefined();
+    expect(context.history).toHaveLength(4);
+  });
+});
+
+describe('toSummaryBatches', () => {
+  it('splits a long overflow into batches the server accepts, oldest first', () => {
+    const overflow = Array.from({ length: SUMMARY_BATCH_TURNS * 2 + 1 }, (_, i) => thread[i % thread.length]);
+    const batches = toSummaryBatches(overflow);
+    expect(batches.map(batch => batch.length)).toEqual([SUMMARY_BATCH_TURNS, SUMMARY_BATCH_TURNS, 1]);
+    expect(batches.flat()).toEqual(overflow);
+    expect(toSummaryBatches([])).toEqual([]);
+  });
+});
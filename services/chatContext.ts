@@ -0,0 +1,91 @@
+import type { ChatTurn, ConversationSummary, Message } from '../types';
+
+// Builds the history sent with each chat request. Recent turns go as they are
+// while they fit the token budget; once the thread outgrows it, the oldest
+// turns are handed back to be folded into the conversation's rolling summary.
+
+/** Tokens of summary and history sent per request, unless `VITE_CHAT_HISTORY_TOKENS` overrides it. */
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 8000;
+/**
+ * Share of the budget kept as verbatim turns after a fold. Folding down to
+ * half means a summary is only written every few exchanges, not every turn.
+ */
+const RETAINED_SHARE = 0.5;
+/** Turns folded per summarize request; the server refuses more than this. */
+export const SUMMARY_BATCH_TURNS = 400;
+/** A rough average; it errs high for English and about right for Hindi. */
+const CHARS_PER_TOKEN = 3;
+/** Role markers and separators the model adds around each turn. */
+const TURN_OVERHEAD_TOKENS = 4;
+
+export const HISTORY_TOKEN_BUDGET = Number(import.meta.env.VITE_CHAT_HISTORY_TOKENS) || DEFAULT_HISTORY_TOKEN_BUDGET;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + TURN_OVERHEAD_TOKENS;
+}
+
+/** Maps thread messages to the model's content format, dropping ones with no text. */
+export function toChatTurns(messages: Message[]): ChatTurn[] {
+  return messages
+    .filter(msg => msg.text.trim())
+    .map(msg => ({ role: msg.sender === 'user' ? 'user' : 'model', text: msg.text }));
+}
+
+export interface ChatContext {
+  /** Turns sent verbatim, oldest first. */
+  history: ChatTurn[];
+  /** The stored summary standing in for everything before `history`, if it still applies. */
+  summary?: string;
+  /**
+   * Messages between the summary and `history` that must be folded into the
+   * summary before sending; empty when everything fits.
+   */
+  overflow: Message[];
+}
+
+/**
+ * Splits `messages` (the thread before the prompt) into what is sent verbatim
+ * and what must be summarized. A summary whose last message is no longer in
+ * the thread, because an earlier message was edited, is ignored.
+ */
+export function buildChatContext(
+  messages: Message[],
+  summary: ConversationSummary | undefined,
+  budget = HISTORY_TOKEN_BUDGET
+): ChatContext {
+  const summarizedThrough = summary ? messages.findIndex(msg => msg.id === summary.throughMessageId) : -1;
+  const summaryText = summarizedThrough >= 0 ? summary!.text : undefined;
+  const pending = messages.slice(summarizedThrough + 1).filter(msg => msg.text.trim());
+
+  const costs = pending.map(msg => estimateTokens(msg.text));
+  const total = costs.reduce((sum, cost) => sum + cost, summaryText ? estimateTokens(summaryText) : 0);
+  if (total <= budget) return { history: toChatTurns(pending), summary: summaryText, overflow: [] };
+
+  // Keep the newest turns that fit the retained share, starting on a user turn.
+  let start = pending.length;
+  let kept = 0;
+  while (start > 0 && kept + costs[start - 1] <= budget * RETAINED_SHARE) {
+    kept += costs[--start];
+  }
+  while (start < pending.length && pending[start].sender !== 'user') start++;
+  // A reply makes no sense without the question it answers, so the latest
+  // user turn stays even when it alone is over the retained share.
+  let latestUser = pending.length - 1;
+  while (latestUser >= 0 && pending[latestUser].sender !== 'user') latestUser--;
+  if (latestUser >= 0) start = Math.min(start, latestUser);
+
+  return {
+    history: toChatTurns(pending.slice(start)),
+    summary: summaryText,
+    overflow: pending.slice(0, start),
+  };
+}
+
+/** Splits an overflow into the batches it is summarized in, oldest first. */
+export function toSummaryBatches(overflow: Message[]): Message[][] {
+  const batches: Message[][] = [];
+  for (let start = 0; start < overflow.length; start += SUMMARY_BATCH_TURNS) {
+    batches.push(overflow.slice(start, start + SUMMARY_BATCH_TURNS));
+  }
+  return batches;
+}
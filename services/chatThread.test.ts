@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { beginVariant, discardVariant, findPrompt, mergeSources, selectVariant, updateReply } from './chatThread';
+import type { Message } from '../types';
+
+const reply: Message = { id: 'b1', sender: 'bot', text: 'first', sources: [{ uri: 'a', title: 'A' }] };
+
+describe('mergeSources', () => {
+    it('appends only unseen URIs', () => {
+        const merged = mergeSources([{ uri: 'a', title: 'A' }], [{ uri: 'a', title: 'A2' }, { uri: 'b', title: 'B' }, { uri: 'b', title: 'B2' }]);
+        expect(merged).toEqual([{ uri: 'a', title: 'A' }, { uri: 'b', title: 'B' }]);
+    });
+});
+
+describe('reply variants', () => {
+    it('keeps the old reply and streams into a new variant', () => {
+        const regenerating = updateReply(beginVariant(reply), { text: 'second' });
+        expect(regenerating.text).toBe('second');
+        expect(regenerating.variantIndex).toBe(1);
+        expect(regenerating.variants).toEqual([
+            { text: 'first', sources: reply.sources, stopped: undefined },
+            { text: 'second', sources: [] },
+        ]);
+    });
+
+    it('browses between variants', () => {
+        const twoVersions = updateReply(beginVariant(reply), { text: 'second' });
+        const back = selectVariant(twoVersions, 0);
+        expect(back.text).toBe('first');
+        expect(back.sources).toEqual(reply.sources);
+        expect(selectVariant(back, 1).text).toBe('second');
+        expect(selectVariant(back, 5)).toBe(back);
+    });
+
+    it('keeps a safety intervention with the variant it came with', () => {
+        const withheld = updateReply(reply, { text: '', intervention: { action: 'block', direction: 'output' } });
+        const regenerated = updateReply(beginVariant(withheld), { text: 'second' });
+        expect(regenerated.intervention).toBeUndefined();
+        expect(selectVariant(regenerated, 0).intervention).toEqual({ action: 'block', direction: 'output' });
+    });
+
+    it('collapses back to a plain reply when an empty variant is discarded', () => {
+        const restored = discardVariant(beginVariant(reply));
+        expect(restored.text).toBe('first');
+        expect(restored.variants).toBeUndefined();
+        expect(restored.variantIndex).toBeUndefined();
+    });
+});
+
+describe('findPrompt', () => {
+    it('finds the user turn a reply answers and the history before it', () => {
+        const thread: Message[] = [
+            { id: 'u1', sender: 'user', text: 'hi' },
+            { id: 'b1', sender: 'bot', text: 'hello' },
+            { id: 'u2', sender: 'user', text: 'how are you?' },
+            { id: 'b2', sender: 'bot', text: 'great' },
+        ];
+        expect(findPrompt(thread, 3)).toEqual({ prompt: thread[2], history: thread.slice(0, 2) });
+        expect(findPrompt(thread, 0)).toBeNull();
+    });
+});
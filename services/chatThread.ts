@@ -0,0 +1,69 @@
+import type { GroundingSource, Message } from '../types';
+
+// Pure helpers for editing a chat thread: streaming into a reply, keeping
+// regenerated replies as browsable variants, and truncating for edits.
+
+export function mergeSources(existing: GroundingSource[] = [], incoming: GroundingSource[]): GroundingSource[] {
+  const seen = new Set(existing.map(source => source.uri));
+  return [...existing, ...incoming.filter(source => !seen.has(source.uri) && seen.add(source.uri))];
+}
+
+/** Applies `patch` to the reply's visible content and to its selected variant, if any. */
+export function updateReply(message: Message, patch: Partial<Pick<Message, 'text' | 'sources' | 'stopped' | 'intervention'>>): Message {
+  const updated = { ...message, ...patch };
+  if (message.variants && message.variantIndex !== undefined) {
+    updated.variants = message.variants.map((variant, i) => (i === message.variantIndex ? { ...variant, ...patch } : variant));
+  }
+  return updated;
+}
+
+/** Keeps the current reply as a variant and starts an empty one to stream into. */
+export function beginVariant(message: Message): Message {
+  const variants = message.variants ?? [{
+    text: message.text,
+    sources: message.sources,
+    stopped: message.stopped,
+    intervention: message.intervention,
+  }];
+  return {
+    ...message,
+    text: '',
+    sources: [],
+    stopped: undefined,
+    intervention: undefined,
+    variants: [...variants, { text: '', sources: [] }],
+    variantIndex: variants.length,
+  };
+}
+
+/** Drops the selected variant (e.g. a regeneration that produced nothing) and shows the latest remaining one. */
+export function discardVariant(message: Message): Message {
+  if (!message.variants || message.variantIndex === undefined) return message;
+  const variants = message.variants.filter((_, i) => i !== message.variantIndex);
+  return selectVariant({ ...message, variants }, variants.length - 1);
+}
+
+/** Shows variant `index`. A single remaining variant collapses back into a plain reply. */
+export function selectVariant(message: Message, index: number): Message {
+  const variants = message.variants;
+  const variant = variants?.[index];
+  if (!variants || !variant) return message;
+  const browsable = variants.length > 1;
+  return {
+    ...message,
+    text: variant.text,
+    sources: variant.sources,
+    stopped: variant.stopped,
+    intervention: variant.intervention,
+    variants: browsable ? variants : undefined,
+    variantIndex: browsable ? index : undefined,
+  };
+}
+
+/** The user message a bot reply answers, and everything said before it. */
+export function findPrompt(messages: Message[], botIndex: number): { prompt: Message; history: Message[] } | null {
+  for (let i = botIndex - 1; i >= 0; i--) {
+    if (messages[i].sender === 'user') return { prompt: messages[i], history: messages.slice(0, i) };
+  }
+  return null;
+}
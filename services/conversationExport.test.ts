@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  ImportError,
+  exportToJson,
+  exportToMarkdown,
+  exportToText,
+  parseConversationExport,
+} from './conversationExport';
+import { translate } from './i18n';
+import type { Translate } from './i18n';
+import type { Conversation } from '../types';
+
+const conversation: Conversation = {
+  id: 'c1',
+  agentName: 'rani-bhat',
+  kind: 'chat',
+  title: 'Weekend plans',
+  createdAt: Date.UTC(2024, 4, 1),
+  updatedAt: Date.UTC(2024, 4, 2),
+  messages: [
+    { id: 'm1', text: 'Any movie tips?', sender: 'user' },
+    {
+      id: 'm2',
+      text: 'Try *Lunchbox*.',
+      sender: 'bot',
+      sources: [{ uri: 'https://example.com/lunchbox', title: 'The Lunchbox' }],
+      feedback: 'up',
+      variants: [{ text: 'Old reply' }, { text: 'Try *Lunchbox*.' }],
+      variantIndex: 1,
+    },
+  ],
+};
+
+const withData = (patch: object) => JSON.stringify({ ...JSON.parse(exportToJson(conversation)), ...patch });
+
+describe('exportToJson / parseConversationExport', () => {
+  it('round-trips a conversation under a fresh id', () => {
+    const imported = parseConversationExport(exportToJson(conversation));
+    expect(imported.id).not.toBe(conversation.id);
+    expect(imported.agentName).toBe('rani-bhat');
+    expect(imported.kind).toBe('chat');
+    expect(imported.title).toBe('Weekend plans');
+    expect(imported.messages).toEqual(conversation.messages);
+  });
+
+  it('keeps safety notices on messages and variants, and the summary of earlier turns', () => {
+    const moderated: Conversation = {
+      ...conversation,
+      summary: { text: 'They talked about films.', throughMessageId: 'm1' },
+      messages: [
+        { ...conversation.messages[0], intervention: { action: 'crisis', direction: 'input', category: 'self-harm' } },
+        {
+          id: 'm2',
+          text: '',
+          sender: 'bot',
+          intervention: { action: 'block', direction: 'output' },
+          variants: [{ text: 'Try *Lunchbox*.' }, { text: '', intervention: { action: 'block', direction: 'output' } }],
+          variantIndex: 1,
+        },
+      ],
+    };
+
+    const imported = parseConversationExport(exportToJson(moderated));
+
+    expect(imported.summary).toEqual(moderated.summary);
+    expect(imported.messages).toEqual(moderated.messages);
+  });
+
+  it('writes the format marker and version', () => {
+    const data = JSON.parse(exportToJson(conversation, new Date(0)));
+    expect(data).toMatchObject({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: '1970-01-01T00:00:00.000Z' });
+  });
+
+  it('drops unknown message fields', () => {
+    const file = withData({
+      conversation: { ...conversation, messages: [{ id: 'x', text: 'hi', sender: 'user', secret: 1 }] },
+    });
+    expect(parseConversationExport(file).messages).toEqual([{ id: 'x', text: 'hi', sender: 'user' }]);
+  });
+
+  it.each([
+    ['not json', /not valid JSON/],
+    [JSON.stringify({ hello: 'world' }), /not a conversation export/],
+    [withData({ version: undefined }), /no version/],
+    [withData({ version: EXPORT_VERSION + 1 }), /newer version/],
+    [withData({ version: 0 }), /older format \(v0\)/],
+    [withData({ conversation: { ...conversation, agentName: '' } }), /which agent/],
+    [withData({ conversation: { ...conversation, kind: 'video' } }), /unknown conversation type/],
+    [withData({ conversation: { ...conversation, messages: [{ id: 'a', text: 'hi', sender: 'robot' }] } }), /Message 1 has an unknown sender/],
+    [withData({ conversation: { ...conversation, messages: [{ ...conversation.messages[1], variantIndex: 5 }] } }), /variant that doesn't exist/],
+    [withData({ conversation: { ...conversation, messages: [{ id: 'a', text: 'hi', sender: 'user', intervention: { action: 'warn', direction: 'input' } }] } }), /Message 1 has an invalid safety notice/],
+    [withData({ conversation: { ...conversation, summary: { text: 'Earlier' } } }), /invalid conversation summary/],
+  ])('rejects %s', (file, reason) => {
+    expect(() => parseConversationExport(file)).toThrow(ImportError);
+    expect(() => parseConversationExport(file)).toThrow(reason);
+  });
+});
+
+describe('readable exports', () => {
+  const t: Translate = (key, params) => translate('en', key, params);
+
+  it('renders Markdown with speakers and sources', () => {
+    const markdown = exportToMarkdown(conversation, 'Rani Bhat', t);
+    expect(markdown).toContain('# Weekend plans');
+    expect(markdown).toContain('**You:**\n\nAny movie tips?');
+    expect(markdown).toContain('**Rani Bhat:**\n\nTry *Lunchbox*.');
+    expect(markdown).toContain('- [The Lunchbox](https://example.com/lunchbox)');
+  });
+
+  it('renders plain text one line per message', () => {
+    expect(exportToText(conversation, 'Rani Bhat', t)).toBe(
+      'Weekend plans\n\nYou: Any movie tips?\nRani Bhat: Try *Lunchbox*.\n  Source: The Lunchbox <https://example.com/lunchbox>\n'
+    );
+  });
+
+  it('labels speakers and sources in the reader\'s language', () => {
+    const text = exportToText({ ...conversation, title: '' }, 'रानी भट', (key, params) => translate('hi', key, params));
+    expect(text).toBe('बातचीत\n\nआप: Any movie tips?\nरानी भट: Try *Lunchbox*.\n  स्रोत: The Lunchbox <https://example.com/lunchbox>\n');
+  });
+});
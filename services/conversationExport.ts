@@ -0,0 +1,236 @@
+import { translate } from './i18n';
+import type { MessageRef, Translate } from './i18n';
+import type {
+  Conversation,
+  ConversationSummary,
+  GroundingSource,
+  Message,
+  MessageAttachment,
+  MessageVariant,
+  SafetyIntervention,
+} from '../types';
+
+// Export and import of a single conversation. JSON exports are versioned and
+// round-trip through `parseConversationExport`; Markdown and plain text are
+// for reading only.
+
+export const EXPORT_FORMAT = 'rani-bhat/conversation';
+/** Bump when the exported shape changes incompatibly. */
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'text';
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  conversation: Pick<Conversation, 'agentName' | 'kind' | 'title' | 'summary' | 'createdAt' | 'updatedAt' | 'messages'>;
+}
+
+/** An import file that can't be restored; `reason` is shown to the user in their language. */
+export class ImportError extends Error {
+  constructor(readonly reason: MessageRef) {
+    super(translate('en', ...reason));
+    this.name = 'ImportError';
+  }
+}
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = { json: 'json', markdown: 'md', text: 'txt' };
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown;charset=utf-8',
+  text: 'text/plain;charset=utf-8',
+};
+
+/** `t` translates the labels of the readable formats; JSON has none. */
+export function exportConversation(conversation: Conversation, format: ExportFormat, agentDisplayName: string, t: Translate): string {
+  switch (format) {
+    case 'json':
+      return exportToJson(conversation);
+    case 'markdown':
+      return exportToMarkdown(conversation, agentDisplayName, t);
+    case 'text':
+      return exportToText(conversation, agentDisplayName, t);
+  }
+}
+
+export function exportToJson(conversation: Conversation, exportedAt = new Date()): string {
+  const { agentName, kind, title, summary, createdAt, updatedAt, messages } = conversation;
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    conversation: { agentName, kind, title, summary, createdAt, updatedAt, messages },
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+const speaker = (message: Message, agentDisplayName: string, t: Translate) =>
+  (message.sender === 'user' ? t('export.you') : agentDisplayName);
+
+export function exportToMarkdown(conversation: Conversation, agentDisplayName: string, t: Translate): string {
+  const heading = conversation.kind === 'voice' ? 'export.heading.voice' : 'export.heading.chat';
+  const blocks = [
+    `# ${conversation.title || t('export.untitled')}`,
+    `_${t(heading, { name: agentDisplayName, date: new Date(conversation.createdAt).toLocaleString() })}_`,
+  ];
+  for (const message of conversation.messages) {
+    const lines = [`**${speaker(message, agentDisplayName, t)}:**`, '', message.text];
+    if (message.attachments?.length) lines.push('', `_${t('export.images', { count: message.attachments.length })}_`);
+    if (message.sources?.length) {
+      lines.push('', t('export.sources'), ...message.sources.map(source => `- [${source.title}](${source.uri})`));
+    }
+    blocks.push(lines.join('\n'));
+  }
+  return blocks.join('\n\n') + '\n';
+}
+
+export function exportToText(conversation: Conversation, agentDisplayName: string, t: Translate): string {
+  const lines = [conversation.title || t('export.untitled'), ''];
+  for (const message of conversation.messages) {
+    lines.push(`${speaker(message, agentDisplayName, t)}: ${message.text}`);
+    for (const source of message.sources ?? []) lines.push(`  ${t('export.source')} ${source.title} <${source.uri}>`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const optionalBoolean = (value: unknown) => (value === true ? true : undefined);
+
+function parseSources(raw: unknown, index: number): GroundingSource[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw) || !raw.every(source => isObject(source) && typeof source.uri === 'string' && typeof source.title === 'string')) {
+    throw new ImportError(['import.error.message.sources', { index }]);
+  }
+  return raw.map(({ uri, title }) => ({ uri, title }));
+}
+
+function parseAttachments(raw: unknown, index: number): MessageAttachment[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw) || !raw.every(item => isObject(item) && typeof item.mimeType === 'string'
+    && item.mimeType.startsWith('image/') && typeof item.data === 'string')) {
+    throw new ImportError(['import.error.message.attachments', { index }]);
+  }
+  return raw.map(({ mimeType, data }) => ({ mimeType, data }));
+}
+
+function parseIntervention(raw: unknown, index: number): SafetyIntervention | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw) || (raw.action !== 'crisis' && raw.action !== 'block')
+    || (raw.direction !== 'input' && raw.direction !== 'output')
+    || (raw.category !== undefined && typeof raw.category !== 'string')) {
+    throw new ImportError(['import.error.message.intervention', { index }]);
+  }
+  return { action: raw.action, direction: raw.direction, ...(raw.category !== undefined && { category: raw.category }) };
+}
+
+function parseVariants(raw: unknown, index: number): MessageVariant[] | undefined {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw) || !raw.every(variant => isObject(variant) && typeof variant.text === 'string')) {
+    throw new ImportError(['import.error.message.variants', { index }]);
+  }
+  return raw.map(variant => ({
+    text: variant.text,
+    sources: parseSources(variant.sources, index),
+    stopped: optionalBoolean(variant.stopped),
+    intervention: parseIntervention(variant.intervention, index),
+  }));
+}
+
+function parseMessage(raw: unknown, position: number): Message {
+  // Counted from 1, as the user would.
+  const index = position + 1;
+  if (!isObject(raw)) throw new ImportError(['import.error.message.notObject', { index }]);
+  if (typeof raw.id !== 'string' || !raw.id) throw new ImportError(['import.error.message.noId', { index }]);
+  if (typeof raw.text !== 'string') throw new ImportError(['import.error.message.noText', { index }]);
+  if (raw.sender !== 'user' && raw.sender !== 'bot') throw new ImportError(['import.error.message.unknownSender', { index }]);
+
+  const sources = parseSources(raw.sources, index);
+  const attachments = parseAttachments(raw.attachments, index);
+  const variants = parseVariants(raw.variants, index);
+  const intervention = parseIntervention(raw.intervention, index);
+  const variantIndex = raw.variantIndex;
+  if (variants && (!Number.isInteger(variantIndex) || variantIndex < 0 || variantIndex >= variants.length)) {
+    throw new ImportError(['import.error.message.variantIndex', { index }]);
+  }
+  const feedback = raw.feedback === 'up' || raw.feedback === 'down' ? raw.feedback : undefined;
+
+  // Optional fields are only set when present, so a round trip adds no `undefined` keys.
+  return {
+    id: raw.id,
+    text: raw.text,
+    sender: raw.sender,
+    ...(sources && { sources }),
+    ...(attachments && { attachments }),
+    ...(variants && { variants, variantIndex }),
+    ...(typeof raw.reaction === 'string' && { reaction: raw.reaction }),
+    ...(feedback && { feedback }),
+    ...(optionalBoolean(raw.interrupted) && { interrupted: true }),
+    ...(optionalBoolean(raw.stopped) && { stopped: true }),
+    ...(optionalBoolean(raw.spoken) && { spoken: true }),
+    ...(intervention && { intervention }),
+  };
+}
+
+function parseSummary(raw: unknown): ConversationSummary | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw) || typeof raw.text !== 'string' || typeof raw.throughMessageId !== 'string') {
+    throw new ImportError(['import.error.summary']);
+  }
+  return { text: raw.text, throughMessageId: raw.throughMessageId };
+}
+
+/**
+ * Validates a JSON export and turns it into a new conversation (with a fresh
+ * id, so importing twice never overwrites). Throws `ImportError` with a
+ * translatable reason when the file can't be restored.
+ */
+export function parseConversationExport(text: string): Conversation {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError(['import.error.notJson']);
+  }
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) {
+    throw new ImportError(['import.error.notExport']);
+  }
+  if (typeof data.version !== 'number') {
+    throw new ImportError(['import.error.noVersion']);
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new ImportError(['import.error.newer', { version: data.version }]);
+  }
+  if (data.version < EXPORT_VERSION) {
+    throw new ImportError(['import.error.older', { version: data.version, current: EXPORT_VERSION }]);
+  }
+
+  const conversation = data.conversation;
+  if (!isObject(conversation)) throw new ImportError(['import.error.noConversation']);
+  if (typeof conversation.agentName !== 'string' || !conversation.agentName) {
+    throw new ImportError(['import.error.noAgent']);
+  }
+  if (conversation.kind !== 'chat' && conversation.kind !== 'voice') {
+    throw new ImportError(['import.error.unknownKind']);
+  }
+  if (!Array.isArray(conversation.messages)) throw new ImportError(['import.error.noMessages']);
+
+  const messages = conversation.messages.map(parseMessage);
+  const summary = parseSummary(conversation.summary);
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    agentName: conversation.agentName,
+    kind: conversation.kind,
+    title: typeof conversation.title === 'string' ? conversation.title : '',
+    messages,
+    ...(summary && { summary }),
+    createdAt: typeof conversation.createdAt === 'number' ? conversation.createdAt : now,
+    updatedAt: now,
+  };
+}
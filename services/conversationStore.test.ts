@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createConversation, getConversation, listConversations, saveConversation } from './conversationStore';
+import { endSession, startSession } from './authSession';
+import type { Account, Conversation, Message } from '../types';
+
+// Just enough of IndexedDB for the store: one object store per database,
+// with requests that complete on the next microtask.
+function installFakeIndexedDb() {
+  const databases = new Map<string, Map<string, Conversation>>();
+  const closed: string[] = [];
+
+  const request = <T>(result: T) => ({ result });
+  const open = (name: string) => {
+    const records = databases.get(name) ?? new Map<string, Conversation>();
+    databases.set(name, records);
+    const store = {
+      get: (id: string) => request(records.get(id)),
+      put: (value: Conversation) => request(records.set(value.id, value) && value.id),
+      delete: (id: string) => request(records.delete(id) && undefined),
+      index: () => ({ getAll: (agentName: string) => request([...records.values()].filter(c => c.agentName === agentName)) }),
+    };
+    const db = {
+      transaction: () => {
+        const transaction: { objectStore: () => typeof store; oncomplete?: () => void } = { objectStore: () => store };
+        queueMicrotask(() => transaction.oncomplete?.());
+        return transaction;
+      },
+      close: () => { closed.push(name); },
+    };
+    const openRequest: { result: typeof db; onsuccess?: () => void } = { result: db };
+    queueMicrotask(() => openRequest.onsuccess?.());
+    return openRequest;
+  };
+
+  vi.stubGlobal('indexedDB', { open });
+  return { databases, closed };
+}
+
+const account = (id: string): Account => ({ id, email: `${id}@example.com`, createdAt: '2026-01-01T00:00:00.000Z' });
+const signIn = (id: string) => startSession({ token: `token-${id}`, expiresAt: '2099-01-01T00:00:00.000Z', account: account(id) });
+const messages: Message[] = [{ id: 'm1', sender: 'user', text: 'Hello Asha' }];
+
+describe('conversationStore', () => {
+  let fake: ReturnType<typeof installFakeIndexedDb>;
+
+  beforeEach(() => {
+    fake = installFakeIndexedDb();
+  });
+
+  afterEach(() => {
+    endSession('signedOut');
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps each account\'s conversations in its own database', async () => {
+    signIn('a1');
+    const saved = await saveConversation(createConversation('asha', 'chat'), messages);
+    expect(await listConversations('asha')).toHaveLength(1);
+
+    signIn('a2');
+
+    expect(await listConversations('asha')).toEqual([]);
+    expect(await getConversation(saved.id)).toBeUndefined();
+    expect([...fake.databases.keys()]).toEqual(['rani-bhat:a1', 'rani-bhat:a2']);
+  });
+
+  it('closes the database on sign-out and stores nothing while signed out', async () => {
+    signIn('a1');
+    await saveConversation(createConversation('asha', 'chat'), messages);
+
+    endSession('signedOut');
+
+    await vi.waitFor(() => expect(fake.closed).toEqual(['rani-bhat:a1']));
+    await expect(listConversations('asha')).rejects.toThrow();
+    signIn('a1');
+    expect(await listConversations('asha')).toHaveLength(1);
+  });
+});
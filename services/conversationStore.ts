@@ -0,0 +1,114 @@
+import { getSession, subscribeSession } from './authSession';
+import type { Conversation, ConversationKind, Message } from '../types';
+
+// IndexedDB persistence for chat threads and voice transcripts. Everything
+// stays in the browser; one record per conversation, indexed by agent. Each
+// account has its own database, so someone else signing in on the same
+// browser never sees them.
+
+const DB_PREFIX = 'rani-bhat';
+const DB_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+const TITLE_LENGTH = 48;
+
+let openedDb: { accountId: string; db: Promise<IDBDatabase> } | null = null;
+
+function closeDb() {
+  const previous = openedDb;
+  openedDb = null;
+  previous?.db.then(db => db.close()).catch(() => {});
+}
+
+// Signing out, or in as someone else, closes the previous account's database.
+subscribeSession(session => {
+  if (openedDb && openedDb.accountId !== session?.account.id) closeDb();
+});
+
+function openDb(): Promise<IDBDatabase> {
+  const accountId = getSession()?.account.id;
+  if (!accountId) return Promise.reject(new Error('Conversations are only stored while signed in'));
+  if (openedDb?.accountId === accountId) return openedDb.db;
+  closeDb();
+
+  const db = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(`${DB_PREFIX}:${accountId}`, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS)) {
+        const store = db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+        store.createIndex('agentName', 'agentName');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const opened = { accountId, db };
+  openedDb = opened;
+  db.catch(() => {
+    if (openedDb === opened) openedDb = null;
+  });
+  return db;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CONVERSATIONS, mode);
+    const request = action(transaction.objectStore(CONVERSATIONS));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Uses the first user message as the title. Until there is one the title
+ * stays empty, and the history list shows a dated label in the UI language.
+ */
+export function deriveTitle(messages: Message[]): string {
+  const first = messages.find(msg => msg.sender === 'user')?.text.trim();
+  if (!first) return '';
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+}
+
+export function createConversation(agentName: string, kind: ConversationKind): Conversation {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), agentName, kind, title: '', messages: [], createdAt: now, updatedAt: now };
+}
+
+/** Newest first. */
+export async function listConversations(agentName: string, kind?: ConversationKind): Promise<Conversation[]> {
+  const all = await run<Conversation[]>('readonly', store => store.index('agentName').getAll(agentName));
+  return all
+    .filter(conversation => !kind || conversation.kind === kind)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  return run<Conversation | undefined>('readonly', store => store.get(id));
+}
+
+/** Saves `messages` into the conversation, bumping `updatedAt` and filling in a title. */
+export async function saveConversation(conversation: Conversation, messages: Message[]): Promise<Conversation> {
+  const saved: Conversation = {
+    ...conversation,
+    messages,
+    title: conversation.title || deriveTitle(messages),
+    updatedAt: Date.now(),
+  };
+  await run('readwrite', store => store.put(saved));
+  return saved;
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  const conversation = await getConversation(id);
+  if (!conversation) return;
+  await run('readwrite', store => store.put({ ...conversation, title: title.trim() || conversation.title }));
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await run('readwrite', store => store.delete(id));
+}
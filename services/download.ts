@@ -0,0 +1,14 @@
+/** Saves `blob` through a temporary link, as if the user had clicked a download. */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/** `prefix-2024-05-01T12-30-00.ext`, safe on every filesystem. */
+export function timestampedFilename(prefix: string, extension: string, date = new Date()): string {
+    return `${prefix}-${date.toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
+}
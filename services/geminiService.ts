@@ -1,72 +1,161 @@
 import { GoogleGenAI, LiveServerMessage } from "@google/genai";
-import type { StreamResponse } from "../types";
+import type { LiveCallbacks, LiveConnectConfig, Session } from "@google/genai";
+import { apiFetch, apiJson } from "./apiClient";
+import { ApiError } from "./apiErrors";
+import type { Account, AgentConfig, AgentSummary, AuthSession, ChatHistoryItem, ChatTurn, Language, LiveAllowance, LiveConfig, Memory, MessageAttachment, MessageFeedback, SafetyIntervention, StreamResponse, UsageSummary } from "../types";
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://aadya.com:8080';
+/** Callbacks for a live session; only `onmessage` is required. */
+export type LiveSessionCallbacks = Pick<LiveCallbacks, 'onmessage'> & Partial<LiveCallbacks>;
 
-let ai: GoogleGenAI | null = null;
+/** Per-call options. Aborting the signal cancels the request and any pending retry. */
+export interface CallOptions {
+  signal?: AbortSignal;
+}
+
+export interface EndSessionOptions extends CallOptions {
+  /** Sent with `keepalive`, so the request still goes out while the page unloads. */
+  keepalive?: boolean;
+}
+
+export interface LiveConnectOptions extends CallOptions {
+  /** Resume the session that issued this handle instead of starting a fresh one. */
+  resumptionHandle?: string;
+  /** The metered session a reconnect takes over from; without it the backend refuses a second session. */
+  replacesSessionId?: string;
+  /** The language the user speaks; the backend sets speech recognition and synthesis to match. */
+  language?: Language;
+  /** Called with the metered session's allowance before the socket opens. */
+  onAllowance?: (allowance: LiveAllowance) => void;
+}
+
+export interface TranscriptionOptions extends CallOptions {
+  /** The language being spoken, used as a hint for transcription. */
+  language?: Language;
+  /** Called with the metered session's allowance before the socket opens. */
+  onAllowance?: (allowance: LiveAllowance) => void;
+}
+
+export interface StreamChatOptions extends CallOptions {
+  /** Images sent as inline parts alongside the prompt. */
+  attachments?: MessageAttachment[];
+  /** Recorded with any safety intervention, so it can be traced back to the thread. */
+  conversationId?: string;
+  /** Stands in for the turns before `history` once a long thread has been folded. */
+  summary?: string;
+}
+
+export interface TranscriptTurn {
+  text: string;
+  /** `input` for what the user said, `output` for the agent's reply. */
+  direction: SafetyIntervention['direction'];
+  conversationId?: string;
+}
 
 // ============================================
 // BACKEND INTEGRATION FUNCTIONS
 // ============================================
 
-async function getApiKeyFromBackend(): Promise<string> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/key`);
-    if (!response.ok) throw new Error('Failed to fetch API key from backend');
-    const { apiKey } = await response.json();
-    if (!apiKey) throw new Error('API key not provided by backend');
-    return apiKey;
-  } catch (error) {
-    console.error('Error fetching API key:', error);
-    throw error;
-  }
+/**
+ * A single-use, short-lived credential for one live session, minted by the
+ * backend. The model and config are locked into the token server-side.
+ */
+interface LiveSessionGrant {
+  token: string;
+  expiresAt: string;
+  model: string;
+  config: LiveConnectConfig;
+  allowance?: LiveAllowance;
 }
 
-async function getAiClient(): Promise<GoogleGenAI> {
-  if (ai) return ai;
-  
-  try {
-    const apiKey = await getApiKeyFromBackend();
-    ai = new GoogleGenAI({ apiKey });
-    return ai;
-  } catch (error) {
-    console.error('Error initializing AI client:', error);
-    throw error;
-  }
+async function requestLiveGrant(path: string, { signal }: CallOptions = {}, body?: unknown): Promise<LiveSessionGrant> {
+  const grant = await apiJson<LiveSessionGrant>(path, {
+    method: 'POST',
+    body,
+    signal,
+    errorMessage: 'Failed to obtain a live session token'
+  });
+  if (!grant.token) throw new ApiError('Live session token not provided by backend', 200);
+  return grant;
 }
 
 // ============================================
-// AGENT DISCOVERY ENDPOINTS
+// ACCOUNT ENDPOINTS
 // ============================================
 
-export async function getAvailableAgents() {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/agents`);
-    if (!response.ok) throw new Error('Failed to fetch agents');
-    const data = await response.json();
-    return data.agents;
-  } catch (error) {
-    console.error('Error fetching agents:', error);
-    throw error;
-  }
+export interface SignUpDetails {
+  email: string;
+  password: string;
+  displayName?: string;
 }
 
-export async function getAgentConfig(agentName: string) {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/agents/${agentName}/config`);
-    if (!response.ok) throw new Error('Failed to fetch agent config');
-    const config = await response.json();
-    return config;
-  } catch (error) {
-    console.error('Error fetching agent config:', error);
-    throw error;
-  }
+export async function signUp(details: SignUpDetails, { signal }: CallOptions = {}): Promise<AuthSession> {
+  return apiJson<AuthSession>('/api/auth/signup', {
+    method: 'POST',
+    body: details,
+    signal,
+    retries: 0,
+    errorMessage: 'Failed to create account'
+  });
+}
+
+export async function signIn(email: string, password: string, { signal }: CallOptions = {}): Promise<AuthSession> {
+  return apiJson<AuthSession>('/api/auth/signin', {
+    method: 'POST',
+    body: { email, password },
+    signal,
+    retries: 0,
+    errorMessage: 'Failed to sign in'
+  });
+}
+
+/** Revokes the current session's token on the backend. */
+export async function signOut({ signal }: CallOptions = {}): Promise<void> {
+  await apiFetch('/api/auth/signout', {
+    method: 'POST',
+    signal,
+    errorMessage: 'Failed to sign out'
+  });
+}
+
+export async function getCurrentAccount({ signal }: CallOptions = {}): Promise<Account> {
+  const data = await apiJson<{ account: Account }>('/api/auth/me', {
+    signal,
+    errorMessage: 'Failed to load account'
+  });
+  return data.account;
 }
 
 // ============================================
-// CHAT ENDPOINTS
+// USAGE ENDPOINTS
 // ============================================
 
+/** Today's chat tokens and call seconds used, against the daily allowances. */
+export async function getUsage({ signal }: CallOptions = {}): Promise<UsageSummary> {
+  return apiJson<UsageSummary>('/api/usage', {
+    signal,
+    errorMessage: 'Failed to load usage'
+  });
+}
+
+// ============================================
+// AGENT DISCOVERY ENDPOINTS
+// ============================================
+
+export async function getAvailableAgents({ signal }: CallOptions = {}): Promise<AgentSummary[]> {
+  const data = await apiJson<{ agents: AgentSummary[] }>('/api/agents', {
+    signal,
+    errorMessage: 'Failed to fetch agents'
+  });
+  return data.agents;
+}
+
+export async function getAgentConfig(agentName: string, { signal }: CallOptions = {}): Promise<AgentConfig> {
+  return apiJson<AgentConfig>(`/api/agents/${encodeURIComponent(agentName)}/config`, {
+    signal,
+    errorMessage: 'Failed to fetch agent config'
+  });
+}
+
 // ============================================
 // CHAT ENDPOINTS
 // ============================================
@@ -74,79 +163,279 @@ export async function getAgentConfig(agentName: string) {
 export async function streamTextResponse(
   agentName: string,
   message: string,
-  history: any[]
-): Promise<ReadableStream<Uint8Array> | null> {
+  history: ChatTurn[],
+  { signal, attachments = [], conversationId, summary }: StreamChatOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await apiFetch(`/api/agents/${encodeURIComponent(agentName)}/chat/stream`, {
+    method: 'POST',
+    body: {
+      prompt: message,
+      history: history.map(({ role, text }) => ({ role, text })),
+      summary,
+      attachments: attachments.map(({ mimeType, data }) => ({ mimeType, data })),
+      conversationId,
+    },
+    signal,
+    errorMessage: 'Failed to stream chat response'
+  });
+  if (!response.body) throw new ApiError('No stream received', response.status);
+  return response.body;
+}
+
+/** Folds older chat turns into the running `summary`, resolving to the new summary. */
+export async function summarizeConversation(
+  agentName: string,
+  transcript: ChatTurn[],
+  summary?: string,
+  { signal }: CallOptions = {}
+): Promise<string> {
+  const data = await apiJson<{ summary: string }>(`/api/agents/${encodeURIComponent(agentName)}/chat/summarize`, {
+    method: 'POST',
+    body: { summary, transcript },
+    signal,
+    errorMessage: 'Failed to summarize conversation'
+  });
+  return data.summary;
+}
+
+/**
+ * Incrementally parses the newline-delimited JSON chat stream into
+ * `StreamResponse` frames. Lines may be split across network chunks, so
+ * anything after the last newline is buffered until more data arrives.
+ */
+export async function* readStreamResponses(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamResponse> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseLine = (line: string): StreamResponse | null => {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+    try {
+      return JSON.parse(trimmed) as StreamResponse;
+    } catch {
+      throw new Error(`Malformed stream frame: ${trimmed.slice(0, 80)}`);
+    }
+  };
+
   try {
-    const response = await fetch(
-      `${API_BASE_URL}/api/agents/${agentName}/chat/stream`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt: message, history })
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const frame = parseLine(line);
+        if (frame) yield frame;
       }
-    );
+    }
 
-    if (!response.ok) throw new Error('Failed to stream chat response');
-    return response.body;
-  } catch (error) {
-    console.error('Error streaming chat:', error);
-    throw error;
+    const last = parseLine(buffer + decoder.decode());
+    if (last) yield last;
+  } finally {
+    reader.releaseLock();
   }
 }
 
+export async function sendFeedback(
+  agentName: string,
+  feedback: MessageFeedback,
+  { signal }: CallOptions = {}
+): Promise<void> {
+  await apiFetch(`/api/agents/${encodeURIComponent(agentName)}/feedback`, {
+    method: 'POST',
+    body: feedback,
+    signal,
+    errorMessage: 'Failed to send feedback'
+  });
+}
+
+// ============================================
+// SAFETY ENDPOINTS
+// ============================================
+
+/**
+ * Live audio goes straight to the model, so each transcribed turn is checked
+ * here afterwards. Resolves to the intervention to show, or `null`.
+ */
+export async function moderateTranscript(
+  agentName: string,
+  turn: TranscriptTurn,
+  { signal }: CallOptions = {}
+): Promise<SafetyIntervention | null> {
+  const data = await apiJson<{ intervention: SafetyIntervention | null }>(`/api/agents/${encodeURIComponent(agentName)}/moderate`, {
+    method: 'POST',
+    body: turn,
+    signal,
+    errorMessage: 'Failed to check transcript'
+  });
+  return data.intervention;
+}
+
+/** Records that a visitor said they are under age, for the audit log. */
+export async function reportAgeGateDeclined({ signal }: CallOptions = {}): Promise<void> {
+  await apiFetch('/api/safety/age-gate', {
+    method: 'POST',
+    body: { outcome: 'declined' },
+    signal,
+    errorMessage: 'Failed to record age check'
+  });
+}
+
+// ============================================
+// MEMORY ENDPOINTS
+// ============================================
+
+const memoriesPath = (agentName: string) => `/api/agents/${encodeURIComponent(agentName)}/memories`;
+
+/** What the agent remembers about this user, oldest first. */
+export async function listMemories(agentName: string, { signal }: CallOptions = {}): Promise<Memory[]> {
+  const data = await apiJson<{ memories: Memory[] }>(memoriesPath(agentName), {
+    signal,
+    errorMessage: 'Failed to load memories'
+  });
+  return data.memories;
+}
+
+export async function updateMemory(
+  agentName: string,
+  id: string,
+  text: string,
+  { signal }: CallOptions = {}
+): Promise<Memory> {
+  const data = await apiJson<{ memory: Memory }>(`${memoriesPath(agentName)}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: { text },
+    signal,
+    errorMessage: 'Failed to update memory'
+  });
+  return data.memory;
+}
+
+export async function deleteMemory(agentName: string, id: string, { signal }: CallOptions = {}): Promise<void> {
+  await apiFetch(`${memoriesPath(agentName)}/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    signal,
+    errorMessage: 'Failed to delete memory'
+  });
+}
+
+/**
+ * Voice calls never pass through the backend's chat route, so a finished
+ * call's transcript is sent here to pick out anything worth remembering.
+ */
+export async function rememberTranscript(
+  agentName: string,
+  transcript: ChatHistoryItem[],
+  { signal }: CallOptions = {}
+): Promise<Memory[]> {
+  const data = await apiJson<{ memories: Memory[] }>(`${memoriesPath(agentName)}/extract`, {
+    method: 'POST',
+    body: { transcript },
+    signal,
+    errorMessage: 'Failed to save memories'
+  });
+  return data.memories;
+}
 
 // ============================================
 // LIVE CONVERSATION ENDPOINTS
 // ============================================
 
-export async function getLiveConfig(agentName: string) {
-  try {
-    const response = await fetch(
-      `${API_BASE_URL}/api/agents/${agentName}/live/config`
-    );
-    if (!response.ok) throw new Error('Failed to fetch live config');
-    const config = await response.json();
-    return config;
-  } catch (error) {
-    console.error('Error fetching live config:', error);
-    throw error;
-  }
+export async function getLiveConfig(agentName: string, { signal }: CallOptions = {}): Promise<LiveConfig> {
+  return apiJson<LiveConfig>(`/api/agents/${encodeURIComponent(agentName)}/live/config`, {
+    signal,
+    errorMessage: 'Failed to fetch live config'
+  });
 }
 
-export async function startLiveConversation(agentName: string, callbacks: any) {
-  try {
-    const [config, aiClient] = await Promise.all([
-      getLiveConfig(agentName),
-      getAiClient()
-    ]);
-
-    const session = await aiClient.liveConnect({
-      model: config.model,
-      systemInstruction: config.systemInstruction,
-      voiceConfig: {
-        voiceName: config.voiceName || 'Puck'
-      },
+function connectLive(grant: LiveSessionGrant, label: string, callbacks: LiveSessionCallbacks): Promise<Session> {
+  // Ephemeral tokens are only accepted on the v1alpha API surface.
+  const aiClient = new GoogleGenAI({ apiKey: grant.token, httpOptions: { apiVersion: 'v1alpha' } });
+
+  return aiClient.live.connect({
+    model: grant.model,
+    config: grant.config,
+    callbacks: {
       onopen: () => {
-        console.log('Live session opened');
-        callbacks?.onopen?.();
+        console.log(`${label} session opened`);
+        callbacks.onopen?.();
       },
       onmessage: (message: LiveServerMessage) => {
-        console.log('Live message received:', message);
-        callbacks?.onmessage?.(message);
+        callbacks.onmessage(message);
       },
-      onerror: (error: Error) => {
-        console.error('Live session error:', error);
-        callbacks?.onerror?.(error);
+      onerror: (error: ErrorEvent) => {
+        callbacks.onerror?.(error);
       },
-      onclose: () => {
-        console.log('Live session closed');
-        callbacks?.onclose?.();
+      onclose: (event: CloseEvent) => {
+        console.log(`${label} session closed`);
+        callbacks.onclose?.(event);
       }
-    });
+    }
+  });
+}
 
-    return session;
-  } catch (error) {
-    console.error('Error starting live conversation:', error);
-    throw error;
-  }
+/**
+ * Opens a voice session with an agent. Each call mints a fresh single-use
+ * token; pass the latest `sessionResumptionUpdate.newHandle` to reconnect to
+ * the same conversation after the socket drops or the server sends `goAway`.
+ */
+export async function startLiveConversation(
+  agentName: string,
+  callbacks: LiveSessionCallbacks,
+  { resumptionHandle, replacesSessionId, language, onAllowance, ...options }: LiveConnectOptions = {}
+): Promise<Session> {
+  const grant = await requestLiveGrant(
+    `/api/agents/${encodeURIComponent(agentName)}/live/token`,
+    options,
+    { resumptionHandle, replacesSessionId, language }
+  );
+  if (grant.allowance) onAllowance?.(grant.allowance);
+  return connectLive(grant, 'Live', callbacks);
+}
+
+/** Stops billing call time for a session the user has hung up. */
+export async function endLiveSession(agentName: string, sessionId: string, { signal, keepalive }: EndSessionOptions = {}): Promise<void> {
+  await apiFetch(`/api/agents/${encodeURIComponent(agentName)}/live/end`, {
+    method: 'POST',
+    body: { sessionId },
+    signal,
+    keepalive,
+    // Ending a session twice is harmless, and a lost end is billed until it runs out.
+    retries: keepalive ? 0 : 2,
+    errorMessage: 'Failed to end live session'
+  });
+}
+
+// ============================================
+// TRANSCRIPTION ENDPOINTS
+// ============================================
+
+/**
+ * Opens a live session used only for its input transcription. The model's
+ * own replies are ignored by the caller; only `inputTranscription` matters.
+ */
+export async function startTranscriptionSession(
+  callbacks: LiveSessionCallbacks,
+  { language, onAllowance, ...options }: TranscriptionOptions = {}
+): Promise<Session> {
+  const grant = await requestLiveGrant('/api/transcribe/token', options, { language });
+  if (grant.allowance) onAllowance?.(grant.allowance);
+  return connectLive(grant, 'Transcription', callbacks);
+}
+
+/** Stops billing call time for a transcription the user has stopped; retried like `endLiveSession`. */
+export async function endTranscriptionSession(sessionId: string, { signal, keepalive }: EndSessionOptions = {}): Promise<void> {
+  await apiFetch('/api/transcribe/end', {
+    method: 'POST',
+    body: { sessionId },
+    signal,
+    keepalive,
+    retries: keepalive ? 0 : 2,
+    errorMessage: 'Failed to end transcription session'
+  });
 }
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, isLanguage, translate } from './i18n';
+import en from './locales/en';
+import hi from './locales/hi';
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+describe('translate', () => {
+  it('looks up the catalog for the language', () => {
+    expect(translate('en', 'mode.Chat')).toBe('Chat');
+    expect(translate('hi', 'mode.Chat')).toBe('चैट');
+  });
+
+  it('fills in placeholders and leaves unknown ones alone', () => {
+    expect(translate('en', 'welcome.chatWith', { name: 'Rani' })).toBe('Chat with Rani');
+    expect(translate('en', 'chat.error.tooManyImages', { count: 4 })).toBe('You can attach up to 4 images per message.');
+    expect(translate('en', 'welcome.chatWith')).toBe('Chat with {name}');
+  });
+});
+
+describe('catalogs', () => {
+  it('use the same placeholders in every language', () => {
+    for (const key of Object.keys(en) as (keyof typeof en)[]) {
+      expect(placeholders(hi[key]), key).toEqual(placeholders(en[key]));
+    }
+  });
+});
+
+describe('detectLanguage', () => {
+  it('takes the first supported browser preference', () => {
+    expect(detectLanguage(['hi-IN', 'en-US'])).toBe('hi');
+    expect(detectLanguage(['fr-FR', 'en-GB'])).toBe('en');
+    expect(detectLanguage([])).toBe('en');
+  });
+
+  it('only accepts known language codes', () => {
+    expect(isLanguage('hi')).toBe(true);
+    expect(isLanguage('constructor')).toBe(false);
+    expect(isLanguage(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+import type { Language } from '../types';
+import en from './locales/en';
+import hi from './locales/hi';
+
+export type MessageKey = keyof typeof en;
+/** A full set of UI strings; typing each catalog with this makes a missing key a compile error. */
+export type Catalog = Record<MessageKey, string>;
+/** Values for a message's `{placeholder}`s. */
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+/** A message chosen outside React, translated where it is shown: `t(...ref)`. */
+export type MessageRef = [key: MessageKey, params?: MessageParams];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+/** The switcher's options, each labelled in its own language. */
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'hi', label: 'हिन्दी' },
+];
+
+const CATALOGS: Record<Language, Catalog> = { en, hi };
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.some(option => option.code === value);
+}
+
+/**
+ * Looks up `key` in the language's catalog, falling back to English, and
+ * fills in `{placeholder}`s from `params`. Unknown placeholders are left as is.
+ */
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[language][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/** Picks the first supported language from the browser's preferences (e.g. `hi-IN`). */
+export function detectLanguage(preferences: readonly string[]): Language {
+  for (const preference of preferences) {
+    const [base] = preference.toLowerCase().split('-');
+    if (isLanguage(base)) return base;
+  }
+  return DEFAULT_LANGUAGE;
+}
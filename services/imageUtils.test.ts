@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { attachmentToDataUrl, fitWithin } from './imageUtils';
+
+describe('fitWithin', () => {
+    it('scales the longest side down to the limit, keeping the aspect ratio', () => {
+        expect(fitWithin(4000, 3000, 1024)).toEqual({ width: 1024, height: 768 });
+        expect(fitWithin(1000, 2000, 500)).toEqual({ width: 250, height: 500 });
+    });
+
+    it('never upscales small images', () => {
+        expect(fitWithin(320, 240, 1024)).toEqual({ width: 320, height: 240 });
+    });
+
+    it('keeps extreme aspect ratios at least one pixel wide', () => {
+        expect(fitWithin(10000, 2, 100)).toEqual({ width: 100, height: 1 });
+    });
+});
+
+describe('attachmentToDataUrl', () => {
+    it('builds a base64 data URL', () => {
+        expect(attachmentToDataUrl({ mimeType: 'image/jpeg', data: 'AAAA' })).toBe('data:image/jpeg;base64,AAAA');
+    });
+});
@@ -0,0 +1,56 @@
+import type { MessageAttachment } from '../types';
+
+/** Longest side of an image attached in chat; larger images are downscaled before upload. */
+export const CHAT_IMAGE_MAX_DIMENSION = 1024;
+/** Longest side of a camera frame sent to a live session. */
+export const CAMERA_FRAME_MAX_DIMENSION = 640;
+/** Longest side of the camera snapshot kept in the transcript. */
+export const THUMBNAIL_MAX_DIMENSION = 160;
+
+/** Scales `width` x `height` down (never up) so neither side exceeds `maxDimension`. */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale)),
+    };
+}
+
+export function attachmentToDataUrl({ mimeType, data }: MessageAttachment): string {
+    return `data:${mimeType};base64,${data}`;
+}
+
+function drawToJpeg(
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    maxDimension: number,
+    quality: number
+): MessageAttachment {
+    const { width, height } = fitWithin(sourceWidth, sourceHeight, maxDimension);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is unavailable');
+    ctx.drawImage(source, 0, 0, width, height);
+    const dataUrl = canvas.toDataURL('image/jpeg', quality);
+    return { mimeType: 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+}
+
+/** Decodes an image file and re-encodes it as a downscaled JPEG. */
+export async function readImageFile(file: Blob, maxDimension = CHAT_IMAGE_MAX_DIMENSION): Promise<MessageAttachment> {
+    if (!file.type.startsWith('image/')) throw new Error('Only images can be attached');
+    const bitmap = await createImageBitmap(file);
+    try {
+        return drawToJpeg(bitmap, bitmap.width, bitmap.height, maxDimension, 0.85);
+    } finally {
+        bitmap.close();
+    }
+}
+
+/** Grabs the current frame of a playing video as a downscaled JPEG, or null before the first frame. */
+export function captureVideoFrame(video: HTMLVideoElement, maxDimension: number, quality = 0.7): MessageAttachment | null {
+    if (!video.videoWidth || !video.videoHeight) return null;
+    return drawToJpeg(video, video.videoWidth, video.videoHeight, maxDimension, quality);
+}
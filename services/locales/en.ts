@@ -0,0 +1,221 @@
+// English UI strings; the reference catalog every other language must cover.
+// `{name}`-style placeholders are filled in by `translate`.
+
+const en = {
+  'language.label': 'Language',
+
+  'mode.Chat': 'Chat',
+  'mode.Talk': 'Talk',
+  'mode.Transcribe': 'Transcribe',
+
+  'common.loadingAgents': 'Loading agents...',
+  'common.retry': 'Retry',
+  'common.importFailed': 'Import failed: {error}',
+  'common.agentUnavailable': 'The agent "{name}" from this export isn\'t available.',
+  'common.conversationNotFound': 'That conversation could not be found.',
+
+  'picker.title': 'Select an Agent',
+
+  'header.endChat': 'End Chat',
+  'header.endChatTitle': 'End Chat & Go Home',
+
+  'welcome.title': 'Welcome',
+  'welcome.tagline': 'Your Virtual Companion',
+  'welcome.chatWith': 'Chat with {name}',
+  'welcome.chatHint': 'Type and get instant replies.',
+  'welcome.talkWith': 'Talk with {name}',
+  'welcome.talkHint': 'Have a live voice conversation.',
+  'welcome.transcribeHint': 'Turn your speech into timestamped text.',
+  'welcome.footer': 'Choose an option to start a conversation. You can end the chat anytime from the header.',
+
+  'chat.history': 'History',
+  'chat.voiceCall': 'Voice Call',
+  'chat.endCall': 'End Call',
+  'chat.changeAgent': 'Change Agent',
+  'chat.empty': 'Start a conversation with {name}',
+  'chat.typing': 'typing...',
+  'chat.connecting': 'Connecting...',
+  'chat.reconnecting': 'Connection lost. Reconnecting...',
+  'chat.onCall': 'On a call with {name}. Just start talking.',
+  'chat.attachImages': 'Attach images',
+  'chat.placeholder': 'Message {name}...',
+  'chat.stop': 'Stop',
+  'chat.stopTitle': 'Stop generating',
+  'chat.linkedNotFound': 'That conversation could not be found, so the latest one was opened instead.',
+  'chat.importVoice': 'This is a voice call transcript. Import it from Talk instead.',
+  'chat.error.voice': 'Voice call error: {error}',
+  'chat.error.loadAgent': 'Error loading agent: {error}',
+  'chat.error.reply': 'Chat error: {error}',
+  'chat.error.tooManyImages': 'You can attach up to {count} images per message.',
+  'chat.error.attach': 'Could not attach image: {error}',
+
+  'talk.status.idle': 'Click the button to start talking',
+  'talk.status.connecting': 'Connecting...',
+  'talk.status.open': 'Connection open. You can start talking.',
+  'talk.status.reconnecting': 'Connection lost. Reconnecting...',
+  'talk.status.ended': 'Conversation ended. Click to start again.',
+  'talk.history': 'History',
+  'talk.hideHistory': 'Hide history',
+  'talk.changeAgent': 'Change agent',
+  'talk.voice': 'Voice: {voice}',
+  'talk.empty': 'Your conversation will appear here.',
+  'talk.interrupted': 'Interrupted',
+  'talk.cameraOn': 'Turn camera on',
+  'talk.cameraOff': 'Turn camera off',
+  'talk.startCall': 'Start call',
+  'talk.endCall': 'End call',
+  'talk.recording': '● Recording',
+  'talk.recordCalls': 'Record calls',
+  'talk.downloadAudio': 'Download audio',
+  'talk.downloadTranscript': 'Download transcript',
+  'talk.importChat': 'This is a chat conversation. Import it from Chat instead.',
+
+  'safety.crisis.title': 'You don\'t have to go through this alone',
+  'safety.crisis.body': 'If you are thinking about harming yourself, please talk to someone now. These helplines are free and confidential.',
+  'safety.helpline.teleManas': 'Government of India mental health helpline, 24x7, in many languages',
+  'safety.helpline.vandrevala': 'Counselling by call or WhatsApp, 24x7',
+  'safety.helpline.emergency': 'Emergency services, if you are in immediate danger',
+  'safety.blockedInput': 'I can\'t respond to that message.',
+  'safety.withheld': 'This reply was withheld by the safety filter.',
+
+  'age.title': 'Are you {age} or older?',
+  'age.body': 'This companion is for adults only. Please confirm your age to continue.',
+  'age.confirm': 'Yes, I\'m {age} or older',
+  'age.decline': 'No, I\'m under {age}',
+  'age.declined': 'Sorry, this app is only for adults aged {age} and over.',
+
+  'memory.button': 'Memories',
+  'memory.title': 'What {name} remembers',
+  'memory.hint': '{name} remembers these things about you across chats and calls. Edit anything that is wrong or delete what you would rather keep to yourself.',
+  'memory.empty': 'Nothing yet. {name} will remember things you share, like your name or what you enjoy.',
+  'memory.edit': 'Edit',
+  'memory.delete': 'Delete',
+  'memory.confirmDelete': 'Forget "{text}"?',
+  'memory.close': 'Close',
+  'memory.error': 'Could not update memories: {error}',
+
+  'auth.signIn.title': 'Welcome back',
+  'auth.signUp.title': 'Create your account',
+  'auth.hint': 'Sign in to chat and talk with {name}.',
+  'auth.hintGeneric': 'Sign in to chat and talk with your companion.',
+  'auth.displayName': 'Your name (optional)',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.newPassword': 'Password (at least {count} characters)',
+  'auth.signIn': 'Sign in',
+  'auth.signUp': 'Create account',
+  'auth.toSignUp': 'New here? Create an account',
+  'auth.toSignIn': 'Already have an account? Sign in',
+  'auth.signOut': 'Sign out',
+  'auth.wrongCredentials': 'That email and password don\'t match.',
+  'auth.emailTaken': 'There is already an account with that email. Try signing in.',
+  'auth.expired': 'Your session has ended. Please sign in again.',
+  'auth.forbidden': 'This account can\'t be used right now. Please contact support.',
+
+  'usage.chatRemaining': '{percent}% of today\'s chat allowance left',
+  'usage.liveRemaining': '{minutes} min of calls left today',
+  'usage.chatReached': 'You\'ve reached today\'s chat limit. It resets at {time}.',
+  'usage.liveReached': 'You\'ve used today\'s call time. It resets at {time}.',
+  'usage.rate': 'That\'s a lot of messages in a short time. Try again in {seconds} seconds.',
+
+  'message.edit': 'Edit',
+  'message.cancel': 'Cancel',
+  'message.send': 'Send',
+  'message.stopped': 'Stopped',
+  'message.interrupted': 'Interrupted',
+  'message.voice': 'Voice',
+  'message.voiceTitle': 'From a voice call',
+  'message.goodReply': 'Good reply',
+  'message.badReply': 'Bad reply',
+  'message.react': 'React',
+  'message.removeReaction': 'Remove reaction',
+  'message.previousVersion': 'Previous version',
+  'message.nextVersion': 'Next version',
+  'message.regenerate': 'Regenerate',
+
+  'common.loadAgentsFailed': 'Error loading agents: {error}',
+  'error.network': 'Can\'t reach the server. Check your connection and try again.',
+  'error.auth': 'You are not allowed to do that. Please sign in again.',
+  'error.rate': 'Too many requests. Please wait a moment.',
+  'error.rateRetry': 'Too many requests. Try again in {seconds}s.',
+  'error.server': 'The server had a problem. Please try again shortly.',
+  'error.request': '{message}',
+  'error.unknown': 'Something went wrong. Please try again.',
+  'live.error.microphone': 'Could not start the microphone.',
+  'live.error.microphoneDenied': 'Microphone permission denied.',
+  'live.error.cameraDenied': 'Camera permission denied.',
+  'live.error.lost': 'Lost connection to the call.',
+  'live.error.generic': 'An error occurred.',
+  'live.error.busy': 'You already have a call or transcription in progress. End it before starting another.',
+
+  'transcribe.status.idle': 'Click the button to start transcribing',
+  'transcribe.status.connecting': 'Connecting...',
+  'transcribe.status.recording': 'Listening...',
+  'transcribe.status.paused': 'Paused',
+  'transcribe.status.stopped': 'Transcription finished.',
+  'transcribe.empty': 'Your transcript will appear here.',
+  'transcribe.start': 'Start transcribing',
+  'transcribe.stop': 'Stop',
+  'transcribe.pause': 'Pause',
+  'transcribe.resume': 'Resume',
+  'transcribe.copy': 'Copy transcript',
+  'transcribe.copied': 'Copied!',
+  'transcribe.download': 'Download transcript',
+  'transcribe.error': 'An error occurred. Please try again.',
+
+  'notFound.agent.title': 'Agent not found',
+  'notFound.agent.message': 'There is no agent called "{name}".',
+  'notFound.agent.action': 'Choose an agent',
+  'notFound.page.title': 'Page not found',
+  'notFound.page.message': 'Nothing lives at {path}.',
+  'notFound.page.action': 'Go home',
+  'markdown.copyCode': 'Copy code',
+  'markdown.copy': 'Copy',
+  'markdown.copied': 'Copied!',
+  'markdown.code': 'code',
+  'history.new': '+ New conversation',
+  'history.empty': 'No saved conversations yet.',
+  'history.rename': 'Rename',
+  'history.delete': 'Delete',
+  'history.confirmDelete': 'Delete "{title}"?',
+  'history.untitled.chat': 'Chat {date}',
+  'history.untitled.voice': 'Voice call {date}',
+  'recording.you': 'You',
+  'import.error.notJson': 'This file is not valid JSON. Only JSON exports can be imported.',
+  'import.error.notExport': 'This file is not a conversation export.',
+  'import.error.noVersion': 'This export has no version number and cannot be imported.',
+  'import.error.newer': 'This export is from a newer version of the app (format v{version}). Update the app to import it.',
+  'import.error.older': 'This export uses an older format (v{version}) that is no longer supported. Only v{current} exports can be imported.',
+  'import.error.noConversation': 'This export does not contain a conversation.',
+  'import.error.noAgent': 'This export does not say which agent the conversation was with.',
+  'import.error.unknownKind': 'This export has an unknown conversation type.',
+  'import.error.noMessages': 'This export has no messages.',
+  'import.error.summary': 'This export has an invalid conversation summary.',
+  'import.error.message.notObject': 'Message {index} is not an object.',
+  'import.error.message.noId': 'Message {index} is missing its id.',
+  'import.error.message.noText': 'Message {index} is missing its text.',
+  'import.error.message.unknownSender': 'Message {index} has an unknown sender.',
+  'import.error.message.sources': 'Message {index} has invalid sources.',
+  'import.error.message.attachments': 'Message {index} has invalid image attachments.',
+  'import.error.message.variants': 'Message {index} has invalid reply variants.',
+  'import.error.message.variantIndex': 'Message {index} points at a reply variant that doesn\'t exist.',
+  'import.error.message.intervention': 'Message {index} has an invalid safety notice.',
+
+  'attachment.alt': 'Attachment {number}',
+  'attachment.remove': 'Remove image',
+
+  'transfer.export': 'Export',
+  'transfer.import': 'Import',
+  'transfer.format.json': 'JSON (re-importable)',
+  'transfer.format.markdown': 'Markdown',
+  'transfer.format.text': 'Plain text',
+  'export.you': 'You',
+  'export.untitled': 'Conversation',
+  'export.heading.chat': 'Chat with {name} · {date}',
+  'export.heading.voice': 'Voice call with {name} · {date}',
+  'export.images': '{count} image(s) attached',
+  'export.sources': 'Sources:',
+  'export.source': 'Source:',
+};
+
+export default en;
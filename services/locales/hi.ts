@@ -0,0 +1,223 @@
+import type { Catalog } from '../i18n';
+
+// Hindi UI strings. Everyday words that Hindi speakers use in English
+// (chat, agent, camera) are kept as loanwords rather than formal coinages.
+
+const hi: Catalog = {
+  'language.label': 'भाषा',
+
+  'mode.Chat': 'चैट',
+  'mode.Talk': 'बात करें',
+  'mode.Transcribe': 'लिखित रूप',
+
+  'common.loadingAgents': 'एजेंट लोड हो रहे हैं...',
+  'common.retry': 'फिर से कोशिश करें',
+  'common.importFailed': 'इंपोर्ट नहीं हो सका: {error}',
+  'common.agentUnavailable': 'इस एक्सपोर्ट का एजेंट "{name}" उपलब्ध नहीं है।',
+  'common.conversationNotFound': 'यह बातचीत नहीं मिली।',
+
+  'picker.title': 'एजेंट चुनें',
+
+  'header.endChat': 'चैट खत्म करें',
+  'header.endChatTitle': 'चैट खत्म करें और होम पर जाएँ',
+
+  'welcome.title': 'स्वागत है',
+  'welcome.tagline': 'आपकी वर्चुअल साथी',
+  'welcome.chatWith': '{name} से चैट करें',
+  'welcome.chatHint': 'लिखिए और तुरंत जवाब पाइए।',
+  'welcome.talkWith': '{name} से बात करें',
+  'welcome.talkHint': 'आवाज़ में लाइव बातचीत करें।',
+  'welcome.transcribeHint': 'अपनी बोली को समय के साथ लिखे टेक्स्ट में बदलें।',
+  'welcome.footer': 'बातचीत शुरू करने के लिए कोई विकल्प चुनें। आप ऊपर के हेडर से कभी भी चैट खत्म कर सकते हैं।',
+
+  'chat.history': 'पुरानी बातें',
+  'chat.voiceCall': 'वॉइस कॉल',
+  'chat.endCall': 'कॉल खत्म करें',
+  'chat.changeAgent': 'एजेंट बदलें',
+  'chat.empty': '{name} से बातचीत शुरू करें',
+  'chat.typing': 'लिख रही है...',
+  'chat.connecting': 'कनेक्ट हो रहा है...',
+  'chat.reconnecting': 'कनेक्शन टूट गया। फिर से जोड़ रहे हैं...',
+  'chat.onCall': '{name} के साथ कॉल पर हैं। बस बोलना शुरू करें।',
+  'chat.attachImages': 'तस्वीरें जोड़ें',
+  'chat.placeholder': '{name} को संदेश लिखें...',
+  'chat.stop': 'रोकें',
+  'chat.stopTitle': 'जवाब लिखना रोकें',
+  'chat.linkedNotFound': 'यह बातचीत नहीं मिली, इसलिए सबसे नई बातचीत खोली गई है।',
+  'chat.importVoice': 'यह वॉइस कॉल की ट्रांसक्रिप्ट है। इसे "बात करें" में इंपोर्ट करें।',
+  'chat.error.voice': 'वॉइस कॉल में गड़बड़ी: {error}',
+  'chat.error.loadAgent': 'एजेंट लोड नहीं हो सका: {error}',
+  'chat.error.reply': 'चैट में गड़बड़ी: {error}',
+  'chat.error.tooManyImages': 'एक संदेश में ज़्यादा से ज़्यादा {count} तस्वीरें जोड़ी जा सकती हैं।',
+  'chat.error.attach': 'तस्वीर नहीं जुड़ सकी: {error}',
+
+  'talk.status.idle': 'बात शुरू करने के लिए बटन दबाएँ',
+  'talk.status.connecting': 'कनेक्ट हो रहा है...',
+  'talk.status.open': 'कनेक्शन जुड़ गया। अब आप बोल सकते हैं।',
+  'talk.status.reconnecting': 'कनेक्शन टूट गया। फिर से जोड़ रहे हैं...',
+  'talk.status.ended': 'बातचीत खत्म हुई। फिर से शुरू करने के लिए दबाएँ।',
+  'talk.history': 'पुरानी बातें',
+  'talk.hideHistory': 'पुरानी बातें छिपाएँ',
+  'talk.changeAgent': 'एजेंट बदलें',
+  'talk.voice': 'आवाज़: {voice}',
+  'talk.empty': 'आपकी बातचीत यहाँ दिखेगी।',
+  'talk.interrupted': 'बीच में रोका गया',
+  'talk.cameraOn': 'कैमरा चालू करें',
+  'talk.cameraOff': 'कैमरा बंद करें',
+  'talk.startCall': 'कॉल शुरू करें',
+  'talk.endCall': 'कॉल खत्म करें',
+  'talk.recording': '● रिकॉर्डिंग',
+  'talk.recordCalls': 'कॉल रिकॉर्ड करें',
+  'talk.downloadAudio': 'ऑडियो डाउनलोड करें',
+  'talk.downloadTranscript': 'ट्रांसक्रिप्ट डाउनलोड करें',
+  'talk.importChat': 'यह चैट की बातचीत है। इसे "चैट" में इंपोर्ट करें।',
+
+  'safety.crisis.title': 'आप इसमें अकेले नहीं हैं',
+  'safety.crisis.body': 'अगर आप खुद को नुकसान पहुँचाने के बारे में सोच रहे हैं, तो कृपया अभी किसी से बात करें। ये हेल्पलाइन मुफ़्त और गोपनीय हैं।',
+  'safety.helpline.teleManas': 'भारत सरकार की मानसिक स्वास्थ्य हेल्पलाइन, 24x7, कई भाषाओं में',
+  'safety.helpline.vandrevala': 'कॉल या WhatsApp पर काउंसलिंग, 24x7',
+  'safety.helpline.emergency': 'आपातकालीन सेवाएँ, अगर आप तुरंत खतरे में हैं',
+  'safety.blockedInput': 'मैं इस संदेश का जवाब नहीं दे सकती।',
+  'safety.withheld': 'सुरक्षा फ़िल्टर ने यह जवाब रोक दिया।',
+
+  'age.title': 'क्या आपकी उम्र {age} साल या उससे ज़्यादा है?',
+  'age.body': 'यह साथी सिर्फ़ वयस्कों के लिए है। आगे बढ़ने के लिए कृपया अपनी उम्र की पुष्टि करें।',
+  'age.confirm': 'हाँ, मेरी उम्र {age} साल या ज़्यादा है',
+  'age.decline': 'नहीं, मेरी उम्र {age} साल से कम है',
+  'age.declined': 'माफ़ कीजिए, यह ऐप सिर्फ़ {age} साल और उससे ज़्यादा उम्र के वयस्कों के लिए है।',
+
+  'memory.button': 'यादें',
+  'memory.title': '{name} को क्या याद है',
+  'memory.hint': '{name} चैट और कॉल में आपके बारे में ये बातें याद रखती है। जो गलत हो उसे बदलें, और जो आप अपने तक रखना चाहें उसे हटा दें।',
+  'memory.empty': 'अभी कुछ नहीं। आप जो बताएँगे, जैसे आपका नाम या आपको क्या पसंद है, {name} उसे याद रखेगी।',
+  'memory.edit': 'बदलें',
+  'memory.delete': 'हटाएँ',
+  'memory.confirmDelete': '"{text}" भूल जाएँ?',
+  'memory.close': 'बंद करें',
+  'memory.error': 'यादें अपडेट नहीं हो सकीं: {error}',
+
+  'auth.signIn.title': 'फिर से स्वागत है',
+  'auth.signUp.title': 'अपना खाता बनाएँ',
+  'auth.hint': '{name} से चैट और बात करने के लिए साइन इन करें।',
+  'auth.hintGeneric': 'अपने साथी से चैट और बात करने के लिए साइन इन करें।',
+  'auth.displayName': 'आपका नाम (वैकल्पिक)',
+  'auth.email': 'ईमेल',
+  'auth.password': 'पासवर्ड',
+  'auth.newPassword': 'पासवर्ड (कम से कम {count} अक्षर)',
+  'auth.signIn': 'साइन इन करें',
+  'auth.signUp': 'खाता बनाएँ',
+  'auth.toSignUp': 'नए हैं? खाता बनाएँ',
+  'auth.toSignIn': 'पहले से खाता है? साइन इन करें',
+  'auth.signOut': 'साइन आउट',
+  'auth.wrongCredentials': 'ईमेल और पासवर्ड मेल नहीं खाते।',
+  'auth.emailTaken': 'इस ईमेल से पहले से एक खाता है। साइन इन करके देखें।',
+  'auth.expired': 'आपका सेशन खत्म हो गया है। कृपया फिर से साइन इन करें।',
+  'auth.forbidden': 'यह खाता अभी इस्तेमाल नहीं किया जा सकता। कृपया सहायता से संपर्क करें।',
+
+  'usage.chatRemaining': 'आज की चैट सीमा का {percent}% बाकी है',
+  'usage.liveRemaining': 'आज कॉल के {minutes} मिनट बाकी हैं',
+  'usage.chatReached': 'आज की चैट सीमा पूरी हो गई है। यह {time} बजे फिर से शुरू होगी।',
+  'usage.liveReached': 'आज का कॉल समय पूरा हो गया है। यह {time} बजे फिर से शुरू होगा।',
+  'usage.rate': 'कम समय में बहुत सारे संदेश भेजे गए हैं। {seconds} सेकंड बाद फिर कोशिश करें।',
+
+  'message.edit': 'बदलें',
+  'message.cancel': 'रद्द करें',
+  'message.send': 'भेजें',
+  'message.stopped': 'रोका गया',
+  'message.interrupted': 'बीच में रोका गया',
+  'message.voice': 'आवाज़',
+  'message.voiceTitle': 'वॉइस कॉल से',
+  'message.goodReply': 'अच्छा जवाब',
+  'message.badReply': 'खराब जवाब',
+  'message.react': 'प्रतिक्रिया दें',
+  'message.removeReaction': 'प्रतिक्रिया हटाएँ',
+  'message.previousVersion': 'पिछला जवाब',
+  'message.nextVersion': 'अगला जवाब',
+  'message.regenerate': 'दोबारा लिखें',
+
+  'common.loadAgentsFailed': 'एजेंट लोड नहीं हो सके: {error}',
+  'error.network': 'सर्वर से संपर्क नहीं हो पा रहा है। अपना कनेक्शन जाँचें और फिर कोशिश करें।',
+  'error.auth': 'आपको इसकी अनुमति नहीं है। कृपया फिर से साइन इन करें।',
+  'error.rate': 'बहुत सारे अनुरोध। कृपया थोड़ा रुकें।',
+  'error.rateRetry': 'बहुत सारे अनुरोध। {seconds} सेकंड बाद फिर कोशिश करें।',
+  'error.server': 'सर्वर में कोई समस्या आई। कृपया थोड़ी देर बाद फिर कोशिश करें।',
+  'error.request': 'अनुरोध पूरा नहीं हो सका: {message}',
+  'error.unknown': 'कुछ गड़बड़ हो गई। कृपया फिर कोशिश करें।',
+  'live.error.microphone': 'माइक्रोफ़ोन शुरू नहीं हो सका।',
+  'live.error.microphoneDenied': 'माइक्रोफ़ोन की अनुमति नहीं मिली।',
+  'live.error.cameraDenied': 'कैमरे की अनुमति नहीं मिली।',
+  'live.error.lost': 'कॉल से कनेक्शन टूट गया।',
+  'live.error.generic': 'कोई गड़बड़ी हुई।',
+  'live.error.busy': 'आपकी एक कॉल या ट्रांसक्रिप्शन पहले से चल रही है। नई शुरू करने से पहले उसे खत्म करें।',
+
+  'transcribe.status.idle': 'लिखना शुरू करने के लिए बटन दबाएँ',
+  'transcribe.status.connecting': 'कनेक्ट हो रहा है...',
+  'transcribe.status.recording': 'सुना जा रहा है...',
+  'transcribe.status.paused': 'रुका हुआ है',
+  'transcribe.status.stopped': 'ट्रांसक्रिप्शन पूरा हुआ।',
+  'transcribe.empty': 'आपकी ट्रांसक्रिप्ट यहाँ दिखेगी।',
+  'transcribe.start': 'ट्रांसक्रिप्शन शुरू करें',
+  'transcribe.stop': 'बंद करें',
+  'transcribe.pause': 'रोकें',
+  'transcribe.resume': 'जारी रखें',
+  'transcribe.copy': 'ट्रांसक्रिप्ट कॉपी करें',
+  'transcribe.copied': 'कॉपी हो गया!',
+  'transcribe.download': 'ट्रांसक्रिप्ट डाउनलोड करें',
+  'transcribe.error': 'कोई गड़बड़ी हुई। कृपया फिर कोशिश करें।',
+
+  'notFound.agent.title': 'एजेंट नहीं मिला',
+  'notFound.agent.message': '"{name}" नाम का कोई एजेंट नहीं है।',
+  'notFound.agent.action': 'एजेंट चुनें',
+  'notFound.page.title': 'पेज नहीं मिला',
+  'notFound.page.message': '{path} पर कुछ नहीं है।',
+  'notFound.page.action': 'होम पर जाएँ',
+  'markdown.copyCode': 'कोड कॉपी करें',
+  'markdown.copy': 'कॉपी',
+  'markdown.copied': 'कॉपी हो गया!',
+  'markdown.code': 'कोड',
+  'history.new': '+ नई बातचीत',
+  'history.empty': 'अभी कोई सहेजी गई बातचीत नहीं है।',
+  'history.rename': 'नाम बदलें',
+  'history.delete': 'हटाएँ',
+  'history.confirmDelete': '"{title}" हटाएँ?',
+  'history.untitled.chat': 'चैट {date}',
+  'history.untitled.voice': 'वॉइस कॉल {date}',
+  'recording.you': 'आप',
+  'import.error.notJson': 'यह फ़ाइल मान्य JSON नहीं है। केवल JSON एक्सपोर्ट इम्पोर्ट किए जा सकते हैं।',
+  'import.error.notExport': 'यह फ़ाइल बातचीत का एक्सपोर्ट नहीं है।',
+  'import.error.noVersion': 'इस एक्सपोर्ट में वर्ज़न नंबर नहीं है, इसलिए इसे इम्पोर्ट नहीं किया जा सकता।',
+  'import.error.newer': 'यह एक्सपोर्ट ऐप के नए वर्ज़न का है (फ़ॉर्मैट v{version})। इसे इम्पोर्ट करने के लिए ऐप अपडेट करें।',
+  'import.error.older': 'यह एक्सपोर्ट पुराने फ़ॉर्मैट (v{version}) में है, जो अब समर्थित नहीं है। केवल v{current} एक्सपोर्ट इम्पोर्ट किए जा सकते हैं।',
+  'import.error.noConversation': 'इस एक्सपोर्ट में कोई बातचीत नहीं है।',
+  'import.error.noAgent': 'इस एक्सपोर्ट में यह नहीं बताया गया कि बातचीत किस एजेंट से थी।',
+  'import.error.unknownKind': 'इस एक्सपोर्ट में बातचीत का प्रकार अज्ञात है।',
+  'import.error.noMessages': 'इस एक्सपोर्ट में कोई संदेश नहीं है।',
+  'import.error.summary': 'इस एक्सपोर्ट में बातचीत का सारांश अमान्य है।',
+  'import.error.message.notObject': 'संदेश {index} एक ऑब्जेक्ट नहीं है।',
+  'import.error.message.noId': 'संदेश {index} में id नहीं है।',
+  'import.error.message.noText': 'संदेश {index} में टेक्स्ट नहीं है।',
+  'import.error.message.unknownSender': 'संदेश {index} का भेजने वाला अज्ञात है।',
+  'import.error.message.sources': 'संदेश {index} के स्रोत अमान्य हैं।',
+  'import.error.message.attachments': 'संदेश {index} में संलग्न तस्वीरें अमान्य हैं।',
+  'import.error.message.variants': 'संदेश {index} के जवाब के विकल्प अमान्य हैं।',
+  'import.error.message.variantIndex': 'संदेश {index} जवाब के ऐसे विकल्प की ओर इशारा करता है जो मौजूद नहीं है।',
+  'import.error.message.intervention': 'संदेश {index} की सुरक्षा सूचना अमान्य है।',
+
+  'attachment.alt': 'संलग्न तस्वीर {number}',
+  'attachment.remove': 'तस्वीर हटाएँ',
+
+  'transfer.export': 'निर्यात करें',
+  'transfer.import': 'आयात करें',
+  'transfer.format.json': 'JSON (फिर से आयात योग्य)',
+  'transfer.format.markdown': 'Markdown',
+  'transfer.format.text': 'सादा टेक्स्ट',
+  'export.you': 'आप',
+  'export.untitled': 'बातचीत',
+  'export.heading.chat': '{name} के साथ चैट · {date}',
+  'export.heading.voice': '{name} के साथ वॉइस कॉल · {date}',
+  'export.images': '{count} तस्वीर(ें) संलग्न',
+  'export.sources': 'स्रोत:',
+  'export.source': 'स्रोत:',
+};
+
+export default hi;
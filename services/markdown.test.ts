@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown, safeHref } from './markdown';
+
+describe('parseInline', () => {
+    it('parses emphasis, strong and inline code', () => {
+        expect(parseInline('a **b** *c* `d`')).toEqual([
+            { type: 'text', text: 'a ' },
+            { type: 'strong', children: [{ type: 'text', text: 'b' }] },
+            { type: 'text', text: ' ' },
+            { type: 'em', children: [{ type: 'text', text: 'c' }] },
+            { type: 'text', text: ' ' },
+            { type: 'code', text: 'd' },
+        ]);
+    });
+
+    it('leaves unclosed markers as text so streaming output stays readable', () => {
+        expect(parseInline('so **excited')).toEqual([{ type: 'text', text: 'so **excited' }]);
+        expect(parseInline('run `npm')).toEqual([{ type: 'text', text: 'run `npm' }]);
+    });
+
+    it('does not treat underscores inside words as emphasis', () => {
+        expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }]);
+    });
+
+    it('keeps HTML as literal text', () => {
+        expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([
+            { type: 'text', text: '<img src=x onerror=alert(1)>' },
+        ]);
+    });
+
+    it('parses links and autolinks, dropping unsafe protocols', () => {
+        expect(parseInline('[docs](https://example.com/a)')).toEqual([
+            { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'docs' }] },
+        ]);
+        expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', text: 'click' }]);
+        expect(parseInline('see https://example.com/x.')).toEqual([
+            { type: 'text', text: 'see ' },
+            { type: 'link', href: 'https://example.com/x', children: [{ type: 'text', text: 'https://example.com/x' }] },
+            { type: 'text', text: '.' },
+        ]);
+    });
+});
+
+describe('parseMarkdown', () => {
+    it('parses headings, lists, quotes and paragraphs', () => {
+        const blocks = parseMarkdown('# Title\n\n- one\n- two\n\n3. three\n\n> quoted\n\nplain\ntext');
+        expect(blocks.map(block => block.type)).toEqual(['heading', 'list', 'list', 'blockquote', 'paragraph']);
+        expect(blocks[1]).toMatchObject({ ordered: false, items: [[{ text: 'one' }], [{ text: 'two' }]] });
+        expect(blocks[2]).toMatchObject({ ordered: true, start: 3 });
+        expect(blocks[4]).toEqual({
+            type: 'paragraph',
+            children: [{ type: 'text', text: 'plain' }, { type: 'break' }, { type: 'text', text: 'text' }],
+        });
+    });
+
+    it('parses fenced code and marks unterminated fences as still open', () => {
+        expect(parseMarkdown('```ts\nconst a = 1;\n```')).toEqual([
+            { type: 'code', lang: 'ts', text: 'const a = 1;', closed: true },
+        ]);
+        expect(parseMarkdown('```\n<b>partial')).toEqual([
+            { type: 'code', lang: '', text: '<b>partial', closed: false },
+        ]);
+    });
+});
+
+describe('safeHref', () => {
+    it('allows only http, https and mailto', () => {
+        expect(safeHref('https://example.com')).toBe('https://example.com/');
+        expect(safeHref('mailto:rani@example.com')).toBe('mailto:rani@example.com');
+        expect(safeHref('javascript:alert(1)')).toBeNull();
+        expect(safeHref('data:text/html,hi')).toBeNull();
+        expect(safeHref('/relative')).toBeNull();
+    });
+});
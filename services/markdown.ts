@@ -0,0 +1,209 @@
+// A small Markdown parser for chat bubbles. It produces a tree that the
+// <Markdown> component turns into React elements, so nothing is ever injected
+// as HTML: tags in model output come out as literal text. It is tolerant of
+// half-finished input, because replies are rendered while they stream.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] }
+  /** `closed` is false while a fenced block is still streaming in. */
+  | { type: 'code'; lang: string; text: string; closed: boolean }
+  | { type: 'blockquote'; children: BlockNode[] };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const AUTOLINK = /^https?:\/\/[^\s<>"]*[^\s<>".,:;'!?)\]]/;
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/** Returns the URL if it uses a safe protocol, otherwise null (drops `javascript:` and friends). */
+export function safeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function isBlockStart(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) body.push(lines[i++]);
+      const closed = i < lines.length;
+      if (closed) i++;
+      blocks.push({ type: 'code', lang: fence[2], text: body.join('\n'), closed });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) quoted.push(BLOCKQUOTE.exec(lines[i++])![1]);
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const firstItem = LIST_ITEM.exec(line);
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[2]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item && /\d/.test(item[2]) === ordered) {
+          items.push(item[3]);
+        } else if (items.length > 0 && lines[i].trim() && /^\s+/.test(lines[i]) && !FENCE.test(lines[i])) {
+          // Indented continuation of the previous item.
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(firstItem[2], 10) : 1,
+        items: items.map(item => parseInline(item)),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[\p{L}\p{N}]/u.test(char);
+}
+
+export function parseInline(source: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let text = '';
+  let i = 0;
+
+  const flush = () => {
+    if (text) nodes.push({ type: 'text', text });
+    text = '';
+  };
+  const push = (node: InlineNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (char === '\\' && i + 1 < source.length && /[\\`*_[\]()#+\-.!>~]/.test(source[i + 1])) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end > i + 1) {
+        push({ type: 'code', text: source.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (rest.startsWith('**') || rest.startsWith('__')) {
+      const marker = rest.slice(0, 2);
+      const end = source.indexOf(marker, i + 2);
+      if (end > i + 2) {
+        push({ type: 'strong', children: parseInline(source.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && !(char === '_' && isWordChar(source[i - 1])) && source[i + 1] !== ' ') {
+      let end = source.indexOf(char, i + 1);
+      // `_` inside a word (snake_case) doesn't close emphasis.
+      while (char === '_' && end !== -1 && isWordChar(source[end + 1])) end = source.indexOf(char, end + 1);
+      if (end > i + 1 && source[end - 1] !== ' ') {
+        push({ type: 'em', children: parseInline(source.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      // One level of balanced parentheses is allowed inside the URL.
+      const link = /^\[([^\]\n]+)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)/.exec(rest);
+      if (link) {
+        const href = safeHref(link[2]);
+        if (href) push({ type: 'link', href, children: parseInline(link[1]) });
+        else text += link[1];
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !isWordChar(source[i - 1])) {
+      const url = AUTOLINK.exec(rest);
+      const href = url && safeHref(url[0]);
+      if (url && href) {
+        push({ type: 'link', href, children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
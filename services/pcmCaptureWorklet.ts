@@ -0,0 +1,37 @@
+// Runs on the audio rendering thread. Each 128-sample render quantum is
+// resampled from the device rate to 16 kHz and batched into fixed-size
+// 16-bit frames, which are transferred to the main thread.
+import { createFrameBatcher, createResampler, INPUT_SAMPLE_RATE } from './audioUtils';
+
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: new (options: any) => AudioWorkletProcessor): void;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: any);
+}
+
+export interface PcmCaptureOptions {
+    frameSize: number;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    private resample = createResampler(sampleRate, INPUT_SAMPLE_RATE);
+    private batch: (samples: Float32Array) => Int16Array[];
+
+    constructor(options: { processorOptions: PcmCaptureOptions }) {
+        super();
+        this.batch = createFrameBatcher(options.processorOptions.frameSize);
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+        const channel = inputs[0]?.[0];
+        if (!channel) return true;
+
+        for (const frame of this.batch(this.resample(channel))) {
+            this.port.postMessage(frame, [frame.buffer]);
+        }
+        return true;
+    }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoute, routeForMode, routeToPath } from './router';
+
+describe('parseRoute', () => {
+  it('maps the top-level paths to modes', () => {
+    expect(parseRoute('/')).toEqual({ mode: 'Welcome' });
+    expect(parseRoute('/transcribe')).toEqual({ mode: 'Transcribe' });
+    expect(parseRoute('/chat')).toEqual({ mode: 'Chat' });
+    expect(parseRoute('/talk/')).toEqual({ mode: 'Talk' });
+  });
+
+  it('reads the agent and conversation from chat and talk paths', () => {
+    expect(parseRoute('/chat/rani-bhat')).toEqual({ mode: 'Chat', agentName: 'rani-bhat' });
+    expect(parseRoute('/talk/rani-bhat/abc-123')).toEqual({ mode: 'Talk', agentName: 'rani-bhat', conversationId: 'abc-123' });
+    expect(parseRoute('/chat/dev%20agent')).toEqual({ mode: 'Chat', agentName: 'dev agent' });
+  });
+
+  it('treats unknown or malformed paths as not found', () => {
+    expect(parseRoute('/settings')).toEqual({ mode: 'NotFound', path: '/settings' });
+    expect(parseRoute('/chat/a/b/c')).toEqual({ mode: 'NotFound', path: '/chat/a/b/c' });
+    expect(parseRoute('/transcribe/x')).toEqual({ mode: 'NotFound', path: '/transcribe/x' });
+    expect(parseRoute('/chat/%E0%A4')).toEqual({ mode: 'NotFound', path: '/chat/%E0%A4' });
+  });
+});
+
+describe('routeToPath', () => {
+  it('round-trips through parseRoute', () => {
+    for (const path of ['/', '/transcribe', '/chat', '/chat/rani-bhat', '/talk/rani-bhat/abc-123', '/chat/dev%20agent']) {
+      expect(routeToPath(parseRoute(path))).toBe(path);
+    }
+  });
+
+  it('drops a conversation id without an agent', () => {
+    expect(routeToPath({ mode: 'Chat', conversationId: 'abc' })).toBe('/chat');
+  });
+});
+
+describe('routeForMode', () => {
+  it('carries the agent into chat and talk only', () => {
+    expect(routeForMode('Talk', 'rani-bhat')).toEqual({ mode: 'Talk', agentName: 'rani-bhat' });
+    expect(routeForMode('Transcribe', 'rani-bhat')).toEqual({ mode: 'Transcribe' });
+    expect(routeForMode('Chat')).toEqual({ mode: 'Chat' });
+  });
+});
@@ -0,0 +1,73 @@
+import type { AppMode } from '../types';
+
+// Client-side routes. The path is the source of truth for the mode, agent
+// and open conversation, so links can be shared and the back button works:
+//
+//   /                                    Welcome
+//   /chat[/:agent[/:conversationId]]     Chat
+//   /talk[/:agent[/:conversationId]]     Talk
+//   /transcribe                          Transcribe
+//
+// Anything else is a not-found route.
+
+export type Route =
+  | { mode: 'Welcome' }
+  | { mode: 'Transcribe' }
+  | { mode: 'Chat' | 'Talk'; agentName?: string; conversationId?: string }
+  | { mode: 'NotFound'; path: string };
+
+const AGENT_SEGMENTS: Record<string, 'Chat' | 'Talk'> = { chat: 'Chat', talk: 'Talk' };
+
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+export function parseRoute(pathname: string): Route {
+  const segments = pathname.split('/').filter(Boolean);
+  if (segments.length === 0) return { mode: 'Welcome' };
+
+  const [first, ...rest] = segments;
+  if (first === 'transcribe' && rest.length === 0) return { mode: 'Transcribe' };
+
+  const mode = AGENT_SEGMENTS[first];
+  if (mode && rest.length <= 2) {
+    const [agentName, conversationId] = rest.map(decodeSegment);
+    if (agentName !== null && conversationId !== null) {
+      const route: Route = { mode };
+      if (agentName) route.agentName = agentName;
+      if (conversationId) route.conversationId = conversationId;
+      return route;
+    }
+  }
+  return { mode: 'NotFound', path: pathname };
+}
+
+export function routeToPath(route: Route): string {
+  switch (route.mode) {
+    case 'Welcome':
+      return '/';
+    case 'Transcribe':
+      return '/transcribe';
+    case 'NotFound':
+      return route.path;
+    case 'Chat':
+    case 'Talk': {
+      const segments = [route.mode.toLowerCase()];
+      if (route.agentName) {
+        segments.push(encodeURIComponent(route.agentName));
+        if (route.conversationId) segments.push(encodeURIComponent(route.conversationId));
+      }
+      return `/${segments.join('/')}`;
+    }
+  }
+}
+
+/** The route for switching to `mode`, keeping the current agent where the mode has one. */
+export function routeForMode(mode: AppMode, agentName?: string): Route {
+  if (mode === 'Chat' || mode === 'Talk') return agentName ? { mode, agentName } : { mode };
+  return { mode };
+}
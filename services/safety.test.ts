@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { applyIntervention } from './safety';
+import type { Message } from '../types';
+
+const reply: Message = { id: 'b1', sender: 'bot', text: 'Here is how…' };
+const said: Message = { id: 'u1', sender: 'user', text: 'I am 15 years old' };
+
+describe('applyIntervention', () => {
+  it('withholds the text of a blocked reply but not of a user message', () => {
+    expect(applyIntervention(reply, { action: 'block', direction: 'output' }).text).toBe('');
+    expect(applyIntervention(said, { action: 'block', direction: 'input' }).text).toBe(said.text);
+  });
+
+  it('keeps the text and marks the message for a crisis', () => {
+    const marked = applyIntervention(reply, { action: 'crisis', direction: 'input', category: 'self-harm' });
+    expect(marked.text).toBe(reply.text);
+    expect(marked.intervention?.action).toBe('crisis');
+  });
+
+  it('keeps a crisis card when the same reply is later blocked', () => {
+    const crisis = applyIntervention(reply, { action: 'crisis', direction: 'input' });
+    const blocked = applyIntervention(crisis, { action: 'block', direction: 'output' });
+    expect(blocked.text).toBe('');
+    expect(blocked.intervention?.action).toBe('crisis');
+  });
+});
@@ -0,0 +1,34 @@
+import type { MessageKey } from './i18n';
+import type { Message, SafetyIntervention } from '../types';
+
+/** Companion chats are for adults only; younger visitors are turned away at the welcome screen. */
+export const MIN_AGE = 18;
+
+export interface Helpline {
+  name: string;
+  /** As shown to the user. */
+  number: string;
+  /** For the `tel:` link. */
+  dial: string;
+  description: MessageKey;
+}
+
+/** Free Indian helplines shown when a message suggests the user may be in crisis. */
+export const HELPLINES: Helpline[] = [
+  { name: 'Tele-MANAS', number: '14416', dial: '14416', description: 'safety.helpline.teleManas' },
+  { name: 'Vandrevala Foundation', number: '+91 9999 666 555', dial: '+919999666555', description: 'safety.helpline.vandrevala' },
+  { name: '112', number: '112', dial: '112', description: 'safety.helpline.emergency' },
+];
+
+/**
+ * Marks a message the safety layer stepped in on. A blocked reply loses its
+ * text; a crisis card stays even if the same reply is later withheld.
+ */
+export function applyIntervention(message: Message, intervention: SafetyIntervention): Message {
+  const withheld = intervention.action === 'block' && message.sender === 'bot';
+  return {
+    ...message,
+    text: withheld ? '' : message.text,
+    intervention: message.intervention?.action === 'crisis' ? message.intervention : intervention,
+  };
+}
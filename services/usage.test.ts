@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError, RateLimitError } from './apiErrors';
+import { isLimitActive, isUsageBlocked, limitFromError, remainingMinutes, remainingShare } from './usage';
+import type { UsageLimitResponse } from '../types';
+
+const body: UsageLimitResponse = {
+  error: 'Daily chat limit reached',
+  limit: 'quota',
+  kind: 'chat',
+  retryAfterMs: 60_000,
+  usage: {
+    chat: { used: 1000, limit: 1000 },
+    live: { used: 0, limit: 600 },
+    resetsAt: '2026-01-02T00:00:00.000Z',
+  },
+};
+
+describe('limitFromError', () => {
+  it('reads the limit from a metered 429', () => {
+    expect(limitFromError(new RateLimitError('limit', 30_000, body), 1000)).toEqual({ limit: 'quota', kind: 'chat', until: 31_000 });
+  });
+
+  it('falls back to the body when there is no Retry-After', () => {
+    expect(limitFromError(new RateLimitError('limit', undefined, body), 0)?.until).toBe(60_000);
+  });
+
+  it('ignores other failures', () => {
+    expect(limitFromError(new RateLimitError('slow down', 1000))).toBeNull();
+    expect(limitFromError(new ApiError('boom', 500))).toBeNull();
+  });
+});
+
+describe('allowances', () => {
+  it('never reports less than nothing left', () => {
+    expect(remainingShare({ used: 250, limit: 1000 })).toBe(0.75);
+    expect(remainingShare({ used: 1200, limit: 1000 })).toBe(0);
+    expect(remainingShare({ used: 0, limit: 0 })).toBe(0);
+    expect(remainingMinutes({ used: 30, limit: 600 })).toBe(9);
+  });
+
+  it('lets a limit lapse once its time has passed', () => {
+    const limit = { limit: 'rate' as const, kind: 'chat' as const, until: 5000 };
+    expect(isLimitActive(limit, 4999)).toBe(true);
+    expect(isLimitActive(limit, 5000)).toBe(false);
+    expect(isLimitActive(null)).toBe(false);
+  });
+
+  it('blocks a kind whose quota is used up, but not for a passing rate limit', () => {
+    expect(isUsageBlocked('chat', body.usage, null)).toBe(true);
+    expect(isUsageBlocked('live', body.usage, null)).toBe(false);
+    expect(isUsageBlocked('live', null, { limit: 'quota', kind: 'live', until: 10 }, 5)).toBe(true);
+    expect(isUsageBlocked('live', null, { limit: 'rate', kind: 'live', until: 10 }, 5)).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { RateLimitError } from './apiErrors';
+import type { UsageAllowance, UsageKind, UsageLimitResponse, UsageSummary } from '../types';
+
+/** A 429 from a metered endpoint, as the UI shows it. */
+export interface UsageLimit {
+  limit: UsageLimitResponse['limit'];
+  kind: UsageKind;
+  /** Epoch ms after which asking again should succeed. */
+  until: number;
+}
+
+/** The limit behind `error`, or `null` when it wasn't a metered 429. */
+export function limitFromError(error: unknown, now = Date.now()): UsageLimit | null {
+  if (!(error instanceof RateLimitError) || !error.usage) return null;
+  const { limit, kind, retryAfterMs } = error.usage;
+  return { limit, kind, until: now + (error.retryAfterMs ?? retryAfterMs) };
+}
+
+export function remainingAllowance({ used, limit }: UsageAllowance): number {
+  return Math.max(0, limit - used);
+}
+
+/** Share of the allowance left, from 0 to 1. */
+export function remainingShare(allowance: UsageAllowance): number {
+  return allowance.limit > 0 ? remainingAllowance(allowance) / allowance.limit : 0;
+}
+
+/** Whole minutes of call time left; live allowances are counted in seconds. */
+export function remainingMinutes(allowance: UsageAllowance): number {
+  return Math.floor(remainingAllowance(allowance) / 60);
+}
+
+/** Whether `limit` still applies; rate limits lapse on their own within a minute. */
+export function isLimitActive(limit: UsageLimit | null, now = Date.now()): limit is UsageLimit {
+  return limit !== null && now < limit.until;
+}
+
+/** Whether `kind` is used up for the day, going by the last 429 or the latest totals. */
+export function isUsageBlocked(kind: UsageKind, usage: UsageSummary | null, limit: UsageLimit | null, now = Date.now()): boolean {
+  if (isLimitActive(limit, now) && limit.kind === kind && limit.limit === 'quota') return true;
+  return usage !== null && remainingAllowance(usage[kind]) === 0;
+}
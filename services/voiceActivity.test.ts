@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceActivityDetector, frameLevel } from './voiceActivity';
+
+const silence = new Int16Array(256);
+const speech = new Int16Array(256).fill(8000);
+
+describe('frameLevel', () => {
+    it('is 0 for silence and the amplitude for a constant signal', () => {
+        expect(frameLevel(silence)).toBe(0);
+        expect(frameLevel(new Int16Array(0))).toBe(0);
+        expect(frameLevel(speech)).toBeCloseTo(8000 / 32768, 6);
+    });
+});
+
+describe('createVoiceActivityDetector', () => {
+    it('needs several loud frames in a row before reporting speech', () => {
+        const detect = createVoiceActivityDetector({ attackFrames: 2 });
+        expect(detect(speech, 0)).toBe(false);
+        expect(detect(silence, 100)).toBe(false);
+        expect(detect(speech, 200)).toBe(false);
+        expect(detect(speech, 300)).toBe(true);
+    });
+
+    it('holds speech through short pauses and releases after a long one', () => {
+        const detect = createVoiceActivityDetector({ attackFrames: 1, releaseMs: 500 });
+        expect(detect(speech, 0)).toBe(true);
+        expect(detect(silence, 300)).toBe(true);
+        expect(detect(silence, 499)).toBe(true);
+        expect(detect(silence, 500)).toBe(false);
+    });
+});
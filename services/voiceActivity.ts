@@ -0,0 +1,46 @@
+/** Root-mean-square level of a 16-bit PCM frame, in [0, 1]. */
+export function frameLevel(pcm: Int16Array): number {
+    if (pcm.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < pcm.length; i++) {
+        const sample = pcm[i] / 32768;
+        sum += sample * sample;
+    }
+    return Math.sqrt(sum / pcm.length);
+}
+
+export interface VoiceActivityOptions {
+    /** RMS level above which a frame counts as speech. */
+    threshold?: number;
+    /** Consecutive loud frames needed before speech starts. */
+    attackFrames?: number;
+    /** Quiet time in ms before speech is considered over. */
+    releaseMs?: number;
+}
+
+/**
+ * Energy-based voice activity detector. Feed it every captured frame with a
+ * timestamp; it returns whether the user is currently speaking. The attack
+ * count ignores clicks and the release delay bridges pauses between words.
+ */
+export function createVoiceActivityDetector({
+    threshold = 0.02,
+    attackFrames = 2,
+    releaseMs = 600,
+}: VoiceActivityOptions = {}): (pcm: Int16Array, now: number) => boolean {
+    let loudFrames = 0;
+    let speaking = false;
+    let lastVoiceAt = 0;
+
+    return (pcm: Int16Array, now: number) => {
+        if (frameLevel(pcm) >= threshold) {
+            loudFrames++;
+            lastVoiceAt = now;
+            if (loudFrames >= attackFrames) speaking = true;
+        } else {
+            loudFrames = 0;
+            if (speaking && now - lastVoiceAt >= releaseMs) speaking = false;
+        }
+        return speaking;
+    };
+}
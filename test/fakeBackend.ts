@@ -0,0 +1,136 @@
+import * as fixtures from './fixtures/backend';
+import type { StreamResponse, UsageSummary } from '../types';
+
+// An in-process stand-in for the Express backend, installed as `fetch`. It
+// answers the routes the chat and talk screens call, streams scripted chat
+// replies as NDJSON and records every request so tests can assert on them.
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: any;
+  keepalive?: boolean;
+}
+
+/** A chat reply the test streams frame by frame, to look at the UI mid-reply. */
+export interface OpenReply {
+  send(frame: StreamResponse): void;
+  finish(): void;
+}
+
+export interface FakeBackend {
+  fetch: typeof fetch;
+  requests: RecordedRequest[];
+  /** Today's totals, as `GET /api/usage` returns them. */
+  usage: UsageSummary;
+  /** Requests whose path ends with `suffix`. */
+  requestsTo(suffix: string, method?: string): RecordedRequest[];
+  /** The frames of the next chat reply, streamed in order. */
+  queueReply(frames: StreamResponse[]): void;
+  openReply(): OpenReply;
+  /** Answers the next request whose path ends with `suffix` with an error. */
+  failNext(suffix: string, status: number, body: unknown, headers?: Record<string, string>): void;
+}
+
+const encoder = new TextEncoder();
+const encodeFrame = (frame: StreamResponse) => encoder.encode(`${JSON.stringify(frame)}\n`);
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export function createFakeBackend(): FakeBackend {
+  const requests: RecordedRequest[] = [];
+  // Each reply is either its frames or a stream the test is still writing to.
+  const replies: (StreamResponse[] | { stream: ReadableStream<Uint8Array>; controller: ReadableStreamDefaultController<Uint8Array> })[] = [];
+  const failures: { suffix: string; response: () => Response }[] = [];
+
+  const streamReply = (signal: AbortSignal | null | undefined) => {
+    const next = replies.shift();
+    if (!next) return json({ error: 'No reply queued' }, 500);
+    if (!Array.isArray(next)) {
+      // Like a real fetch, aborting fails the read in progress.
+      signal?.addEventListener('abort', () => next.controller.error(abortError()));
+      return new Response(next.stream, { headers: { 'Content-Type': 'application/x-ndjson' } });
+    }
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const frame of next) controller.enqueue(encodeFrame(frame));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+  };
+
+  const route = (request: RecordedRequest, signal: AbortSignal | null | undefined): Response => {
+    const failure = failures.findIndex(candidate => request.path.endsWith(candidate.suffix));
+    if (failure !== -1) return failures.splice(failure, 1)[0].response();
+
+    const { method, path } = request;
+    const agentRoute = path.match(/^\/api\/agents\/([^/]+)\/(.+)$/);
+    if (method === 'GET' && path === '/api/agents') return json({ agents: [fixtures.agent] });
+    if (method === 'GET' && path === '/api/usage') return json(backend.usage);
+    if (!agentRoute) return json({ error: 'Not found' }, 404);
+
+    const [, name, rest] = agentRoute;
+    if (decodeURIComponent(name) !== fixtures.agent.name) return json({ error: 'Agent not found' }, 404);
+    switch (`${method} ${rest}`) {
+      case 'GET config':
+        return json(fixtures.agentConfig);
+      case 'GET live/config':
+        return json(fixtures.liveConfig);
+      case 'POST chat/stream':
+        return streamReply(signal);
+      case 'POST chat/summarize':
+        return json({ summary: 'They talked about the weather.' });
+      case 'POST moderate':
+        return json({ intervention: null });
+      case 'GET memories':
+        return json({ memories: [] });
+      case 'POST memories/extract':
+        return json({ memories: [] });
+      case 'POST live/end':
+      case 'POST feedback':
+        return new Response(null, { status: 204 });
+      default:
+        return json({ error: 'Not found' }, 404);
+    }
+  };
+
+  const backend: FakeBackend = {
+    requests,
+    usage: fixtures.usage,
+    async fetch(input, init: RequestInit = {}) {
+      if (init.signal?.aborted) throw abortError();
+      const url = new URL(input instanceof Request ? input.url : String(input));
+      const request: RecordedRequest = {
+        method: init.method ?? 'GET',
+        path: url.pathname,
+        body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+        keepalive: init.keepalive,
+      };
+      requests.push(request);
+      return route(request, init.signal);
+    },
+    requestsTo(suffix, method) {
+      return requests.filter(request => request.path.endsWith(suffix) && (!method || request.method === method));
+    },
+    queueReply(frames) {
+      replies.push(frames);
+    },
+    openReply() {
+      let controller!: ReadableStreamDefaultController<Uint8Array>;
+      const stream = new ReadableStream<Uint8Array>({ start: c => { controller = c; } });
+      replies.push({ stream, controller });
+      return {
+        send: frame => controller.enqueue(encodeFrame(frame)),
+        finish: () => controller.close(),
+      };
+    },
+    failNext(suffix, status, body, headers) {
+      failures.push({ suffix, response: () => json(body, status, headers) });
+    },
+  };
+  return backend;
+}
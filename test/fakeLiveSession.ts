@@ -0,0 +1,109 @@
+import { act } from '@testing-library/react';
+import { LiveServerMessage } from '@google/genai';
+import type { LiveSendClientContentParameters, LiveSendRealtimeInputParameters, Session } from '@google/genai';
+import type { LiveConnectOptions, LiveSessionCallbacks, startLiveConversation } from '../services/geminiService';
+import type { RecordedMessage } from './fixtures/liveMessages';
+import type { LiveAllowance } from '../types';
+
+// Stands in for `startLiveConversation`: each call opens a scripted session
+// instead of a Gemini socket. Tests replay recorded server messages into the
+// session's callbacks and inspect what the client sent back.
+
+export interface FakeLiveSession {
+  agentName: string;
+  options: LiveConnectOptions;
+  /** Microphone audio and camera frames, in the order they were sent. */
+  realtimeInput: LiveSendRealtimeInputParameters[];
+  /** Earlier turns handed over when the session opened. */
+  clientContent: LiveSendClientContentParameters[];
+  closed: boolean;
+  /** Completes setup, as the server does shortly after connecting. */
+  open(): Promise<void>;
+  /** Delivers each message in turn, letting the client finish with one before the next. */
+  replay(messages: RecordedMessage[]): Promise<void>;
+  /** A socket error, e.g. the network went away. */
+  fail(): Promise<void>;
+  /** The server closed the socket. */
+  drop(): Promise<void>;
+}
+
+export interface FakeLive {
+  startLiveConversation: typeof startLiveConversation;
+  /** Every session opened so far, oldest first. */
+  sessions: FakeLiveSession[];
+  latest(): FakeLiveSession;
+  /** Rejects the next connection attempt, e.g. with a 429 from the token route. */
+  rejectNext(error: unknown): void;
+  /** Handed to each connection like the backend's metering; omit for an unmetered session. */
+  allowance?: LiveAllowance;
+  /** Whether new sessions complete setup on their own. */
+  autoOpen: boolean;
+  reset(): void;
+}
+
+function createSession(agentName: string, callbacks: LiveSessionCallbacks, options: LiveConnectOptions): FakeLiveSession {
+  const deliver = (event: () => unknown) => act(async () => { await event(); });
+
+  const session: FakeLiveSession = {
+    agentName,
+    options,
+    realtimeInput: [],
+    clientContent: [],
+    closed: false,
+    open: () => deliver(() => callbacks.onopen?.()),
+    async replay(messages) {
+      for (const message of messages) {
+        // Wrapped like the SDK does, so the `text` and `data` getters work.
+        await deliver(() => callbacks.onmessage(Object.assign(new LiveServerMessage(), message)));
+      }
+    },
+    fail: () => deliver(() => callbacks.onerror?.(new ErrorEvent('error', { message: 'Network error' }))),
+    drop: () => deliver(() => callbacks.onclose?.(new CloseEvent('close', { code: 1011, reason: 'Internal error' }))),
+  };
+  return session;
+}
+
+/** The SDK session the client is handed; whatever it sends is recorded on `session`. */
+function toSdkSession(session: FakeLiveSession): Session {
+  return {
+    sendRealtimeInput: (input: LiveSendRealtimeInputParameters) => { session.realtimeInput.push(input); },
+    sendClientContent: (content: LiveSendClientContentParameters) => { session.clientContent.push(content); },
+    close: () => { session.closed = true; },
+  } as unknown as Session;
+}
+
+export function createFakeLive(): FakeLive {
+  const rejections: unknown[] = [];
+
+  const fake: FakeLive = {
+    sessions: [],
+    autoOpen: true,
+    latest() {
+      const session = fake.sessions[fake.sessions.length - 1];
+      if (!session) throw new Error('No live session has been started');
+      return session;
+    },
+    rejectNext(error) {
+      rejections.push(error);
+    },
+    async startLiveConversation(agentName, callbacks, options = {}) {
+      if (rejections.length > 0) throw rejections.shift();
+      if (fake.allowance) options.onAllowance?.(fake.allowance);
+      const session = createSession(agentName, callbacks, options);
+      fake.sessions.push(session);
+      // The real client opens the socket before resolving, then setup completes.
+      if (fake.autoOpen) queueMicrotask(() => { if (!session.closed) callbacks.onopen?.(); });
+      return toSdkSession(session);
+    },
+    reset() {
+      fake.sessions = [];
+      fake.allowance = undefined;
+      fake.autoOpen = true;
+      rejections.length = 0;
+    },
+  };
+  return fake;
+}
+
+/** Shared by the `vi.mock` factory and the tests that drive it. */
+export const fakeLive = createFakeLive();
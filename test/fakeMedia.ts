@@ -0,0 +1,139 @@
+import { act } from '@testing-library/react';
+import { vi } from 'vitest';
+
+// jsdom has no Web Audio or media devices. These fakes cover what the voice
+// modes use: a microphone whose frames the test supplies through the capture
+// worklet, and playback nodes whose start and stop calls can be inspected.
+
+export interface FakeMedia {
+  /** Every context created, capture and playback alike. */
+  contexts: FakeAudioContext[];
+  /** Every buffer source scheduled for playback. */
+  sources: FakeBufferSource[];
+  /** Sources that started and haven't been stopped. */
+  playing(): FakeBufferSource[];
+  /** Sends a captured 16 kHz PCM frame, as the worklet would. */
+  speak(pcm: Int16Array): Promise<void>;
+  /** Makes `getUserMedia` reject, as when permission is refused. */
+  denyMicrophone(): void;
+  /** Microphone tracks handed out, so a test can check they were released. */
+  tracks: { kind: string; stopped: boolean; stop(): void }[];
+}
+
+export interface FakeBufferSource {
+  buffer: { duration: number } | null;
+  startedAt?: number;
+  stopped: boolean;
+}
+
+export interface FakeAudioContext {
+  state: 'running' | 'suspended' | 'closed';
+}
+
+/** A loud frame the voice activity detector counts as speech. */
+export function speechFrame(size = 2048): Int16Array {
+  return new Int16Array(size).map((_, i) => (i % 2 === 0 ? 12000 : -12000));
+}
+
+/** Installs the fakes as globals; undo with `vi.unstubAllGlobals()`. */
+export function installFakeMedia(): FakeMedia {
+  const contexts: FakeAudioContext[] = [];
+  const sources: (FakeBufferSource & { stop(): void })[] = [];
+  const worklets: { port: { onmessage: ((event: { data: Int16Array }) => void) | null } }[] = [];
+  const tracks: FakeMedia['tracks'] = [];
+  let microphoneDenied = false;
+
+  const node = () => ({ connect: () => {}, disconnect: () => {} });
+
+  class AudioContext implements FakeAudioContext {
+    state: FakeAudioContext['state'] = 'running';
+    currentTime = 0;
+    sampleRate = 48000;
+    destination = node();
+    audioWorklet = { addModule: async () => {} };
+
+    constructor() {
+      contexts.push(this);
+    }
+
+    createGain() {
+      return { ...node(), gain: { value: 1, setTargetAtTime: vi.fn() } };
+    }
+
+    createBuffer(channels: number, length: number, sampleRate: number) {
+      const data = Array.from({ length: channels }, () => new Float32Array(length));
+      return { numberOfChannels: channels, length, sampleRate, duration: length / sampleRate, getChannelData: (channel: number) => data[channel] };
+    }
+
+    createBufferSource() {
+      const listeners: (() => void)[] = [];
+      const source = {
+        ...node(),
+        buffer: null,
+        startedAt: undefined as number | undefined,
+        stopped: false,
+        addEventListener: (_type: 'ended', listener: () => void) => { listeners.push(listener); },
+        start(when = 0) {
+          source.startedAt = when;
+        },
+        stop() {
+          if (source.stopped) return;
+          source.stopped = true;
+          listeners.forEach(listener => listener());
+        },
+      };
+      sources.push(source);
+      return source;
+    }
+
+    createMediaStreamSource() {
+      return node();
+    }
+
+    async suspend() {
+      this.state = 'suspended';
+    }
+
+    async resume() {
+      this.state = 'running';
+    }
+
+    async close() {
+      this.state = 'closed';
+    }
+  }
+
+  class AudioWorkletNode {
+    port: { onmessage: ((event: { data: Int16Array }) => void) | null } = { onmessage: null };
+    connect = () => {};
+    disconnect = () => {};
+
+    constructor() {
+      worklets.push(this);
+    }
+  }
+
+  const getUserMedia = async () => {
+    if (microphoneDenied) throw new DOMException('Permission denied', 'NotAllowedError');
+    const track = { kind: 'audio', stopped: false, stop: () => { track.stopped = true; } };
+    tracks.push(track);
+    return { getTracks: () => [track] };
+  };
+
+  vi.stubGlobal('AudioContext', AudioContext);
+  vi.stubGlobal('AudioWorkletNode', AudioWorkletNode);
+  vi.stubGlobal('navigator', Object.assign(Object.create(navigator), { mediaDevices: { getUserMedia } }));
+
+  return {
+    contexts,
+    sources,
+    playing: () => sources.filter(source => source.startedAt !== undefined && !source.stopped),
+    speak: pcm => act(async () => {
+      worklets.forEach(worklet => worklet.port.onmessage?.({ data: pcm }));
+    }),
+    denyMicrophone() {
+      microphoneDenied = true;
+    },
+    tracks,
+  };
+}
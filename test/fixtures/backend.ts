@@ -0,0 +1,68 @@
+import type { AgentConfig, AgentSummary, LiveConfig, StreamResponse, UsageLimitResponse, UsageSummary } from '../../types';
+
+// Responses recorded from the backend's config, usage and chat routes, with
+// identifying details swapped for a test agent.
+
+export const agent: AgentSummary = {
+  name: 'asha',
+  displayName: 'Asha',
+  tagline: 'Always up for a chat',
+};
+
+export const agentConfig: AgentConfig = {
+  ...agent,
+  greeting: 'Hey, you! How are you doing today?',
+  model: 'gemini-2.5-flash',
+};
+
+export const liveConfig: LiveConfig = {
+  model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  systemInstruction: 'You are Asha.',
+  voiceName: 'Kore',
+};
+
+export const usage: UsageSummary = {
+  chat: { used: 50_000, limit: 200_000 },
+  live: { used: 600, limit: 3600 },
+  resetsAt: '2030-01-01T00:00:00.000Z',
+};
+
+/** A grounded reply, streamed in three chunks, then metered. */
+export const groundedReply: StreamResponse[] = [
+  { textChunk: 'The monsoon usually ' },
+  { textChunk: 'reaches Kerala ' },
+  { textChunk: 'in early June.', sources: [{ uri: 'https://example.com/monsoon', title: 'Monsoon onset' }] },
+  { finishReason: 'STOP' },
+  { usage: { ...usage, chat: { used: 50_420, limit: 200_000 } } },
+];
+
+/** The user's message tripped the crisis check; the reply is the safe response. */
+export const crisisReply: StreamResponse[] = [
+  { intervention: { action: 'crisis', direction: 'input', category: 'self-harm' } },
+  { textChunk: 'I\'m really glad you told me. I\'m right here with you.' },
+  { finishReason: 'STOP' },
+];
+
+/** The model failed after the first chunk. */
+export const failedReply: StreamResponse[] = [
+  { textChunk: 'Let me think' },
+  { error: 'The model is overloaded. Please try again.' },
+];
+
+/** Body of the 429 sent once the day's chat tokens are used up. */
+export const chatQuotaReached: UsageLimitResponse = {
+  error: 'Daily chat limit reached',
+  limit: 'quota',
+  kind: 'chat',
+  retryAfterMs: 3_600_000,
+  usage: { ...usage, chat: { used: 200_000, limit: 200_000 } },
+};
+
+/** Body of the 429 sent once the day's call time is used up. */
+export const liveQuotaReached: UsageLimitResponse = {
+  error: 'Daily call limit reached',
+  limit: 'quota',
+  kind: 'live',
+  retryAfterMs: 3_600_000,
+  usage: { ...usage, live: { used: 3600, limit: 3600 } },
+};
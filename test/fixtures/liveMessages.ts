@@ -0,0 +1,59 @@
+import type { LiveServerMessage } from '@google/genai';
+import { OUTPUT_SAMPLE_RATE, encode } from '../../services/audioUtils';
+
+// Server messages recorded from live calls, trimmed to what the client reads.
+// The model's audio is replaced with a short tone of the same format (24 kHz
+// 16-bit mono PCM) so the fixtures stay small.
+
+/** A message as it came over the wire, before the SDK wraps it. */
+export type RecordedMessage = Omit<LiveServerMessage, 'text' | 'data'>;
+
+/** Base64 PCM for `ms` of a quiet 220 Hz tone, as it arrives in `inlineData`. */
+export function audioChunk(ms = 40): string {
+  const samples = new Int16Array(Math.round((OUTPUT_SAMPLE_RATE * ms) / 1000));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 220 * i) / OUTPUT_SAMPLE_RATE) * 8000);
+  }
+  return encode(new Uint8Array(samples.buffer));
+}
+
+const audio = (ms?: number): RecordedMessage => ({
+  serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: audioChunk(ms) } }] } },
+});
+const heard = (text: string): RecordedMessage => ({ serverContent: { inputTranscription: { text } } });
+const said = (text: string): RecordedMessage => ({ serverContent: { outputTranscription: { text } } });
+
+export const RESUMPTION_HANDLE = 'resume-7f3a';
+
+/** Sent right after setup, before anyone speaks. */
+export const sessionStart: RecordedMessage[] = [
+  { setupComplete: {} },
+  { sessionResumptionUpdate: { newHandle: RESUMPTION_HANDLE, resumable: true } },
+];
+
+/** The user asks a question and the agent answers in full. */
+export const questionAndAnswer: RecordedMessage[] = [
+  heard('How was'),
+  heard(' your day?'),
+  audio(),
+  said('It was lovely,'),
+  audio(),
+  said(' thanks for asking!'),
+  audio(),
+  { serverContent: { generationComplete: true } },
+  { serverContent: { turnComplete: true } },
+];
+
+/** The agent starts a long answer and the user talks over it. */
+export const interruptedAnswer: RecordedMessage[] = [
+  heard('Tell me a story'),
+  audio(200),
+  said('Once upon a time, in a'),
+  audio(200),
+  { serverContent: { interrupted: true } },
+];
+
+/** The server is about to recycle the socket. */
+export const goAway: RecordedMessage[] = [
+  { goAway: { timeLeft: '5s' } },
+];
@@ -0,0 +1,40 @@
+import type * as ConversationStore from '../services/conversationStore';
+import type { Conversation } from '../types';
+
+// jsdom has no IndexedDB; conversations are kept in this map instead, which
+// tests can also read to check what the screens saved.
+
+export const storedConversations = new Map<string, Conversation>();
+
+/** `vi.mock` factory for the conversation store: the real module with its storage swapped for the map. */
+export async function memoryConversationStore(importOriginal: () => Promise<typeof ConversationStore>): Promise<typeof ConversationStore> {
+  const actual = await importOriginal();
+  const getConversation = async (id: string) => storedConversations.get(id);
+
+  return {
+    ...actual,
+    async listConversations(agentName, kind) {
+      return [...storedConversations.values()]
+        .filter(conversation => conversation.agentName === agentName && (!kind || conversation.kind === kind))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    getConversation,
+    async saveConversation(conversation, messages) {
+      const saved: Conversation = {
+        ...conversation,
+        messages,
+        title: conversation.title || actual.deriveTitle(messages),
+        updatedAt: Date.now(),
+      };
+      storedConversations.set(saved.id, saved);
+      return saved;
+    },
+    async renameConversation(id, title) {
+      const conversation = await getConversation(id);
+      if (conversation) storedConversations.set(id, { ...conversation, title: title.trim() || conversation.title });
+    },
+    async deleteConversation(id) {
+      storedConversations.delete(id);
+    },
+  };
+}
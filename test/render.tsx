@@ -0,0 +1,25 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { LanguageProvider } from '../hooks/useLanguage';
+import type { AgentDirectory } from '../hooks/useAgents';
+import * as fixtures from './fixtures/backend';
+
+/** Renders `ui` the way `index.tsx` does, inside the language provider. */
+export function renderScreen(ui: React.ReactElement) {
+  // jsdom doesn't lay anything out, so there is nothing to scroll.
+  Element.prototype.scrollIntoView ??= () => {};
+  return render(<LanguageProvider>{ui}</LanguageProvider>);
+}
+
+/** The directory `useAgents` would give once the fixture agent has loaded and been picked. */
+export function agentDirectory(overrides: Partial<AgentDirectory> = {}): AgentDirectory {
+  return {
+    agents: [fixtures.agent],
+    selected: fixtures.agent,
+    select: () => {},
+    loading: false,
+    error: null,
+    reload: async () => {},
+    ...overrides,
+  };
+}
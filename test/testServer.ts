@@ -0,0 +1,120 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createFileAccountStore } from '../server/accounts';
+import type { AgentDefinition } from '../server/agents';
+import { createApp } from '../server/app';
+import type { AppOptions } from '../server/app';
+import { createFileAuditLog } from '../server/audit';
+import type { AuditEntry } from '../server/audit';
+import { createFileFeedbackStore } from '../server/feedback';
+import { createFileMemoryStore } from '../server/memory';
+import { createClassifier, createModerator, loadModerationConfig } from '../server/moderation';
+import { createMockProvider } from '../server/providers/mock';
+import { DEFAULT_USAGE_LIMITS, createFileUsageMeter } from '../server/usage';
+import type { UsageLimits } from '../server/usage';
+
+// Runs the real Express app on a free port, with the mock provider, the
+// repo's moderation rules and every store in a fresh temp directory, so route
+// tests go over HTTP the way the client does.
+
+export const testAgent: AgentDefinition = {
+  name: 'asha',
+  displayName: 'Asha',
+  model: 'mock-chat',
+  chatPrompt: 'You are Asha, a friendly companion.',
+  groundingSearch: false,
+  live: { model: 'mock-live', systemInstruction: 'You are Asha, on a call.' },
+};
+
+export interface TestServerOptions extends Partial<AppOptions> {
+  /** Merged over the defaults for the file-backed usage meter. */
+  limits?: Partial<UsageLimits>;
+}
+
+export interface TestRequest {
+  method?: string;
+  body?: unknown;
+  /** Sent as `Authorization: Bearer <token>`. */
+  token?: string;
+  signal?: AbortSignal;
+}
+
+export interface TestServer {
+  /** Where the stores write; removed by `close`. */
+  dir: string;
+  options: AppOptions;
+  request(path: string, init?: TestRequest): Promise<Response>;
+  /** Creates an account and returns its bearer token. */
+  signUp(email?: string): Promise<string>;
+  /** Entries written to the audit log so far. */
+  auditEntries(): Promise<AuditEntry[]>;
+  close(): Promise<void>;
+}
+
+let accounts = 0;
+
+export async function startTestServer({ limits, ...overrides }: TestServerOptions = {}): Promise<TestServer> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'rani-server-'));
+  const auditFile = path.join(dir, 'audit.jsonl');
+  const audit = overrides.audit ?? createFileAuditLog(auditFile);
+  const options: AppOptions = {
+    agents: { list: () => [testAgent], get: name => (name === testAgent.name ? testAgent : undefined) },
+    provider: createMockProvider(),
+    transcribe: { model: 'mock-transcribe', systemInstruction: 'Stay silent.' },
+    feedback: createFileFeedbackStore(path.join(dir, 'feedback.jsonl')),
+    moderator: createModerator({
+      config: await loadModerationConfig(path.resolve(__dirname, '../moderation/rules.json')),
+      classifier: createClassifier('local'),
+      audit,
+    }),
+    audit,
+    memories: createFileMemoryStore(path.join(dir, 'memories')),
+    accounts: createFileAccountStore(path.join(dir, 'accounts.json')),
+    usage: createFileUsageMeter(path.join(dir, 'usage.json'), { ...DEFAULT_USAGE_LIMITS, ...limits }),
+    ...overrides,
+  };
+
+  const server = await new Promise<Server>(resolve => {
+    const listening = createApp(options).listen(0, () => resolve(listening));
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request: TestServer['request'] = (route, { method = 'GET', body, token, signal } = {}) =>
+    fetch(`${url}${route}`, {
+      method,
+      signal,
+      headers: {
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  return {
+    dir,
+    options,
+    request,
+    async signUp(email = `user${++accounts}@example.com`) {
+      const response = await request('/api/auth/signup', { method: 'POST', body: { email, password: 'correct horse' } });
+      if (response.status !== 201) throw new Error(`Sign-up failed with ${response.status}`);
+      return (await response.json()).token;
+    },
+    async auditEntries() {
+      const text = await readFile(auditFile, 'utf8').catch(() => '');
+      return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/** The NDJSON frames of a streamed chat reply. */
+export async function readFrames(response: Response): Promise<any[]> {
+  return (await response.text()).split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
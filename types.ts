@@ -1,5 +1,8 @@
 
-export type AppMode = 'Welcome' | 'Chat' | 'Talk';
+export type AppMode = 'Welcome' | 'Chat' | 'Talk' | 'Transcribe';
+
+/** UI language; also sent with live token requests so speech recognition and synthesis match. */
+export type Language = 'en' | 'hi';
 
 export interface Message {
   id: string;
@@ -7,6 +10,87 @@ export interface Message {
   sender: 'user' | 'bot';
   sources?: GroundingSource[];
   reaction?: string;
+  feedback?: FeedbackRating;
+  /** The user talked over this (voice) reply, so it was cut short. */
+  interrupted?: boolean;
+  /** The user stopped this reply while it was streaming. */
+  stopped?: boolean;
+  /** Transcribed from a voice call rather than typed or streamed as text. */
+  spoken?: boolean;
+  /** Images sent with a user message, or the camera snapshot from a spoken turn. */
+  attachments?: MessageAttachment[];
+  /** Set when the safety layer stepped in on this message. */
+  intervention?: SafetyIntervention;
+  /**
+   * Every generated version of a bot reply, oldest first. When present,
+   * `text` and `sources` mirror `variants[variantIndex]`.
+   */
+  variants?: MessageVariant[];
+  variantIndex?: number;
+}
+
+/** An inline image; sent to the backend as-is and shown as a thumbnail. */
+export interface MessageAttachment {
+  mimeType: string;
+  /** Base64-encoded image bytes. */
+  data: string;
+}
+
+/**
+ * The safety layer stepped in: `crisis` answers with helplines alongside the
+ * reply, `block` withholds the message (for input, no reply is generated).
+ */
+export interface SafetyIntervention {
+  action: 'crisis' | 'block';
+  /** `input` for what the user said, `output` for the agent's reply. */
+  direction: 'input' | 'output';
+  category?: string;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+/**
+ * `POST /api/agents/:name/feedback`. `null` clears a previous rating or
+ * reaction; an omitted field is left unchanged.
+ */
+export interface MessageFeedback {
+  messageId: string;
+  conversationId?: string;
+  rating?: FeedbackRating | null;
+  reaction?: string | null;
+  /** The reply being rated, so the signal can be reviewed without the thread. */
+  messageText?: string;
+}
+
+export interface MessageVariant {
+  text: string;
+  sources?: GroundingSource[];
+  stopped?: boolean;
+  intervention?: SafetyIntervention;
+}
+
+export type ConversationKind = 'chat' | 'voice';
+
+/**
+ * The older part of a long chat folded into prose, standing in for every
+ * message up to and including `throughMessageId` when the thread is sent.
+ */
+export interface ConversationSummary {
+  text: string;
+  throughMessageId: string;
+}
+
+/** A saved chat thread or voice transcript, stored per agent. */
+export interface Conversation {
+  id: string;
+  agentName: string;
+  kind: ConversationKind;
+  title: string;
+  messages: Message[];
+  /** Rolled forward as a chat outgrows the history budget; unset for short threads. */
+  summary?: ConversationSummary;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface GroundingSource {
@@ -16,9 +100,128 @@ export interface GroundingSource {
 
 /**
  * Defines the structure of each JSON object streamed from the backend
- * for a chat response.
+ * for a chat response. The stream is newline-delimited JSON: one frame per
+ * line, carrying any combination of the fields below.
  */
 export interface StreamResponse {
     textChunk?: string;
     sources?: GroundingSource[];
-}
\ No newline at end of file
+    /** Set on the final frame of a successful reply, e.g. `STOP`. */
+    finishReason?: string;
+    /** Set when the reply failed part-way; no further frames follow. */
+    error?: string;
+    /**
+     * Set when moderation stepped in. For `output`, the text streamed so far
+     * must be discarded and no further text follows.
+     */
+    intervention?: SafetyIntervention;
+    /** Sent after a reply has been metered: the user's allowance for the rest of the day. */
+    usage?: UsageSummary;
+}
+
+// ============================================
+// BACKEND API TYPES
+// ============================================
+
+/** A signed-up user. Memories and usage are kept under `id`. */
+export interface Account {
+  id: string;
+  email: string;
+  displayName?: string;
+  createdAt: string;
+}
+
+/** Returned by sign-up and sign-in; `token` is sent as `Authorization: Bearer <token>`. */
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  account: Account;
+}
+
+export type UsageKind = 'chat' | 'live';
+
+/** One daily allowance: chat in tokens, live calls in seconds. */
+export interface UsageAllowance {
+  used: number;
+  limit: number;
+}
+
+/** `GET /api/usage`: the user's totals for today across every agent. */
+export interface UsageSummary {
+  chat: UsageAllowance;
+  live: UsageAllowance;
+  /** When the daily allowances start over (midnight UTC). */
+  resetsAt: string;
+}
+
+/** Returned with a live token: the metered session's id and how long it may run. */
+export interface LiveAllowance {
+  sessionId: string;
+  /** When the session may run until: the end of the user's allowance or the token's lifetime. */
+  endsAt: string;
+  /** Whether `endsAt` is where today's allowance runs out, rather than the token lifetime. */
+  limitedByQuota: boolean;
+  /** When the daily allowance starts over. */
+  resetsAt: string;
+}
+
+/**
+ * Body of a 429 from a metered endpoint, sent with `Retry-After`. A `quota`
+ * limit lasts until the allowances reset; a `rate` limit clears within a minute.
+ */
+export interface UsageLimitResponse {
+  error: string;
+  limit: 'quota' | 'rate';
+  kind: UsageKind;
+  retryAfterMs: number;
+  usage: UsageSummary;
+}
+
+export type MemorySource = 'chat' | 'voice';
+
+/** A durable fact an agent remembers about the user, e.g. "The user's name is Arjun". */
+export interface Memory {
+  id: string;
+  agentName: string;
+  text: string;
+  /** Where the fact was picked up. */
+  source: MemorySource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An entry in `GET /api/agents`. */
+export interface AgentSummary {
+    name: string;
+    displayName: string;
+    avatar?: string;
+    tagline?: string;
+}
+
+/** `GET /api/agents/:name/config`. */
+export interface AgentConfig {
+    name: string;
+    displayName: string;
+    avatar?: string;
+    tagline?: string;
+    /** Opening line shown before the first message. */
+    greeting?: string;
+    model: string;
+    chatPrompt?: string;
+}
+
+/** `GET /api/agents/:name/live/config`. */
+export interface LiveConfig {
+    model: string;
+    systemInstruction: string;
+    voiceName?: string;
+}
+
+/** A prior turn in the UI's shape, as handed to a live call or memory extraction. */
+export type ChatHistoryItem = Pick<Message, 'sender' | 'text'>;
+
+/** A prior turn in the model's content format, as sent with a chat request. */
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}